@@ -131,6 +131,7 @@ function parseAirports() {
     const state = row['STATE_CODE']?.trim();
     const lat = parseFloat(row['LAT_DECIMAL']);
     const lon = parseFloat(row['LONG_DECIMAL']);
+    const elevation = parseFloat(row['ELEV']);
     const siteNo = row['SITE_NO']?.trim();
 
     // Include airports with ICAO codes OR FAA IDs
@@ -149,6 +150,7 @@ function parseAirports() {
       state,
       lat,
       lon,
+      ...(!isNaN(elevation) && { elevation: Math.round(elevation) }),
       runways: [],
     });
   }
@@ -26,7 +26,7 @@ export default async function WindPlotPathPage({ params }: PageProps) {
   return (
     <WindPlotPage
       initialIcao={route.icao}
-      observationHours={route.mode === 'observation' ? route.durationHours : DEFAULT_OBSERVATION_HOURS}
+      observationHours={route.mode === 'forecast' ? DEFAULT_OBSERVATION_HOURS : route.durationHours}
       initialViewMode={routeModeToViewMode(route.mode)}
       initialForecastHoursLimit={route.mode === 'forecast' ? route.durationHours : DEFAULT_FORECAST_HOURS}
     />
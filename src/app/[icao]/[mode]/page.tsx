@@ -0,0 +1,2 @@
+// Paths without a duration ("/KFRG/climatology") use the default window for the mode
+export { default, metadata } from './[duration]/page';
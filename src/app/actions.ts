@@ -3,144 +3,187 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import airportsData from '@/lib/airports-data.json';
-import { WindData, WindDataPoint, ForecastData, ForecastDataPoint } from '@/lib/types';
-import { parseNbmBulletin, getNbmBulletinUrl, NbmProductType } from '@/lib/nbm-parser';
+import {
+  WindData,
+  ForecastData,
+  ForecastDataPoint,
+  ForecastRun,
+  ForecastStation,
+  ObservationStation,
+  TafData,
+  TafForecastPoint,
+  WindVariability,
+} from '@/lib/types';
+import { NbmProductType, getPreviousNbmCycles } from '@/lib/nbm-parser';
+import { hasNbmCoverage } from '@/lib/nbm-coverage';
+import { parseMetar, DecodedMetar } from '@/lib/metar-parser';
+import { parseTaf, tafToHourlySeries } from '@/lib/taf-parser';
+import { getBucketMinutes, bucketObservations } from '@/lib/observation-buckets';
+import { isSuspect, qcObservations } from '@/lib/observation-qc';
+import { METAR_QC_OPTIONS, metarsToObservations } from '@/lib/metar-history';
+import { AVERAGING_WINDOWS_MIN } from '@/lib/wind-averaging';
+import { ForecastRange } from '@/lib/windplot-route';
+import { getFlightCategory } from '@/lib/flight-category';
+import { archiveForecastRun, readForecastArchive } from '@/lib/forecast-archive';
+import {
+  ForecastVerification,
+  pairForecastsWithObservations,
+  scoreByLeadTime,
+} from '@/lib/forecast-verification';
+import { WindClimatology, buildWindClimatology } from '@/lib/climatology';
+import { readObservations } from '@/lib/observation-store';
+import { HeadingReference, convertWindDirections, getMagneticDeclination } from '@/lib/magnetic-variation';
+import { MetarReport, ObservationSeries, getSelectedProviderId } from '@/lib/providers';
+import { iemProvider } from '@/lib/providers/iem';
+import {
+  AUTO_STATION_CANDIDATES,
+  OBSERVATION_STATION_RADIUS_MILES,
+  rankObservationStations,
+} from '@/lib/observation-stations';
+import {
+  loadStoredObservations,
+  loadMetar,
+  loadMetars,
+  loadMetarHistory,
+  loadTaf,
+  loadNbmIndex,
+  loadNbmRunIndex,
+  loadNbmCoverage,
+  peekNbmCoverage,
+  loadObservationStations,
+} from '@/lib/data-access';
 import distance from '@turf/distance';
 import { point } from '@turf/helpers';
 import KDBush from 'kdbush';
 import * as geokdbush from 'geokdbush';
 import tzlookup from '@photostructure/tz-lookup';
 
-// Synoptic API config
-function getSynopticConfig(): { token: string; origin: string } | null {
-  const token = process.env.SYNOPTIC_API_TOKEN;
-  const origin = process.env.SYNOPTIC_ORIGIN;
-
-  if (!token || !origin) {
-    console.error(
-      'Missing Synoptic env vars: SYNOPTIC_API_TOKEN and SYNOPTIC_ORIGIN are required'
-    );
-    return null;
-  }
-
-  return { token, origin };
+// Observing stations around an airport, its own sensor first, then nearest first
+export async function getObservationStations(icao: string): Promise<ObservationStation[]> {
+  const airport = await getAirport(icao);
+  if (!airport) return [];
+  const stations = await loadObservationStations(airport.lat, airport.lon, OBSERVATION_STATION_RADIUS_MILES);
+  return stations ? rankObservationStations(stations, airport) : [];
 }
 
-// Fetch configuration
-const FETCH_TIMEOUT_MS = 5000;
-const MAX_RETRIES = 3;
-
-// Fetch with timeout and retry logic
-async function fetchWithTimeoutAndRetry(
-  url: string,
-  options: RequestInit = {},
-  retries: number = MAX_RETRIES
-): Promise<Response> {
-  let lastError: Error | null = null;
-
-  for (let attempt = 0; attempt < retries; attempt++) {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
-
-    try {
-      const response = await fetch(url, {
-        ...options,
-        signal: controller.signal,
-      });
-      clearTimeout(timeoutId);
-      return response;
-    } catch (error) {
-      clearTimeout(timeoutId);
-      lastError = error instanceof Error ? error : new Error(String(error));
-
-      // Don't retry on abort (timeout) for the last attempt
-      if (attempt < retries - 1) {
-        // Exponential backoff: 500ms, 1000ms, 2000ms
-        await new Promise((resolve) => setTimeout(resolve, 500 * Math.pow(2, attempt)));
-      }
-    }
-  }
+const hasObservations = (series: ObservationSeries | null): series is ObservationSeries =>
+  series !== null && series.observations.length > 0;
 
-  throw lastError || new Error('Fetch failed after retries');
+// Hourly and special METARs for an airport, as an observation series
+async function loadMetarObservations(
+  upperIcao: string,
+  hours: number,
+  forceRefresh: boolean
+): Promise<ObservationSeries | null> {
+  const reports = await loadMetarHistory(upperIcao, hours, { forceRefresh });
+  const observations = metarsToObservations(reports ?? []);
+  return observations.length > 0 ? { stationName: null, observations } : null;
 }
 
-interface SynopticObservations {
-  date_time: string[];
-  wind_speed_set_1?: (number | null)[];
-  wind_direction_set_1?: (number | null)[];
-  wind_gust_set_1?: (number | null)[];
-}
+// Observations for an airport from the chosen station, or automatically from the airport's
+// own sensor and otherwise the nearest nearby station that is reporting. The airport's
+// METAR history stands in for its own sensor when the observation provider has nothing
+// for it (no Synoptic token, or a station Synoptic doesn't carry).
+// `station` is set when the observations come from somewhere other than the airport itself.
+async function loadAirportObservations(
+  upperIcao: string,
+  hours: number,
+  forceRefresh: boolean,
+  stationId: string | null
+): Promise<{ series: ObservationSeries; station: ObservationStation | null; fromMetar?: boolean } | null> {
+  const chosenId = stationId?.toUpperCase() ?? null;
+  if (chosenId === null || chosenId === upperIcao) {
+    const own = await loadStoredObservations(upperIcao, hours, { forceRefresh });
+    if (hasObservations(own)) return { series: own, station: null };
+    const metars = await loadMetarObservations(upperIcao, hours, forceRefresh);
+    if (metars) return { series: metars, station: null, fromMetar: true };
+    if (chosenId !== null) return null;
+  }
 
-interface SynopticStation {
-  STID: string;
-  NAME: string;
-  OBSERVATIONS: SynopticObservations;
-}
+  const stations = (await getObservationStations(upperIcao)).filter((s) => !s.onField);
+  const candidates = chosenId === null
+    ? stations.slice(0, AUTO_STATION_CANDIDATES)
+    : stations.filter((s) => s.id.toUpperCase() === chosenId);
 
-interface SynopticResponse {
-  SUMMARY: { RESPONSE_CODE: number; RESPONSE_MESSAGE: string };
-  STATION?: SynopticStation[];
+  for (const station of candidates) {
+    const series = await loadStoredObservations(station.id, hours, { forceRefresh });
+    if (hasObservations(series)) return { series, station };
+  }
+  return null;
 }
 
-// Fetch wind data from Synoptic API
+// Fetch wind observations from the local store and the configured observation provider
+// (via the data-access cache), or from the airport's METAR history when the provider has
+// nothing. stationId picks a nearby station; null chooses automatically.
 export async function getWindData(
   icao: string,
   hours: number,
-  forceRefresh: boolean = false
+  forceRefresh: boolean = false,
+  stationId: string | null = null
 ): Promise<WindData | null> {
   const upperIcao = icao.toUpperCase();
-  const minutes = Math.min(Math.max(1, hours), 720) * 60;
-  const synopticConfig = getSynopticConfig();
-  if (!synopticConfig) return null;
-
-  const params = new URLSearchParams({
-    STID: upperIcao,
-    showemptystations: '1',
-    units: 'temp|F,speed|kts,english',
-    recent: String(minutes),
-    complete: '1',
-    token: synopticConfig.token,
-    obtimezone: 'local',
-  });
-  const url = `https://api.synopticdata.com/v2/stations/timeseries?${params.toString()}`;
 
   try {
-    const response = await fetchWithTimeoutAndRetry(url, {
-      headers: {
-        'Origin': synopticConfig.origin,
-        'User-Agent': 'WindPlot/1.0',
-      },
-      // Bypass cache when forceRefresh is true (for manual/auto refresh)
-      ...(forceRefresh
-        ? { cache: 'no-store' as const }
-        : { next: { revalidate: 60, tags: [`wind-${upperIcao}`] } }),
-    });
-
-    if (!response.ok) return null;
-
-    const data: SynopticResponse = await response.json();
-    if (data.SUMMARY?.RESPONSE_CODE !== 1 || !data.STATION?.length) return null;
-
-    const station = data.STATION[0];
-    const obs = station.OBSERVATIONS;
-    if (!obs.date_time?.length) return null;
-
-    const observations: WindDataPoint[] = obs.date_time.map((dt, i) => ({
-      time: dt.split('T')[1]?.split(/[-+]/)[0]?.substring(0, 5) || '',
-      timestamp: new Date(dt).getTime() / 1000,
-      wspd: obs.wind_speed_set_1?.[i] ?? null,
-      wgst: obs.wind_gust_set_1?.[i] ?? null,
-      wdir: obs.wind_direction_set_1?.[i] ?? null,
-    }));
+    const source = await loadAirportObservations(upperIcao, hours, forceRefresh, stationId);
+    if (!source) return null;
+    const { series, station, fromMetar = false } = source;
+    const observations = qcObservations(series.observations, fromMetar ? METAR_QC_OPTIONS : {});
 
     const airport = await getAirport(upperIcao);
+    const name = airport?.name || (station ? upperIcao : series.stationName) || upperIcao;
+
+    // Multi-day ranges are downsampled into buckets labelled with local date and time
+    const timezone = airport ? tzlookup(airport.lat, airport.lon) || 'UTC' : 'UTC';
+    const bucketMinutes = getBucketMinutes(hours);
+    if (bucketMinutes > 0) {
+      const latestObservation = [...observations]
+        .reverse()
+        .find((o) => o.wdir !== null && o.wspd !== null && !isSuspect(o)) ?? null;
+      // The runway table averages raw observations, not bucket means
+      const recentSince = (observations[observations.length - 1]?.timestamp ?? 0) -
+        Math.max(...AVERAGING_WINDOWS_MIN) * 60;
+      // Buckets are built from observations that passed QC
+      const passed = observations.filter((o) => !isSuspect(o));
+      return {
+        icao: upperIcao,
+        name,
+        observations: bucketObservations(passed, bucketMinutes, (bucketStart) =>
+          new Date(bucketStart * 1000).toLocaleString('en-US', {
+            month: 'numeric',
+            day: 'numeric',
+            hour: '2-digit',
+            minute: '2-digit',
+            hour12: false,
+            timeZone: timezone,
+          })
+        ),
+        bucketMinutes,
+        latestObservation,
+        recentObservations: observations.filter((o) => o.timestamp > recentSince),
+        ...(station && { station }),
+        ...(fromMetar && { source: 'metar' as const }),
+      };
+    }
+
+    // IEM 1-minute data and METARs are labelled in UTC; show them in the airport's local time
+    const utcLabels = fromMetar || getSelectedProviderId('observations') === iemProvider.id;
+    const formatLocal = new Intl.DateTimeFormat('en-US', {
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+      timeZone: timezone,
+    });
     return {
       icao: upperIcao,
-      name: airport?.name || station.NAME || upperIcao,
-      observations,
+      name,
+      observations: airport && utcLabels
+        ? observations.map((o) => ({ ...o, time: formatLocal.format(new Date(o.timestamp * 1000)) }))
+        : observations,
+      ...(station && { station }),
+      ...(fromMetar && { source: 'metar' as const }),
     };
   } catch (error) {
-    console.error('Synoptic fetch error:', error);
+    console.error('Observation fetch error:', error);
     return null;
   }
 }
@@ -165,6 +208,7 @@ export interface Airport {
   state: string;
   lat: number;
   lon: number;
+  elevation?: number; // Feet MSL (airport data generated before it was recorded lacks it)
   runways: Runway[];
 }
 
@@ -173,6 +217,7 @@ export interface AirportSearchResult {
   name: string;
   city: string;
   state: string;
+  hasForecast?: boolean; // Whether the airport has its own NBM guidance (unset when unknown)
 }
 
 // Favorite airports (quick-select buttons)
@@ -237,35 +282,37 @@ export interface MetarData {
   wgst: number | null;
   rawOb?: string;
   obsTime?: number;
+  variability: WindVariability | null; // VRB and/or dddVddd sector, null when steady
+  decoded: DecodedMetar | null;
+}
+
+// Convert a provider METAR report to MetarData, decoding the raw report
+function toMetarData(report: MetarReport): MetarData {
+  const wdir = typeof report.wdir === 'number' ? report.wdir : null;
+  const decoded = report.rawOb ? parseMetar(report.rawOb) : null;
+  // wdir=0 + wspd=0 means calm; wdir=0 + wspd>0 or wdir="VRB" means variable, no direction
+  const vrb = decoded?.wind?.variable
+    ?? (report.wdir === 'VRB' || (wdir === 0 && (report.wspd ?? 0) > 0));
+  const sectorFrom = decoded?.wind?.variableFrom ?? null;
+  const sectorTo = decoded?.wind?.variableTo ?? null;
+  return {
+    wdir: vrb ? null : wdir,
+    wspd: report.wspd,
+    wgst: report.wgst,
+    rawOb: report.rawOb,
+    obsTime: report.obsTime,
+    variability: vrb || sectorFrom !== null
+      ? { vrb, from: sectorFrom, to: sectorTo }
+      : null,
+    decoded,
+  };
 }
 
 // Fetch latest METAR for an airport
 export async function getMetar(icao: string): Promise<MetarData | null> {
-  const upperIcao = icao.toUpperCase();
-  const url = `https://aviationweather.gov/api/data/metar?ids=${upperIcao}&format=json`;
-
   try {
-    const response = await fetchWithTimeoutAndRetry(url, {
-      headers: {
-        'User-Agent': 'WindPlot/1.0',
-      },
-      cache: 'no-store',
-    });
-
-    if (!response.ok) return null;
-
-    const data = await response.json();
-    if (!Array.isArray(data) || data.length === 0) return null;
-
-    const latest = data[0];
-    return {
-      // wdir=0 + wspd=0 means calm; wdir=0 + wspd>0 means variable (VRB), null out direction
-      wdir: (latest.wdir === 0 && (latest.wspd ?? 0) > 0) ? null : (latest.wdir ?? null),
-      wspd: latest.wspd ?? null,
-      wgst: latest.wgst ?? null,
-      rawOb: latest.rawOb,
-      obsTime: latest.obsTime,
-    };
+    const report = await loadMetar(icao);
+    return report ? toMetarData(report) : null;
   } catch (error) {
     console.error('METAR fetch error:', error);
     return null;
@@ -276,33 +323,12 @@ export async function getMetar(icao: string): Promise<MetarData | null> {
 // Returns a map of ICAO -> MetarData
 export async function getMetarBatch(icaos: string[]): Promise<Record<string, MetarData>> {
   if (icaos.length === 0) return {};
-  const ids = icaos.map((s) => s.toUpperCase()).join(',');
-  const url = `https://aviationweather.gov/api/data/metar?ids=${ids}&format=json`;
 
   try {
-    const response = await fetchWithTimeoutAndRetry(url, {
-      headers: {
-        'User-Agent': 'WindPlot/1.0',
-      },
-      cache: 'no-store',
-    });
-
-    if (!response.ok) return {};
-
-    const data = await response.json();
-    if (!Array.isArray(data)) return {};
-
+    const reports = await loadMetars(icaos);
     const result: Record<string, MetarData> = {};
-    for (const entry of data) {
-      const stationId = (entry.icaoId ?? entry.stationId ?? '').toUpperCase();
-      if (!stationId) continue;
-      result[stationId] = {
-        wdir: (entry.wdir === 0 && (entry.wspd ?? 0) > 0) ? null : (entry.wdir ?? null),
-        wspd: entry.wspd ?? null,
-        wgst: entry.wgst ?? null,
-        rawOb: entry.rawOb,
-        obsTime: entry.obsTime,
-      };
+    for (const report of reports) {
+      result[report.station] = toMetarData(report);
     }
     return result;
   } catch (error) {
@@ -311,63 +337,56 @@ export async function getMetarBatch(icaos: string[]): Promise<Record<string, Met
   }
 }
 
-// Fetch NBM text bulletin from NOMADS
-// productType: 'nbh' for hourly (24h) or 'nbs' for 3-hourly (72h)
-async function fetchNbmBulletin(productType: NbmProductType = 'nbh'): Promise<string | null> {
-  const url = getNbmBulletinUrl(productType);
-  const productFile = productType === 'nbh' ? 'blend_nbhtx' : 'blend_nbstx';
-
-  try {
-    const response = await fetchWithTimeoutAndRetry(url, {
-      headers: {
-        'User-Agent': 'WindPlot/1.0 (aviation weather visualization)',
-      },
-      next: { revalidate: 900 }, // Cache for 15 minutes
-    });
-
-    if (!response.ok) {
-      // Try previous hour (2 hours ago) if current hour not available yet,
-      // adjusting both hour and date in UTC.
-      const now = new Date();
-      const fallbackDate = new Date(now.getTime() - 2 * 60 * 60 * 1000);
-      const prevHour = fallbackDate.getUTCHours();
-      const prevHourStr = prevHour.toString().padStart(2, '0');
-      const year = fallbackDate.getUTCFullYear();
-      const month = (fallbackDate.getUTCMonth() + 1).toString().padStart(2, '0');
-      const day = fallbackDate.getUTCDate().toString().padStart(2, '0');
-      const dateStr = `${year}${month}${day}`;
-      const fallbackUrl = `https://nomads.ncep.noaa.gov/pub/data/nccf/com/blend/prod/blend.${dateStr}/${prevHourStr}/text/${productFile}.t${prevHourStr}z`;
-
-      const fallbackResponse = await fetchWithTimeoutAndRetry(fallbackUrl, {
-        headers: {
-          'User-Agent': 'WindPlot/1.0 (aviation weather visualization)',
-        },
-        next: { revalidate: 900 },
-      });
-
-      if (!fallbackResponse.ok) {
-        console.error('NBM bulletin fetch error:', fallbackResponse.status);
-        return null;
-      }
-
-      return await fallbackResponse.text();
-    }
+// NBM product for each forecast range
+const FORECAST_RANGE_PRODUCTS: Record<ForecastRange, NbmProductType> = {
+  24: 'nbh',
+  72: 'nbs',
+  168: 'nbe',
+};
+
+// Farthest a nearby NBM station may be to stand in for an airport without one
+const NBM_FALLBACK_RADIUS_NM = 50;
+
+// The NBM station to read for an airport: its own, or the nearest airport with guidance
+// (returned as the fallback) when the airport has none. `stations` is a bulletin index's
+// stations or the coverage catalog.
+function resolveNbmStation(
+  upperIcao: string,
+  stations: { has(icao: string): boolean }
+): { icao: string; fallback: ForecastStation | null } | null {
+  if (stations.has(upperIcao)) return { icao: upperIcao, fallback: null };
+
+  const airport = airportsByIcao.get(upperIcao);
+  if (!airport || airport.lat === undefined || airport.lon === undefined) return null;
+
+  const [nearestIdx] = geokdbush.around(
+    spatialIndex,
+    airport.lon,
+    airport.lat,
+    1,
+    NBM_FALLBACK_RADIUS_NM / KM_TO_NM,
+    (idx) => stations.has(airportsWithCoords[idx].icao)
+  );
+  if (nearestIdx === undefined) return null;
 
-    return await response.text();
-  } catch (error) {
-    console.error('NBM bulletin fetch error:', error);
-    return null;
-  }
+  const station = airportsWithCoords[nearestIdx];
+  const distanceKm = distance(point([airport.lon, airport.lat]), point([station.lon, station.lat]), {
+    units: 'kilometers',
+  });
+  return {
+    icao: station.icao,
+    fallback: { icao: station.icao, name: station.name, distance: Math.round(distanceKm * KM_TO_NM) },
+  };
 }
 
 // Fetch NBM forecast from NOAA NBM text bulletins
-// forecastRange: 24 for hourly NBH product, 72 for 3-hourly NBS product
+// forecastRange: 24 for hourly NBH, 72 for 3-hourly NBS, 168 for 12-hourly NBE (~8 days)
 export async function getNbmForecast(
   icao: string,
-  forecastRange: 24 | 72 = 24
+  forecastRange: ForecastRange = 24
 ): Promise<ForecastData | null> {
   const upperIcao = icao.toUpperCase();
-  const productType: NbmProductType = forecastRange === 72 ? 'nbs' : 'nbh';
+  const productType = FORECAST_RANGE_PRODUCTS[forecastRange] ?? 'nbh';
 
   // Get airport info for name and coordinates
   const airport = await getAirport(upperIcao);
@@ -380,20 +399,36 @@ export async function getNbmForecast(
   const timezone = tzlookup(airport.lat, airport.lon) || 'UTC';
 
   try {
-    const bulletinText = await fetchNbmBulletin(productType);
-    if (!bulletinText) {
+    // Bulletin is parsed once per cycle into a station index shared by all requests
+    const nbmIndex = await loadNbmIndex(productType);
+    if (!nbmIndex) {
       console.error('Failed to fetch NBM bulletin');
       return null;
     }
 
-    const nbmData = parseNbmBulletin(bulletinText, upperIcao, productType);
-    if (!nbmData || nbmData.times.length === 0) {
-      console.error('Station not found in NBM bulletin:', upperIcao);
+    const station = resolveNbmStation(upperIcao, nbmIndex.stations);
+    const nbmData = station && nbmIndex.stations.get(station.icao);
+    if (!station || !nbmData || nbmData.times.length === 0) {
+      console.error('No NBM station at or near airport:', upperIcao);
       return null;
     }
 
+    // Keep every issued run so it can be verified against observations later
+    // (under the station it was issued for); written in the background
+    archiveForecastRun(station.icao, {
+      productType,
+      generatedAt: Math.floor(nbmData.baseTime.getTime() / 1000),
+      forecasts: nbmData.times.map((time, i) => ({
+        timestamp: Math.floor(time.getTime() / 1000),
+        wspd: nbmData.wsp[i] ?? null,
+        wgst: nbmData.gst[i] ?? null,
+      })),
+    });
+
     // Convert parsed NBM data to ForecastData format
     const forecasts: ForecastDataPoint[] = [];
+    // NBE has no CIG/VIS rows, so its hours get no flight category
+    const hasCeilingAndVisibility = nbmData.cig.length > 0 && nbmData.vis.length > 0;
     const now = Date.now();
 
     for (let i = 0; i < nbmData.times.length; i++) {
@@ -401,9 +436,9 @@ export async function getNbmForecast(
       // Skip forecasts in the past
       if (forecastTime.getTime() < now - 30 * 60 * 1000) continue;
 
-      // For 72h forecasts, include day info since it spans multiple days
+      // For multi-day forecasts, include day info since they span multiple days
       // Use airport's local timezone for display
-      const timeFormat = forecastRange === 72
+      const timeFormat = forecastRange > 24
         ? forecastTime.toLocaleDateString('en-US', {
             weekday: 'short',
             hour: 'numeric',
@@ -426,6 +461,12 @@ export async function getNbmForecast(
         temp: nbmData.tmp[i] ?? null,
         sky: nbmData.sky[i] ?? null,
         pop: nbmData.pop[i] ?? null,
+        dpt: nbmData.dpt[i] ?? null,
+        ...(hasCeilingAndVisibility && {
+          ...(nbmData.cig[i] !== undefined && { cig: nbmData.cig[i] }),
+          vis: nbmData.vis[i] ?? null,
+          flightCategory: getFlightCategory(nbmData.cig[i], nbmData.vis[i] ?? null),
+        }),
       });
     }
 
@@ -438,6 +479,8 @@ export async function getNbmForecast(
       name: airport.name,
       forecasts,
       generatedAt: Math.floor(nbmData.baseTime.getTime() / 1000),
+      timezone,
+      ...(station.fallback && { forecastStation: station.fallback }),
     };
   } catch (error) {
     console.error('NBM forecast fetch error:', error);
@@ -445,6 +488,225 @@ export async function getNbmForecast(
   }
 }
 
+// Forecast wind for one NBM hour
+export interface NbmWind {
+  timestamp: number;
+  wdir: number | null;
+  wspd: number | null;
+  wgst: number | null;
+}
+
+// Batch NBM forecast winds for multiple airports from the shared bulletin index
+// Returns a map of ICAO -> upcoming forecast hours. Airports without guidance get the
+// nearest NBM station's, as in the forecast view; those with none nearby are left out.
+export async function getNbmWindBatch(
+  icaos: string[],
+  forecastRange: ForecastRange = 24
+): Promise<Record<string, NbmWind[]>> {
+  if (icaos.length === 0) return {};
+  const productType = FORECAST_RANGE_PRODUCTS[forecastRange] ?? 'nbh';
+
+  try {
+    const nbmIndex = await loadNbmIndex(productType);
+    if (!nbmIndex) return {};
+
+    const cutoff = Date.now() - 30 * 60 * 1000;
+    const result: Record<string, NbmWind[]> = {};
+    for (const icao of icaos) {
+      const upperIcao = icao.toUpperCase();
+      const station = resolveNbmStation(upperIcao, nbmIndex.stations);
+      const nbmData = station && nbmIndex.stations.get(station.icao);
+      if (!nbmData) continue;
+      result[upperIcao] = nbmData.times.flatMap((time, i) =>
+        time.getTime() < cutoff
+          ? []
+          : [{
+              timestamp: Math.floor(time.getTime() / 1000),
+              wdir: nbmData.wdr[i] ?? null,
+              wspd: nbmData.wsp[i] ?? null,
+              wgst: nbmData.gst[i] ?? null,
+            }]
+      );
+    }
+    return result;
+  } catch (error) {
+    console.error('NBM batch fetch error:', error);
+    return {};
+  }
+}
+
+// Most earlier NBM runs a client can ask for (each is a full bulletin download)
+const MAX_FORECAST_RUNS = 6;
+
+// Fetch wind and gusts from the NBM cycles before the latest one, newest first,
+// so the client can show how the forecast has trended between runs
+export async function getNbmForecastRuns(
+  icao: string,
+  forecastRange: ForecastRange = 24,
+  runs: number = 3
+): Promise<ForecastRun[] | null> {
+  const upperIcao = icao.toUpperCase();
+  const productType = FORECAST_RANGE_PRODUCTS[forecastRange] ?? 'nbh';
+
+  try {
+    const latest = await loadNbmIndex(productType);
+    if (!latest?.cycle) {
+      console.error('Failed to fetch NBM bulletin');
+      return null;
+    }
+
+    // Same station as the latest forecast, including the nearby fallback
+    const station = resolveNbmStation(upperIcao, latest.stations);
+    if (!station) return [];
+
+    const cycles = getPreviousNbmCycles(productType, latest.cycle, Math.min(Math.max(runs, 0), MAX_FORECAST_RUNS));
+    const indexes = await Promise.all(cycles.map((cycle) => loadNbmRunIndex(productType, cycle)));
+
+    // Runs that are missing upstream or lack the station are skipped
+    const result: ForecastRun[] = [];
+    for (const index of indexes) {
+      const nbmData = index?.stations.get(station.icao);
+      if (!nbmData) continue;
+      result.push({
+        generatedAt: Math.floor(nbmData.baseTime.getTime() / 1000),
+        forecasts: nbmData.times.map((time, i) => ({
+          timestamp: Math.floor(time.getTime() / 1000),
+          wspd: nbmData.wsp[i] ?? null,
+          wgst: nbmData.gst[i] ?? null,
+        })),
+      });
+    }
+    return result;
+  } catch (error) {
+    console.error('NBM forecast runs fetch error:', error);
+    return null;
+  }
+}
+
+// Longest observation window fetched for verification (30 days)
+const MAX_VERIFICATION_HOURS = 720;
+
+// Score archived NBM forecasts for an airport against observed winds. Runs are archived
+// under the NBM station that was read, so airports without guidance use their fallback's.
+export async function getForecastVerification(icao: string): Promise<ForecastVerification | null> {
+  const upperIcao = icao.toUpperCase();
+  const coverage = await loadNbmCoverage();
+  const station = coverage.products.length > 0 ? resolveNbmStation(upperIcao, coverage.stations) : null;
+  const runs = await readForecastArchive(station?.icao ?? upperIcao);
+  if (runs.length === 0) return null;
+
+  // Observations back to the earliest archived forecast hour that has already passed
+  const nowSec = Date.now() / 1000;
+  const earliest = Math.min(...runs.flatMap((r) => r.forecasts.map((f) => f.timestamp)));
+  if (earliest >= nowSec) return null;
+  const hours = Math.min(Math.ceil((nowSec - earliest) / 3600) + 1, MAX_VERIFICATION_HOURS);
+
+  try {
+    const series = await loadStoredObservations(upperIcao, hours);
+    if (!series) return null;
+
+    const pairs = pairForecastsWithObservations(runs, series.observations);
+    const timestamps = pairs.map((p) => p.timestamp);
+    return {
+      icao: upperIcao,
+      runs: runs.length,
+      pairs: pairs.length,
+      from: timestamps.length ? Math.min(...timestamps) : null,
+      to: timestamps.length ? Math.max(...timestamps) : null,
+      ...scoreByLeadTime(pairs),
+    };
+  } catch (error) {
+    console.error('Forecast verification error:', error);
+    return null;
+  }
+}
+
+// Observations fetched upstream for climatology; longer history comes from the observation store
+const CLIMATOLOGY_FETCH_HOURS = 720;
+
+// Wind roses, runway crosswind exceedance and gust-by-hour profiles from every stored
+// observation (or the last 30 days from the provider when the store is disabled)
+export async function getWindClimatology(
+  icao: string,
+  headingReference: HeadingReference = 'true'
+): Promise<(WindClimatology & { icao: string }) | null> {
+  const upperIcao = icao.toUpperCase();
+  const airport = await getAirport(upperIcao);
+  if (!airport) return null;
+
+  try {
+    const recent = await loadStoredObservations(upperIcao, CLIMATOLOGY_FETCH_HOURS);
+    const history = readObservations(upperIcao, 0);
+    // Statistics are built from observations that passed QC
+    const observations = qcObservations(history.length > 0 ? history : recent?.observations ?? [])
+      .filter((o) => !isSuspect(o));
+    if (observations.length === 0) return null;
+
+    const timezone = tzlookup(airport.lat, airport.lon) || 'UTC';
+    const declination = headingReference === 'magnetic'
+      ? getMagneticDeclination(airport.lat, airport.lon)
+      : 0;
+    // Roses in the display reference; runway crosswinds from true directions and headings
+    return {
+      icao: upperIcao,
+      ...buildWindClimatology(
+        convertWindDirections(observations, declination, headingReference),
+        airport.runways,
+        timezone,
+        observations.map((o) => o.wdir)
+      ),
+    };
+  } catch (error) {
+    console.error('Climatology error:', error);
+    return null;
+  }
+}
+
+// Fetch and decode the latest TAF for an airport into an hourly wind series
+export async function getTafForecast(icao: string): Promise<TafData | null> {
+  const upperIcao = icao.toUpperCase();
+  const airport = await getAirport(upperIcao);
+  const timezone = airport ? tzlookup(airport.lat, airport.lon) || 'UTC' : 'UTC';
+
+  try {
+    const rawTaf = await loadTaf(upperIcao);
+    if (!rawTaf) return null;
+
+    const taf = parseTaf(rawTaf);
+    if (!taf) {
+      console.error('Failed to parse TAF:', upperIcao);
+      return null;
+    }
+
+    const forecasts: TafForecastPoint[] = tafToHourlySeries(taf).map((p) => ({
+      time: new Date(p.timestamp * 1000).toLocaleTimeString('en-US', {
+        hour: 'numeric',
+        minute: '2-digit',
+        hour12: true,
+        timeZone: timezone,
+      }),
+      timestamp: p.timestamp,
+      wspd: p.wspd,
+      wgst: p.wgst,
+      wdir: p.wdir,
+      conditional: p.conditional,
+      windShear: p.windShear,
+    }));
+
+    return {
+      icao: upperIcao,
+      rawTaf: taf.raw,
+      issueTime: taf.issueTime ? Math.floor(taf.issueTime.getTime() / 1000) : null,
+      validFrom: Math.floor(taf.validFrom.getTime() / 1000),
+      validTo: Math.floor(taf.validTo.getTime() / 1000),
+      forecasts,
+    };
+  } catch (error) {
+    console.error('TAF decode error:', error);
+    return null;
+  }
+}
+
 // Search airports by ICAO or name (returns minimal data)
 export async function searchAirports(
   query: string,
@@ -455,15 +717,19 @@ export async function searchAirports(
   const q = query.toUpperCase();
   const results: AirportSearchResult[] = [];
   const seen = new Set<string>();
+  // Never wait on bulletin downloads while typing; the flag is left off until coverage is ready
+  const coverage = peekNbmCoverage();
 
   const addResult = (airport: Airport) => {
     if (seen.has(airport.icao)) return;
     seen.add(airport.icao);
+    const hasForecast = coverage ? hasNbmCoverage(coverage, airport.icao) : null;
     results.push({
       icao: airport.icao,
       name: airport.name,
       city: airport.city,
       state: airport.state,
+      ...(hasForecast !== null && { hasForecast }),
     });
   };
 
@@ -514,12 +780,13 @@ export interface AirportFullData {
 export async function getAirportFullData(
   icao: string,
   hours: number,
-  forceRefresh: boolean = false
+  forceRefresh: boolean = false,
+  stationId: string | null = null
 ): Promise<AirportFullData> {
   const upperIcao = icao.toUpperCase();
   const [airport, windData, metar] = await Promise.all([
     getAirport(upperIcao),
-    getWindData(upperIcao, hours, forceRefresh),
+    getWindData(upperIcao, hours, forceRefresh, stationId),
     getMetar(upperIcao),
   ]);
 
@@ -550,6 +817,8 @@ export interface NearbyAirport {
   name: string;
   city: string;
   state: string;
+  lat: number;
+  lon: number;
   distance: number; // in nautical miles
 }
 
@@ -607,6 +876,8 @@ export async function getNearbyAirports(
         name: airport.name,
         city: airport.city,
         state: airport.state,
+        lat: airport.lat,
+        lon: airport.lon,
         distance: Math.round(distanceNm * 10) / 10,
       });
     }
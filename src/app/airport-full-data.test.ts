@@ -0,0 +1,62 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { getAirportFullData } from './actions';
+
+// Replays recorded upstream responses from src/test/fixtures/upstream,
+// so no network access or Synoptic token is needed
+describe('getAirportFullData (replay)', () => {
+  beforeEach(() => {
+    vi.stubEnv('WEATHER_FIXTURES', 'replay');
+    vi.stubEnv('WEATHER_FIXTURES_DIR', 'src/test/fixtures/upstream');
+    vi.stubEnv('SYNOPTIC_API_TOKEN', '');
+    vi.stubEnv('SYNOPTIC_ORIGIN', '');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('combines airport, observations and METAR', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch');
+    const data = await getAirportFullData('kfrg', 6);
+
+    expect(fetchSpy).not.toHaveBeenCalled();
+    expect(data.icao).toBe('KFRG');
+    expect(data.airport?.runways.length).toBeGreaterThan(0);
+
+    expect(data.windData?.name).toBe(data.airport?.name);
+    expect(data.windData?.observations).toHaveLength(6);
+    expect(data.windData?.observations[0]).toMatchObject({ time: '08:35', wspd: 9, wdir: 210 });
+    expect(data.windData?.observations[0]).toMatchObject({ temp: 54, dewpoint: 45.1, altimeter: 30.12, ceiling: null });
+    expect(data.windData?.observations[5]).toMatchObject({ pressureTendency: -0.9, visibility: 10, ceiling: 4500 });
+    expect(data.windData?.observations[4].qc).toEqual(['provider']);
+    expect(data.windData?.observations[0].qc).toBeUndefined();
+    expect(data.windData?.bucketMinutes).toBeUndefined();
+
+    expect(data.metar).toMatchObject({ wdir: 210, wspd: 11, wgst: 17 });
+    expect(data.metar?.variability).toEqual({ vrb: false, from: 180, to: 240 });
+    expect(data.metar?.decoded?.visibility).toMatchObject({ miles: 10 });
+  });
+
+  it('falls back to METAR history for stations without observations', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const data = await getAirportFullData('KCDW', 6);
+
+    expect(data.windData?.source).toBe('metar');
+    expect(data.windData?.station).toBeUndefined();
+    expect(data.windData?.observations.map((o) => o.time)).toEqual(['06:53', '07:53', '08:20', '08:53']);
+    expect(data.windData?.observations[0]).toMatchObject({ wspd: 8, wdir: 210, temp: 51.8, ceiling: null });
+    expect(data.windData?.observations[2]).toMatchObject({ wspd: 5, wdir: null, visibility: 4, ceiling: 1200 });
+    expect(data.windData?.observations[3]).toMatchObject({ wspd: 14, wgst: 22, altimeter: 30.1 });
+    expect(data.windData?.observations.some((o) => o.qc)).toBe(false);
+  });
+
+  it('treats responses that were never recorded as missing data', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const data = await getAirportFullData('KTEB', 6);
+
+    expect(data.airport?.icao).toBe('KTEB');
+    expect(data.windData).toBeNull();
+    expect(data.metar).toBeNull();
+  });
+});
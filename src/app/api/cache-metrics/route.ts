@@ -0,0 +1,11 @@
+import { NextResponse } from 'next/server';
+import { getCacheMetrics, getNbmIndexStats } from '@/lib/data-access';
+
+// Upstream data cache hit/miss counters and NBM index parse stats for this server instance
+export const dynamic = 'force-dynamic';
+
+export function GET() {
+  return NextResponse.json({ caches: getCacheMetrics(), nbmIndexes: getNbmIndexStats() }, {
+    headers: { 'Cache-Control': 'no-store' },
+  });
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { isObservationStoreEnabled } from '@/lib/observation-store';
+import { getIngestAirports, ingestObservations } from '@/lib/observation-ingest';
+
+// Cron-triggered ingestion of observations and METARs into the observation store.
+// Requests must send "Authorization: Bearer <CRON_SECRET>"; without a configured secret
+// the route is disabled.
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return NextResponse.json({ error: 'CRON_SECRET is not configured' }, { status: 503 });
+  }
+  if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!isObservationStoreEnabled()) {
+    return NextResponse.json({ error: 'Observation store is not enabled' }, { status: 503 });
+  }
+
+  const stations = await ingestObservations(getIngestAirports());
+  return NextResponse.json({ stations }, {
+    headers: { 'Cache-Control': 'no-store' },
+  });
+}
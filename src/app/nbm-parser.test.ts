@@ -1,5 +1,12 @@
 import { describe, it, expect } from 'vitest';
-import { parseNbmBulletin } from '@/lib/nbm-parser';
+import {
+  parseNbmBulletin,
+  indexNbmBulletin,
+  getNbmBulletinCycle,
+  getNbmCycle,
+  pickNbmElement,
+} from '@/lib/nbm-parser';
+import { getNbmElementSpec } from '@/lib/nbm-elements';
 import * as fs from 'fs';
 
 // Real NBM bulletin format (as of 2026)
@@ -235,6 +242,14 @@ describe('parseNbmBulletin', () => {
       // First value: 888 -> null (unlimited)
       expect(result!.cig[0]).toBeNull();
     });
+
+    it('keeps a missing ceiling (-99) apart from unlimited', () => {
+      const result = parseNbmBulletin(SAMPLE_BULLETIN.replace('CIG 888 200', 'CIG 888 -99'), 'KFRG');
+
+      expect(result!.cig[0]).toBeNull();
+      expect(result!.cig[1]).toBeUndefined();
+      expect(result!.cig[2]).toBe(18000);
+    });
   });
 
   describe('visibility (VIS) parsing', () => {
@@ -402,6 +417,96 @@ describe('parseNbmBulletin with real NBM V4.3 format', () => {
   });
 });
 
+// NBE (extended) bulletin: 12-hourly columns grouped by day with '|' separators
+const NBE_BULLETIN = `
+ KFRG    NBM V4.3 NBE GUIDANCE    2/05/2026  0000 UTC
+ DAY/FEB  5|FEB  6      |FEB  7      |FEB  8      |FEB  9
+ UTC     12|   00    12|   00    12|   00    12|   00    12
+ FHR     12|   24    36|   48    60|   72    84|   96   108
+ TXN     38|   27    41|   30    44|   33    40|   29    36
+ TMP     35|   29    39|   32    42|   35    38|   31    34
+ DPT     22|   21    25|   27    33|   30    28|   20    18
+ SKY     40|   65    80|   95   100|   70    35|   20    15
+ WDR     31|   32    20|   19    22|   27    29|   31    32
+ WSP      9|    6     8|   12    15|   13    11|    7     6
+ GST     17|   12    15|   21    26|   22    19|   13    11
+ P12      5|   10    40|   70    80|   30    10|    5     0
+ Q12      0|    0     0|    5    15|    0     0|    0     0
+`;
+
+describe('parseNbmBulletin with NBE format', () => {
+  it('uses forecast hours relative to the base time', () => {
+    const result = parseNbmBulletin(NBE_BULLETIN, 'KFRG', 'nbe');
+    expect(result).not.toBeNull();
+    expect(result!.times).toHaveLength(9);
+    expect(result!.times[0].toISOString()).toBe('2026-02-05T12:00:00.000Z');
+    expect(result!.times[8].toISOString()).toBe('2026-02-09T12:00:00.000Z');
+  });
+
+  it('reads rows across day separators', () => {
+    const result = parseNbmBulletin(NBE_BULLETIN, 'KFRG', 'nbe')!;
+    expect(result.wdr).toEqual([310, 320, 200, 190, 220, 270, 290, 310, 320]);
+    expect(result.wsp).toEqual([9, 6, 8, 12, 15, 13, 11, 7, 6]);
+    expect(result.gst[4]).toBe(26);
+    expect(result.tmp[0]).toBe(35);
+  });
+
+  it('uses P12 as the precipitation probability', () => {
+    const result = parseNbmBulletin(NBE_BULLETIN, 'KFRG', 'nbe')!;
+    expect(result.pop).toEqual([5, 10, 40, 70, 80, 30, 10, 5, 0]);
+  });
+
+  it('is only found when parsing the NBE product', () => {
+    expect(parseNbmBulletin(NBE_BULLETIN, 'KFRG', 'nbh')).toBeNull();
+    expect(indexNbmBulletin(NBE_BULLETIN, 'nbe').stations.has('KFRG')).toBe(true);
+  });
+});
+
+describe('getNbmCycle', () => {
+  const now = new Date('2026-02-05T00:30:00Z');
+
+  it('uses the previous hour for hourly products, across midnight', () => {
+    expect(getNbmCycle('nbh', now).toISOString()).toBe('2026-02-04T23:00:00.000Z');
+    expect(getNbmCycle('nbs', now, 1).toISOString()).toBe('2026-02-04T22:00:00.000Z');
+  });
+
+  it('uses 6-hourly cycles for NBE', () => {
+    expect(getNbmCycle('nbe', new Date('2026-02-05T13:10:00Z')).toISOString()).toBe('2026-02-05T12:00:00.000Z');
+    expect(getNbmCycle('nbe', new Date('2026-02-05T12:30:00Z')).toISOString()).toBe('2026-02-05T06:00:00.000Z');
+    expect(getNbmCycle('nbe', now, 1).toISOString()).toBe('2026-02-04T12:00:00.000Z');
+  });
+});
+
+describe('indexNbmBulletin', () => {
+  it('indexes every station in one pass', () => {
+    const index = indexNbmBulletin(REAL_FORMAT_BULLETIN, 'nbh');
+    expect([...index.stations.keys()]).toEqual(['KFRG', 'KJFK']);
+    expect(index.cycle?.toISOString()).toBe('2026-02-05T00:00:00.000Z');
+    expect(index.parseMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('matches per-station parsing', () => {
+    for (const bulletin of [SAMPLE_BULLETIN, REAL_FORMAT_BULLETIN, BULLETIN_WITH_NG]) {
+      const index = indexNbmBulletin(bulletin, 'nbh');
+      for (const [station, parsed] of index.stations) {
+        expect(parsed).toEqual(parseNbmBulletin(bulletin, station));
+      }
+    }
+  });
+
+  it('ignores stations from other products and empty text', () => {
+    expect(indexNbmBulletin(REAL_FORMAT_BULLETIN, 'nbs').stations.size).toBe(0);
+    expect(indexNbmBulletin('', 'nbh').cycle).toBeNull();
+  });
+});
+
+describe('getNbmBulletinCycle', () => {
+  it('reads the issuance time from the first header', () => {
+    expect(getNbmBulletinCycle(SAMPLE_BULLETIN)?.toISOString()).toBe('2026-02-05T07:00:00.000Z');
+    expect(getNbmBulletinCycle('no header')).toBeNull();
+  });
+});
+
 // Integration test with real bulletin file (if available)
 describe('parseNbmBulletin integration test', () => {
   // This tests with actual downloaded bulletin data
@@ -441,3 +546,72 @@ describe('parseNbmBulletin integration test', () => {
     expect(result!.times.length).toBe(25);
   });
 });
+
+// NBS rows with 6-hourly and 12-hourly elements between 3-hourly columns
+const NBS_BULLETIN = `
+ KFRG    NBM V4.3 NBS GUIDANCE    2/05/2026  0000 UTC
+ DT /FEB  5                /FEB  6
+ UTC  06 09 12 15 18 21 00 03 06
+ FHR  06 09 12 15 18 21 24 27 30
+ TXN        33                41
+ TMP  30 29 28 31 36 39 37 34 32
+ WDR  31 32 32 33 34 34 35 35 36
+ WSP   8  7  6  9 12 14 11  9  8
+ GST  14 13 12 16 20 23 18 15 14
+ P06  10    20    40    30    10
+ Q06   0     5    12     3     0
+ T03   0  1  2  8 14 21  9  3  1
+ PZR   0  0  0  0  0  0  0  0  0
+ PSN  80 75 70 40 20 10 30 60 70
+ PRA  20 25 30 60 80 90 70 40 30
+ S06   5    10     2     0     3
+ LCB  12 15 20 25 30888-88 45 50
+ SKY 100100 95 90 85 80 75 70 65
+ ZZZ   1  2  3  4  5  6  7  8  9
+`;
+
+describe('parseNbmBulletin element schema', () => {
+  it('decodes every recognised row in its units', () => {
+    const result = parseNbmBulletin(NBS_BULLETIN, 'KFRG', 'nbs')!;
+    expect(result.elements.T03).toEqual([0, 1, 2, 8, 14, 21, 9, 3, 1]);
+    expect(result.elements.PSN[0]).toBe(80);
+    expect(result.elements.PRA[5]).toBe(90);
+    expect(result.elements.Q06).toEqual([0, null, 0.05, null, 0.12, null, 0.03, null, 0]);
+    expect(result.elements.S06).toEqual([0.5, null, 1, null, 0.2, null, 0, null, 0.3]);
+  });
+
+  it('keeps sparse rows aligned with their columns', () => {
+    const result = parseNbmBulletin(NBS_BULLETIN, 'KFRG', 'nbs')!;
+    expect(result.elements.TXN).toEqual([null, null, 33, null, null, null, null, null, 41]);
+    expect(result.pop).toEqual([10, null, 20, null, 40, null, 30, null, 10]);
+    expect(result.pop).toHaveLength(result.times.length);
+  });
+
+  it('applies sentinels and splits fields that run together', () => {
+    const result = parseNbmBulletin(NBS_BULLETIN, 'KFRG', 'nbs')!;
+    expect(result.elements.LCB).toEqual([1200, 1500, 2000, 2500, 3000, null, null, 4500, 5000]);
+    expect(result.sky).toEqual([100, 100, 95, 90, 85, 80, 75, 70, 65]);
+  });
+
+  it('keeps unknown rows raw', () => {
+    const result = parseNbmBulletin(NBS_BULLETIN, 'KFRG', 'nbs')!;
+    expect(result.elements.ZZZ).toBeUndefined();
+    expect(result.rawRows.ZZZ).toEqual(['1', '2', '3', '4', '5', '6', '7', '8', '9']);
+  });
+
+  it('exposes the legacy fields from the same rows', () => {
+    const result = parseNbmBulletin(REAL_FORMAT_BULLETIN, 'KFRG')!;
+    expect(result.wdr).toEqual(result.elements.WDR);
+    expect(result.elements.TSD).toHaveLength(25);
+    expect(result.elements.P06.filter((v) => v !== null)).toEqual([0, 0, 0, 0]);
+    expect(result.elements.P06).toHaveLength(25);
+    expect(getNbmElementSpec('CIG')).toMatchObject({ units: 'ft', factor: 100, fixedWidth: true });
+  });
+});
+
+describe('pickNbmElement', () => {
+  it('returns the first non-empty alternative', () => {
+    expect(pickNbmElement({ T03: [5], T12: [9] }, ['T01', 'T03', 'T12'])).toEqual([5]);
+    expect(pickNbmElement({ T01: [] }, ['T01'])).toEqual([]);
+  });
+});
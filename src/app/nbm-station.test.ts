@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getForecastVerification, getNbmForecast, getNbmWindBatch, searchAirports } from './actions';
+import { loadNbmCoverage, resetDataCache } from '@/lib/data-access';
+import { resetForecastArchiveState } from '@/lib/forecast-archive';
+import { registerProvider, unregisterProvider } from '@/lib/providers';
+
+// Bulletins that only carry KFRG, so other airports need the nearby-station fallback
+const bulletin = (product: string) => `
+KFRG   NBM V4.3 ${product} GUIDANCE    2/06/2026  0000 UTC
+ UTC  01 02 03
+ WDR  27 28 29
+ WSP  10 12 14
+ GST  15 18 20
+`;
+
+const hour = (h: number) => Date.UTC(2026, 1, 6, h) / 1000;
+
+beforeEach(() => {
+  resetDataCache();
+  resetForecastArchiveState();
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date('2026-02-06T00:30:00Z'));
+  vi.stubEnv('FORECAST_ARCHIVE_DIR', fs.mkdtempSync(path.join(os.tmpdir(), 'windplot-archive-')));
+  registerProvider({
+    id: 'test-nbm',
+    name: 'Test NBM',
+    forecast: {
+      getNbmBulletin: async (productType) => bulletin(productType.toUpperCase()),
+      getNbmCycleBulletin: async () => null,
+    },
+    observations: {
+      getObservations: async () => ({
+        stationName: null,
+        observations: [1, 2, 3].map((h) => ({ time: '', timestamp: hour(h), wspd: 11, wgst: null, wdir: 280 })),
+      }),
+    },
+  });
+  vi.stubEnv('WEATHER_FORECAST_PROVIDER', 'test-nbm');
+  vi.stubEnv('WEATHER_OBSERVATION_PROVIDER', 'test-nbm');
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+  unregisterProvider('test-nbm');
+});
+
+describe('NBM station resolution', () => {
+  it("reads an airport's own station", async () => {
+    const forecast = await getNbmForecast('KFRG', 24);
+    expect(forecast?.forecasts[0]).toMatchObject({ wspd: 10, wdir: 270 });
+    expect(forecast?.forecastStation).toBeUndefined();
+  });
+
+  it('falls back to the nearest station within 50nm', async () => {
+    const forecast = await getNbmForecast('KISP', 24);
+    expect(forecast?.name).toBe('LONG ISLAND MAC ARTHUR');
+    expect(forecast?.forecastStation).toEqual({ icao: 'KFRG', name: 'REPUBLIC', distance: 15 });
+    expect(forecast?.forecasts[0]).toMatchObject({ wspd: 10, wdir: 270 });
+  });
+
+  it('has no forecast without a station inside 50nm', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(await getNbmForecast('KLAX', 24)).toBeNull();
+    vi.restoreAllMocks();
+  });
+});
+
+describe('searchAirports', () => {
+  it('returns results without waiting for NBM coverage', async () => {
+    expect((await searchAirports('KISP'))[0]).not.toHaveProperty('hasForecast');
+
+    await loadNbmCoverage();
+    expect((await searchAirports('KISP'))[0]).toMatchObject({ icao: 'KISP', hasForecast: false });
+    expect((await searchAirports('KFRG'))[0]).toMatchObject({ icao: 'KFRG', hasForecast: true });
+  });
+});
+
+describe('getNbmWindBatch', () => {
+  it('gives airports without guidance the nearby station winds', async () => {
+    const winds = await getNbmWindBatch(['KFRG', 'KISP', 'KLAX'], 24);
+    expect(Object.keys(winds)).toEqual(['KFRG', 'KISP']);
+    expect(winds.KISP).toEqual(winds.KFRG);
+    expect(winds.KISP[0]).toMatchObject({ wdir: 270, wspd: 10, wgst: 15 });
+  });
+});
+
+describe('getForecastVerification', () => {
+  it('scores an airport that reads a nearby NBM station', async () => {
+    const forecast = await getNbmForecast('KISP', 24);
+    expect(forecast?.forecastStation?.icao).toBe('KFRG');
+
+    vi.setSystemTime(new Date('2026-02-06T04:00:00Z'));
+    const verification = await getForecastVerification('kisp');
+    expect(verification).toMatchObject({ icao: 'KISP', runs: 1, pairs: 3 });
+  });
+});
@@ -38,6 +38,8 @@ describe('getNearbyAirports', () => {
       expect(first).toHaveProperty('state');
       expect(first).toHaveProperty('distance');
       expect(typeof first.icao).toBe('string');
+      expect(typeof first.lat).toBe('number');
+      expect(typeof first.lon).toBe('number');
       expect(typeof first.distance).toBe('number');
     });
   });
@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getObservationStations, getWindClimatology, getWindData } from './actions';
+import { resetDataCache } from '@/lib/data-access';
+import { registerProvider, unregisterProvider, ObservationStationInfo } from '@/lib/providers';
+
+const nowSec = Math.floor(Date.now() / 1000);
+const series = (name: string) => ({
+  stationName: name,
+  observations: [{ time: '12:00', timestamp: nowSec - 300, wspd: 8, wgst: null, wdir: 200 }],
+});
+
+const stations: ObservationStationInfo[] = [
+  { id: 'FAR01', name: 'Far Mesonet', lat: 40.8, lon: -73.42, elevation: 150, network: 'Mesonet' },
+  { id: 'NEAR1', name: 'Near Mesonet', lat: 40.74, lon: -73.41, elevation: 60, network: 'Mesonet' },
+  { id: 'KFRG', name: 'Republic', lat: 40.7288, lon: -73.4134, elevation: 80, network: 'ASOS/AWOS' },
+];
+
+// Only the listed stations report; METAR history exists for `withMetars`
+function registerStations(reporting: string[], withMetars: string[] = []) {
+  registerProvider({
+    id: 'test-stations',
+    name: 'Test stations',
+    observations: {
+      getObservations: async (id) => (reporting.includes(id) ? series(id) : null),
+      findStations: async () => stations,
+    },
+    metar: {
+      getMetars: async () => [],
+      getMetarHistory: async (id) =>
+        withMetars.includes(id)
+          ? [{ station: id, wdir: 250, wspd: 12, wgst: null, obsTime: nowSec - 600, rawOb: `METAR ${id} 25012KT` }]
+          : [],
+      getTaf: async () => null,
+    },
+  });
+  vi.stubEnv('WEATHER_OBSERVATION_PROVIDER', 'test-stations');
+  vi.stubEnv('WEATHER_METAR_PROVIDER', 'test-stations');
+}
+
+beforeEach(() => {
+  resetDataCache();
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  unregisterProvider('test-stations');
+});
+
+describe('getObservationStations', () => {
+  it('ranks stations around the airport, its own sensor first', async () => {
+    registerStations([]);
+    const ranked = await getObservationStations('kfrg');
+    expect(ranked.map((s) => s.id)).toEqual(['KFRG', 'NEAR1', 'FAR01']);
+    expect(ranked[0].onField).toBe(true);
+  });
+});
+
+describe('getWindData station selection', () => {
+  it('uses the airport sensor when it reports', async () => {
+    registerStations(['KFRG', 'NEAR1']);
+    const data = await getWindData('KFRG', 1);
+    expect(data?.observations).toMatchObject([{ time: '12:00' }]);
+    expect(data?.station).toBeUndefined();
+  });
+
+  it('falls back to the nearest reporting station and discloses it', async () => {
+    registerStations(['FAR01']);
+    const data = await getWindData('KFRG', 1);
+    expect(data?.icao).toBe('KFRG');
+    expect(data?.station).toMatchObject({ id: 'FAR01', onField: false, elevationDiff: 70 });
+  });
+
+  it("prefers the airport's METAR history to a nearby station", async () => {
+    registerStations(['NEAR1'], ['KFRG']);
+    const data = await getWindData('KFRG', 1);
+    expect(data?.source).toBe('metar');
+    expect(data?.station).toBeUndefined();
+    expect(data?.observations).toMatchObject([{ wspd: 12, wdir: 250 }]);
+  });
+
+  it('reads a chosen station', async () => {
+    registerStations(['KFRG', 'NEAR1']);
+    const data = await getWindData('KFRG', 1, false, 'near1');
+    expect(data?.station).toMatchObject({ id: 'NEAR1', name: 'Near Mesonet' });
+    expect(await getWindData('KFRG', 1, false, 'UNLISTED')).toBeNull();
+  });
+});
+
+describe('getWindData aggregation', () => {
+  it('keeps the raw observations of the longest averaging window next to the buckets', async () => {
+    const observations = Array.from({ length: 24 }, (_, i) => ({
+      time: '',
+      timestamp: nowSec - (23 - i) * 300,
+      wspd: 8 + (i % 3),
+      wgst: null,
+      wdir: 200,
+    }));
+    registerProvider({
+      id: 'test-stations',
+      name: 'Test stations',
+      observations: { getObservations: async () => ({ stationName: 'Republic', observations }) },
+    });
+    vi.stubEnv('WEATHER_OBSERVATION_PROVIDER', 'test-stations');
+
+    const data = await getWindData('KFRG', 72);
+    expect(data?.bucketMinutes).toBe(15);
+    expect(data?.recentObservations?.map((o) => o.timestamp)).toEqual(observations.slice(-6).map((o) => o.timestamp));
+  });
+});
+
+describe('getWindData time labels', () => {
+  it("shows IEM 1-minute times in the airport's local time", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'windplot-iem-'));
+    fs.writeFileSync(
+      path.join(dir, 'FRG_202610.csv'),
+      'station,station_name,valid(UTC),sknt,drct,gust_sknt\nFRG,FARMINGDALE,2026-10-19 12:00,11,200,M\n'
+    );
+    vi.stubEnv('IEM_1MIN_DIR', dir);
+    vi.stubEnv('WEATHER_OBSERVATION_PROVIDER', 'iem1min');
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.UTC(2026, 9, 19, 12, 30));
+
+    const data = await getWindData('KFRG', 1);
+    vi.useRealTimers();
+    expect(data?.observations).toMatchObject([{ time: '08:00', wspd: 11 }]);
+  });
+});
+
+describe('getWindClimatology', () => {
+  it('leaves observations that fail QC out of the statistics', async () => {
+    const speeds = [8, 9, 40, 9, 8];
+    const observations = speeds.map((wspd, i) => ({
+      time: '',
+      timestamp: nowSec - (speeds.length - i) * 300,
+      wspd,
+      wgst: null,
+      wdir: 200,
+    }));
+    registerProvider({
+      id: 'test-stations',
+      name: 'Test stations',
+      observations: { getObservations: async () => ({ stationName: 'Republic', observations }) },
+    });
+    vi.stubEnv('WEATHER_OBSERVATION_PROVIDER', 'test-stations');
+
+    const climatology = await getWindClimatology('KFRG');
+    expect(climatology?.count).toBe(4);
+    expect(climatology?.gustProfile.reduce((sum, hour) => sum + hour.count, 0)).toBe(4);
+  });
+});
@@ -2,6 +2,7 @@
 
 import { useState, useRef, useEffect, useCallback, useTransition } from 'react';
 import { searchAirports, AirportSearchResult, Airport } from '@/app/actions';
+import { formatObservationRange, ForecastRange, WindPlotViewMode } from '@/lib/windplot-route';
 
 interface AirportSelectorProps {
   selectedIcao: string;
@@ -10,13 +11,13 @@ interface AirportSelectorProps {
   onSelect: (icao: string) => void;
   hours: number;
   onHoursChange: (hours: number) => void;
-  viewMode: 'observations' | 'forecast';
-  forecastRange: 24 | 72;
+  viewMode: WindPlotViewMode;
+  forecastRange: ForecastRange;
   forecastHoursLimit: number;
   onForecastHoursLimitChange: (hours: number) => void;
 }
 
-const OBS_HOUR_OPTIONS = [1, 2, 4, 6, 12, 24];
+const OBS_HOUR_OPTIONS = [1, 2, 4, 6, 12, 24, 72, 168, 720];
 const FORECAST_24_OPTIONS = [
   { value: 4, label: '4h' },
   { value: 8, label: '8h' },
@@ -29,6 +30,17 @@ const FORECAST_72_OPTIONS = [
   { value: 48, label: '2d' },
   { value: 72, label: '3d' },
 ];
+const FORECAST_168_OPTIONS = [
+  { value: 48, label: '2d' },
+  { value: 72, label: '3d' },
+  { value: 120, label: '5d' },
+  { value: 168, label: '7d' },
+];
+const FORECAST_LIMIT_OPTIONS: Record<ForecastRange, { value: number; label: string }[]> = {
+  24: FORECAST_24_OPTIONS,
+  72: FORECAST_72_OPTIONS,
+  168: FORECAST_168_OPTIONS,
+};
 
 export default function AirportSelector({
   selectedIcao,
@@ -151,15 +163,15 @@ export default function AirportSelector({
           ))}
         </div>
 
-        {/* Hours / forecast limit selector */}
-        {viewMode === 'observations' ? (
+        {/* Hours / forecast limit selector (climatology uses all history) */}
+        {viewMode === 'climatology' ? null : viewMode !== 'forecast' ? (
           <select
             value={hours}
             onChange={(e) => onHoursChange(parseInt(e.target.value, 10))}
             className="px-3 py-1.5 rounded-lg text-sm font-medium bg-[var(--bg-secondary)] text-[var(--text-secondary)] border-none outline-none cursor-pointer hover:bg-[var(--bg-tertiary)]"
           >
             {OBS_HOUR_OPTIONS.map((h) => (
-              <option key={h} value={h}>{h}h</option>
+              <option key={h} value={h}>{formatObservationRange(h)}</option>
             ))}
           </select>
         ) : (
@@ -168,7 +180,7 @@ export default function AirportSelector({
             onChange={(e) => onForecastHoursLimitChange(parseInt(e.target.value, 10))}
             className="px-3 py-1.5 rounded-lg text-sm font-medium bg-[var(--bg-secondary)] text-[#10b981] border-none outline-none cursor-pointer hover:bg-[var(--bg-tertiary)]"
           >
-            {(forecastRange === 72 ? FORECAST_72_OPTIONS : FORECAST_24_OPTIONS).map((opt) => (
+            {FORECAST_LIMIT_OPTIONS[forecastRange].map((opt) => (
               <option key={opt.value} value={opt.value}>{opt.label}</option>
             ))}
           </select>
@@ -236,6 +248,14 @@ export default function AirportSelector({
                 <span className="text-xs text-[var(--text-tertiary)] shrink-0">
                   ({airport.city}, {airport.state})
                 </span>
+                {airport.hasForecast === false && (
+                  <span
+                    className="ml-auto text-[10px] text-amber-400 shrink-0"
+                    title="No NBM station at this airport; forecasts come from the nearest one"
+                  >
+                    No NBM
+                  </span>
+                )}
               </button>
             ))}
           </div>
@@ -0,0 +1,243 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { Line } from 'react-chartjs-2';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+  ChartOptions,
+} from 'chart.js';
+import { getWindClimatology, Runway } from '@/app/actions';
+import { WindClimatology } from '@/lib/climatology';
+import { HeadingReference } from '@/lib/magnetic-variation';
+import WindRoseChart from './WindRoseChart';
+
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Tooltip);
+
+interface ClimatologyViewProps {
+  icao: string;
+  runways: Runway[];
+  headingReference?: HeadingReference;
+}
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// "0000-0100" style local hour range
+const formatHourRange = (hour: number) =>
+  `${String(hour).padStart(2, '0')}00-${String((hour + 1) % 24).padStart(2, '0')}00`;
+
+// Rose selection: all observations, one month ("m3") or one local hour ("h14")
+type RoseSelection = 'all' | `m${number}` | `h${number}`;
+
+export default function ClimatologyView({ icao, runways, headingReference = 'true' }: ClimatologyViewProps) {
+  const [climatology, setClimatology] = useState<(WindClimatology & { icao: string }) | null>(null);
+  const [loadedKey, setLoadedKey] = useState<string | null>(null);
+  const [selection, setSelection] = useState<RoseSelection>('all');
+  const fetchIdRef = useRef(0);
+
+  const key = `${icao}-${headingReference}`;
+
+  useEffect(() => {
+    const fetchId = ++fetchIdRef.current;
+    getWindClimatology(icao, headingReference).then((data) => {
+      if (fetchIdRef.current !== fetchId) return;
+      setClimatology(data);
+      setLoadedKey(`${icao}-${headingReference}`);
+    });
+  }, [icao, headingReference]);
+
+  if (loadedKey !== key) {
+    return (
+      <div className="text-center py-16">
+        <div className="inline-block animate-spin rounded-full h-8 w-8 border-2 border-[#794bc4] border-t-transparent"></div>
+        <p className="text-[var(--text-secondary)] mt-4 text-sm">Building climatology...</p>
+      </div>
+    );
+  }
+
+  if (!climatology || climatology.count === 0) {
+    return (
+      <div className="text-center py-16">
+        <p className="text-[var(--text-secondary)] text-sm">No observation history available for this airport.</p>
+      </div>
+    );
+  }
+
+  const rose = selection === 'all'
+    ? climatology.annual
+    : selection.startsWith('m')
+      ? climatology.monthly[Number(selection.slice(1))]
+      : climatology.hourly[Number(selection.slice(1))];
+  const roseTitle = selection === 'all'
+    ? 'Wind Rose'
+    : selection.startsWith('m')
+      ? `Wind Rose · ${MONTHS[Number(selection.slice(1))]}`
+      : `Wind Rose · ${formatHourRange(Number(selection.slice(1)))} local`;
+
+  const formatDate = (timestamp: number) =>
+    new Date(timestamp * 1000).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+  const profile = climatology.gustProfile;
+  const profileData = {
+    labels: profile.map((p) => String(p.hour).padStart(2, '0')),
+    datasets: [
+      {
+        label: 'Median wind',
+        data: profile.map((p) => p.medianWind),
+        borderColor: '#1d9bf0',
+        backgroundColor: '#1d9bf0',
+        tension: 0.3,
+        pointRadius: 2,
+        borderWidth: 2,
+      },
+      {
+        label: 'Median gust',
+        data: profile.map((p) => p.medianGust),
+        borderColor: '#f91880',
+        backgroundColor: '#f91880',
+        borderDash: [5, 5],
+        tension: 0.3,
+        pointRadius: 2,
+        borderWidth: 2,
+        spanGaps: true,
+      },
+    ],
+  };
+
+  const profileOptions: ChartOptions<'line'> = {
+    responsive: true,
+    maintainAspectRatio: false,
+    animation: false,
+    interaction: { mode: 'index', intersect: false },
+    plugins: {
+      legend: { display: false },
+      tooltip: {
+        backgroundColor: 'rgba(25, 39, 52, 0.95)',
+        borderColor: '#38444d',
+        borderWidth: 1,
+        padding: 10,
+        callbacks: {
+          title: (items) => (items.length ? `${formatHourRange(profile[items[0].dataIndex].hour)} local` : ''),
+          label: (context) =>
+            context.parsed.y === null ? '' : ` ${context.dataset.label}: ${context.parsed.y} kt`,
+          afterBody: (items) => {
+            const p = items.length ? profile[items[0].dataIndex] : null;
+            return p?.gustFrequency !== null && p?.gustFrequency !== undefined
+              ? [`Gusts reported: ${p.gustFrequency}%`]
+              : [];
+          },
+        },
+      },
+    },
+    scales: {
+      x: {
+        ticks: { color: '#8899a6', font: { size: 10 }, maxTicksLimit: 12 },
+        grid: { color: 'rgba(255, 255, 255, 0.06)' },
+      },
+      y: {
+        beginAtZero: true,
+        ticks: { color: '#8899a6', font: { size: 10 }, callback: (value) => `${value}kt` },
+        grid: { color: 'rgba(255, 255, 255, 0.06)' },
+      },
+    },
+  };
+
+  return (
+    <>
+      <div className="flex justify-center mb-3">
+        <select
+          value={selection}
+          onChange={(e) => setSelection(e.target.value as RoseSelection)}
+          className="px-3 py-1.5 rounded-lg text-sm font-medium bg-[var(--bg-secondary)] text-[var(--text-secondary)] border-none outline-none cursor-pointer hover:bg-[var(--bg-tertiary)]"
+        >
+          <option value="all">All observations</option>
+          <optgroup label="Month">
+            {MONTHS.map((month, i) => (
+              <option key={month} value={`m${i}`} disabled={climatology.monthly[i].total === 0}>
+                {month}
+              </option>
+            ))}
+          </optgroup>
+          <optgroup label="Local hour">
+            {climatology.hourly.map((hourRose, hour) => (
+              <option key={hour} value={`h${hour}`} disabled={hourRose.total === 0}>
+                {formatHourRange(hour)}
+              </option>
+            ))}
+          </optgroup>
+        </select>
+      </div>
+
+      <div className="lg:grid lg:grid-cols-2 lg:gap-5 lg:items-stretch">
+        <div className="lg:min-w-0 lg:flex lg:flex-col">
+          <WindRoseChart rose={rose} runways={runways} title={roseTitle} headingReference={headingReference} />
+        </div>
+        <div className="lg:min-w-0 lg:flex lg:flex-col">
+          <div className="chart-section h-full">
+            <div className="chart-title">Wind &amp; Gusts by Hour (local)</div>
+            <div className="relative h-[280px] w-full">
+              <Line data={profileData} options={profileOptions} />
+            </div>
+            <div className="legend">
+              <div className="legend-item">
+                <div className="legend-dot" style={{ backgroundColor: '#1d9bf0' }}></div>
+                Median Wind
+              </div>
+              <div className="legend-item">
+                <div className="legend-dot" style={{ backgroundColor: '#f91880' }}></div>
+                Median Gust
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {climatology.runways.length > 0 && (
+        <div className="chart-section mt-4">
+          <div className="chart-title mb-2">Crosswind Exceedance</div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-[var(--text-tertiary)] bg-[var(--bg-primary)]/50 border-b border-[var(--border-color)]">
+                  <th className="py-2.5 px-3 text-left font-medium text-xs uppercase tracking-wider">Runway</th>
+                  {climatology.runways[0].exceedance.map((e) => (
+                    <th key={e.thresholdKt} className="py-2.5 px-3 text-right font-medium text-xs uppercase tracking-wider">
+                      &gt;{e.thresholdKt}kt
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {climatology.runways.map((rw) => (
+                  <tr key={rw.runway} className="border-b border-[var(--border-color)] last:border-b-0">
+                    <td className="py-2 px-3 font-mono text-[var(--text-primary)]">{rw.runway}</td>
+                    {rw.exceedance.map((e) => (
+                      <td key={e.thresholdKt} className="py-2 px-3 text-right font-mono tabular-nums text-[var(--text-secondary)]">
+                        {e.sustained}%
+                        <span className="text-[var(--text-tertiary)] text-xs"> / {e.gust}%</span>
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-[var(--text-tertiary)] mt-3 text-center">
+            Share of observations with crosswind above each limit &middot; sustained / including gusts
+          </p>
+        </div>
+      )}
+
+      <p className="text-xs text-[var(--text-tertiary)] mt-4 text-center">
+        {climatology.count.toLocaleString()} observations
+        {climatology.from !== null && climatology.to !== null && (
+          <> &middot; {formatDate(climatology.from)}–{formatDate(climatology.to)}</>
+        )}
+      </p>
+    </>
+  );
+}
@@ -14,8 +14,22 @@ import {
   ChartOptions,
   Plugin,
 } from 'chart.js';
-import { ForecastDataPoint } from '@/lib/types';
+import { ForecastDataPoint, ForecastRun, TafForecastPoint } from '@/lib/types';
 import { useHorizontalSwipeLock } from '@/lib/useHorizontalSwipeLock';
+import { HeadingReference, formatHeading } from '@/lib/magnetic-variation';
+import {
+  FlightCategory,
+  FLIGHT_CATEGORY_COLORS,
+  formatCeiling,
+  formatVisibilityMiles,
+} from '@/lib/flight-category';
+import {
+  DEFAULT_TREND_THRESHOLD_KT,
+  alignForecastRun,
+  getForecastChanges,
+  formatForecastChange,
+  getChangeTrend,
+} from '@/lib/forecast-trend';
 
 ChartJS.register(
   CategoryScale,
@@ -29,10 +43,34 @@ ChartJS.register(
 
 interface ForecastChartProps {
   forecasts: ForecastDataPoint[];
+  taf?: TafForecastPoint[] | null;
+  previousRuns?: ForecastRun[] | null;  // Earlier NBM cycles, newest first
+  trendThresholdKt?: number;            // Flag hours that changed this much since the previous run
+  headingReference?: HeadingReference;
   selectedIdx: number;
   onSelectIdx: (idx: number) => void;
 }
 
+// Shading for TAF conditional periods
+const TAF_BAND_COLORS: Record<'TEMPO' | 'PROB' | 'BECMG', string> = {
+  TEMPO: 'rgba(167, 139, 250, 0.14)',
+  PROB: 'rgba(167, 139, 250, 0.07)',
+  BECMG: 'rgba(148, 163, 184, 0.08)',
+};
+
+// Height of the flight category strip drawn below the x-axis labels
+const CATEGORY_STRIP_HEIGHT = 6;
+
+// Earlier NBM runs fade out with age
+const RUN_OPACITIES = [0.5, 0.35, 0.22, 0.15];
+
+// Markers for hours that changed since the previous run
+const TREND_COLORS = { windier: '#ef4444', calmer: '#38bdf8' };
+
+// "14Z run" for a cycle timestamp
+const formatRunLabel = (generatedAt: number): string =>
+  `${new Date(generatedAt * 1000).getUTCHours().toString().padStart(2, '0')}Z run`;
+
 // Format direction as cardinal
 const formatDirection = (deg: number | null): string => {
   if (deg === null) return '—';
@@ -40,7 +78,15 @@ const formatDirection = (deg: number | null): string => {
   return dirs[Math.round(deg / 22.5) % 16];
 };
 
-export default function ForecastChart({ forecasts, selectedIdx, onSelectIdx }: ForecastChartProps) {
+export default function ForecastChart({
+  forecasts,
+  taf = null,
+  previousRuns = null,
+  trendThresholdKt = DEFAULT_TREND_THRESHOLD_KT,
+  headingReference = 'true',
+  selectedIdx,
+  onSelectIdx,
+}: ForecastChartProps) {
   const chartRef = useRef<ChartJS<'line'>>(null);
   const chartContainerRef = useHorizontalSwipeLock<HTMLDivElement>();
 
@@ -48,6 +94,111 @@ export default function ForecastChart({ forecasts, selectedIdx, onSelectIdx }: F
   const windSpeeds = forecasts.map((d) => d.wspd);
   const gustSpeeds = forecasts.map((d) => d.wgst);
   const windDirs = forecasts.map((d) => d.wdir);
+  const categories = useMemo(() => forecasts.map((d) => d.flightCategory ?? null), [forecasts]);
+  const hasCategories = categories.some((c) => c !== null);
+
+  // Align TAF hours with forecast timestamps
+  const tafPoints = useMemo(() => {
+    if (!taf?.length) return null;
+    const byHour = new Map(taf.map((p) => [Math.floor(p.timestamp / 3600), p]));
+    return forecasts.map((f) => byHour.get(Math.floor(f.timestamp / 3600)) ?? null);
+  }, [forecasts, taf]);
+  const hasTaf = Boolean(tafPoints?.some((p) => p !== null));
+  const tafWinds = tafPoints?.map((p) => p?.wspd ?? null) ?? [];
+  const tafGusts = tafPoints?.map((p) => p?.wgst ?? null) ?? [];
+  const tafConditionalGusts = tafPoints?.map((p) => {
+    const cond = p?.conditional;
+    if (!cond) return null;
+    return cond.wgst ?? cond.wspd;
+  }) ?? [];
+
+  // Earlier runs aligned with the forecast hours, and hours that changed since the previous run
+  const runTraces = useMemo(
+    () => (previousRuns ?? []).map((run) => ({
+      label: formatRunLabel(run.generatedAt),
+      ...alignForecastRun(run, forecasts),
+    })),
+    [previousRuns, forecasts]
+  );
+  const changes = useMemo(
+    () => (previousRuns?.length ? getForecastChanges(forecasts, previousRuns[0], trendThresholdKt) : []),
+    [previousRuns, forecasts, trendThresholdKt]
+  );
+  const hasChanges = changes.some((c) => c !== null);
+
+  // Custom plugin for shaded TEMPO/PROB/BECMG bands (drawn behind datasets)
+  const tafBandsPlugin: Plugin<'line'> = useMemo(() => ({
+    id: 'tafBands',
+    beforeDatasetsDraw: (chart) => {
+      if (!tafPoints) return;
+      const meta = chart.getDatasetMeta(0);
+      const ctx = chart.ctx;
+      const topY = chart.scales.y.top;
+      const bottomY = chart.scales.y.bottom;
+
+      ctx.save();
+      tafPoints.forEach((p, i) => {
+        const cond = p?.conditional;
+        if (!cond || !meta.data[i]) return;
+        const x = meta.data[i].x;
+        const prevX = meta.data[i - 1]?.x ?? x - (meta.data[i + 1] ? meta.data[i + 1].x - x : 0);
+        const nextX = meta.data[i + 1]?.x ?? x + (x - prevX);
+        const left = (prevX + x) / 2;
+        const right = (x + nextX) / 2;
+        ctx.fillStyle = TAF_BAND_COLORS[cond.type];
+        ctx.fillRect(left, topY, right - left, bottomY - topY);
+      });
+      ctx.restore();
+    },
+  }), [tafPoints]);
+
+  // Custom plugin for the VFR/MVFR/IFR/LIFR strip along the bottom edge
+  const categoryStripPlugin: Plugin<'line'> = useMemo(() => ({
+    id: 'categoryStrip',
+    afterDraw: (chart) => {
+      if (!hasCategories) return;
+      const meta = chart.getDatasetMeta(0);
+      const ctx = chart.ctx;
+      const top = chart.height - CATEGORY_STRIP_HEIGHT;
+
+      ctx.save();
+      categories.forEach((category, i) => {
+        if (!category || !meta.data[i]) return;
+        const x = meta.data[i].x;
+        const prevX = meta.data[i - 1]?.x ?? x - (meta.data[i + 1] ? meta.data[i + 1].x - x : 0);
+        const nextX = meta.data[i + 1]?.x ?? x + (x - prevX);
+        const left = Math.max(chart.chartArea.left, (prevX + x) / 2);
+        const right = Math.min(chart.chartArea.right, (x + nextX) / 2);
+        ctx.fillStyle = FLIGHT_CATEGORY_COLORS[category];
+        ctx.globalAlpha = i === selectedIdx ? 1 : 0.7;
+        ctx.fillRect(left, top, right - left, CATEGORY_STRIP_HEIGHT);
+      });
+      ctx.restore();
+    },
+  }), [categories, hasCategories, selectedIdx]);
+
+  // Custom plugin for ▲/▼ markers above hours that trended windier/calmer since the previous run
+  const trendMarkersPlugin: Plugin<'line'> = useMemo(() => ({
+    id: 'trendMarkers',
+    afterDatasetsDraw: (chart) => {
+      if (!hasChanges) return;
+      const meta = chart.getDatasetMeta(0);
+      const ctx = chart.ctx;
+      const topY = chart.scales.y.top;
+
+      ctx.save();
+      ctx.font = '9px sans-serif';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'top';
+      changes.forEach((change, i) => {
+        if (!change || !meta.data[i]) return;
+        const trend = getChangeTrend(change);
+        ctx.fillStyle = TREND_COLORS[trend];
+        ctx.fillText(trend === 'windier' ? '▲' : '▼', meta.data[i].x, topY + 2);
+      });
+      ctx.restore();
+    },
+  }), [changes, hasChanges]);
 
   // Custom plugin for selected index vertical line
   const selectedLinePlugin: Plugin<'line'> = useMemo(() => ({
@@ -109,8 +260,69 @@ export default function ForecastChart({ forecasts, selectedIdx, onSelectIdx }: F
         pointBorderWidth: gustSpeeds.map((g, i) => g && i === selectedIdx ? 3 : 0),
         borderWidth: 2,
       },
+      ...(hasTaf
+        ? [
+            {
+              label: 'TAF Wind',
+              data: tafWinds,
+              borderColor: '#a78bfa', // Violet for TAF
+              backgroundColor: 'transparent',
+              stepped: true,
+              pointRadius: 0,
+              borderWidth: 2,
+            },
+            {
+              label: 'TAF Gusts',
+              data: tafGusts,
+              borderColor: '#a78bfa',
+              backgroundColor: 'transparent',
+              borderDash: [2, 3],
+              stepped: true,
+              pointRadius: 0,
+              borderWidth: 1.5,
+            },
+            {
+              label: 'TAF Conditional',
+              data: tafConditionalGusts,
+              borderColor: '#a78bfa',
+              backgroundColor: 'transparent',
+              showLine: false,
+              pointStyle: 'triangle' as const,
+              pointRadius: tafConditionalGusts.map((g) => (g !== null ? 5 : 0)),
+              pointBackgroundColor: 'transparent',
+              pointBorderColor: '#a78bfa',
+              pointBorderWidth: 1.5,
+            },
+          ]
+        : []),
+      ...runTraces.flatMap((run, k) => {
+        const opacity = RUN_OPACITIES[Math.min(k, RUN_OPACITIES.length - 1)];
+        return [
+          {
+            label: `${run.label} Wind`,
+            data: run.wspd,
+            borderColor: `rgba(16, 185, 129, ${opacity})`,
+            backgroundColor: 'transparent',
+            tension: 0.3,
+            pointRadius: 0,
+            borderWidth: 1.5,
+          },
+          {
+            label: `${run.label} Gusts`,
+            data: run.wgst,
+            borderColor: `rgba(245, 158, 11, ${opacity})`,
+            backgroundColor: 'transparent',
+            borderDash: [5, 5],
+            tension: 0.3,
+            pointRadius: 0,
+            borderWidth: 1,
+          },
+        ];
+      }),
     ],
   };
+  // Earlier runs are drawn after the NBM and TAF datasets and kept out of the tooltip
+  const firstRunDatasetIdx = data.datasets.length - runTraces.length * 2;
 
   const handleClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
     const chart = chartRef.current;
@@ -132,6 +344,9 @@ export default function ForecastChart({ forecasts, selectedIdx, onSelectIdx }: F
     responsive: true,
     maintainAspectRatio: false,
     animation: false,
+    layout: {
+      padding: { bottom: hasCategories ? CATEGORY_STRIP_HEIGHT + 4 : 0 },
+    },
     interaction: {
       mode: 'index',
       intersect: false,
@@ -158,12 +373,13 @@ export default function ForecastChart({ forecasts, selectedIdx, onSelectIdx }: F
         boxHeight: 10,
         boxPadding: 4,
         usePointStyle: true,
+        filter: (item) => item.datasetIndex < firstRunDatasetIdx,
         callbacks: {
           title: (items) => {
             if (!items.length) return '';
             const idx = items[0].dataIndex;
             const dir = windDirs[idx];
-            const dirStr = dir !== null ? `${dir}° (${formatDirection(dir)})` : '—';
+            const dirStr = dir !== null ? `${formatHeading(dir, headingReference)} (${formatDirection(dir)})` : '—';
             const forecast = forecasts[idx];
             const lines = [`${items[0].label}`, `Direction: ${dirStr}`];
             if (forecast.temp !== null && forecast.temp !== undefined) {
@@ -172,11 +388,27 @@ export default function ForecastChart({ forecasts, selectedIdx, onSelectIdx }: F
             if (forecast.pop !== null && forecast.pop !== undefined) {
               lines.push(`Precip: ${forecast.pop}%`);
             }
+            if (forecast.flightCategory && forecast.vis !== null && forecast.vis !== undefined) {
+              lines.push(
+                `${forecast.flightCategory}: ceiling ${formatCeiling(forecast.cig)}, vis ${formatVisibilityMiles(forecast.vis)}`
+              );
+            } else if (forecast.flightCategory === null) {
+              lines.push('Flight category unknown: ceiling or visibility missing');
+            }
+            const change = changes[idx];
+            if (change && previousRuns?.length) {
+              lines.push(`Trend: ${formatForecastChange(change)} vs ${formatRunLabel(previousRuns[0].generatedAt)}`);
+            }
             return lines;
           },
           label: (context) => {
             const value = context.parsed.y;
             if (value === null) return '';
+            if (context.dataset.label === 'TAF Conditional') {
+              const cond = tafPoints?.[context.dataIndex]?.conditional;
+              const kind = cond?.type === 'PROB' ? `PROB${cond.probability ?? ''}` : cond?.type;
+              return ` TAF ${kind}: ${value} kt (conditional)`;
+            }
             return ` ${context.dataset.label}: ${value} kt`;
           },
         },
@@ -212,7 +444,7 @@ export default function ForecastChart({ forecasts, selectedIdx, onSelectIdx }: F
           ref={chartRef}
           data={data}
           options={options}
-          plugins={[selectedLinePlugin]}
+          plugins={[tafBandsPlugin, categoryStripPlugin, trendMarkersPlugin, selectedLinePlugin]}
           onClick={handleClick}
         />
       </div>
@@ -225,9 +457,50 @@ export default function ForecastChart({ forecasts, selectedIdx, onSelectIdx }: F
           <div className="legend-dot" style={{ backgroundColor: '#f59e0b' }}></div>
           Forecast Gusts
         </div>
+        {hasCategories && (
+          <div className="legend-item">
+            {(Object.keys(FLIGHT_CATEGORY_COLORS) as FlightCategory[]).map((category) => (
+              <span key={category} className="flex items-center gap-1 mr-1">
+                <span
+                  className="w-3 h-1.5 rounded-sm"
+                  style={{ backgroundColor: FLIGHT_CATEGORY_COLORS[category] }}
+                ></span>
+                {category}
+              </span>
+            ))}
+          </div>
+        )}
+        {runTraces.length > 0 && (
+          <div className="legend-item">
+            <div className="legend-dot" style={{ backgroundColor: 'rgba(16, 185, 129, 0.35)' }}></div>
+            Earlier runs ({runTraces.length})
+          </div>
+        )}
+        {hasChanges && (
+          <div className="legend-item">
+            <span style={{ color: TREND_COLORS.windier }}>&#9650;</span>
+            <span style={{ color: TREND_COLORS.calmer }}>&#9660;</span>
+            Changed &ge;{trendThresholdKt} kt
+          </div>
+        )}
+        {hasTaf && (
+          <>
+            <div className="legend-item">
+              <div className="legend-dot" style={{ backgroundColor: '#a78bfa' }}></div>
+              TAF
+            </div>
+            <div className="legend-item">
+              <div
+                className="w-3 h-3 rounded-sm"
+                style={{ backgroundColor: TAF_BAND_COLORS.TEMPO, border: '1px solid rgba(167, 139, 250, 0.5)' }}
+              ></div>
+              TEMPO/PROB &#9651; conditional gust
+            </div>
+          </>
+        )}
       </div>
       <p className="text-xs text-[var(--text-tertiary)] text-center mt-2">
-        NOAA National Blend of Models
+        NOAA National Blend of Models{hasTaf && ' · TAF from aviationweather.gov'}
       </p>
     </div>
   );
@@ -3,12 +3,15 @@
 import { useRef, useEffect, useCallback, useState } from 'react';
 import { ForecastDataPoint } from '@/lib/types';
 import { Runway } from '@/app/actions';
+import { HeadingReference, formatHeading } from '@/lib/magnetic-variation';
+import { RUNWAY_COLORS, groupRunways } from '@/lib/runway-groups';
 
 interface ForecastDirectionChartProps {
   forecasts: ForecastDataPoint[];
   runways: Runway[];
   selectedIdx: number;
   onSelectIdx: (idx: number) => void;
+  headingReference?: HeadingReference;
 }
 
 interface TooltipData {
@@ -23,74 +26,12 @@ interface TooltipData {
   isGust: boolean;
 }
 
-const RUNWAY_COLORS = ['#ffcc00', '#00ff88', '#ff6b6b', '#a78bfa'];
-
-// Represents a group of parallel runways (or a single runway)
-interface RunwayGroup {
-  trueHdg: number;
-  highLabel: string; // e.g., "22L/R" or "22"
-  lowLabel: string;  // e.g., "04L/R" or "04"
-  legendLabel: string; // e.g., "04L/R/22L/R" or "04/22"
-}
-
-// Group parallel runways and create combined labels
-function groupRunways(runways: Runway[]): RunwayGroup[] {
-  // Group runways by heading (within 1 degree tolerance)
-  const groups: { hdg: number; runways: Runway[] }[] = [];
-
-  runways.forEach((rw) => {
-    const normalizedHdg = Math.round(rw.trueHdg);
-    const existingGroup = groups.find((g) => Math.abs(g.hdg - normalizedHdg) <= 1);
-    if (existingGroup) {
-      existingGroup.runways.push(rw);
-    } else {
-      groups.push({ hdg: normalizedHdg, runways: [rw] });
-    }
-  });
-
-  // Convert groups to RunwayGroup with combined labels
-  return groups.map((group) => {
-    const rwList = group.runways;
-    // Use the average heading for the group
-    const avgHdg = rwList.reduce((sum, rw) => sum + rw.trueHdg, 0) / rwList.length;
-
-    if (rwList.length === 1) {
-      // Single runway - use original labels
-      const rw = rwList[0];
-      return {
-        trueHdg: avgHdg,
-        highLabel: rw.high,
-        lowLabel: rw.low,
-        legendLabel: `${rw.low}/${rw.high}`,
-      };
-    }
-
-    // Multiple parallel runways - extract numbers and unique suffixes
-    const highNum = rwList[0].high.replace(/[LRC]$/, '');
-    const lowNum = rwList[0].low.replace(/[LRC]$/, '');
-
-    // Get unique suffixes, sorted L/C/R
-    const suffixes = [...new Set(rwList.map((rw) => rw.high.replace(/^\d+/, '')))]
-      .sort((a, b) => {
-        const order: Record<string, number> = { L: 0, C: 1, R: 2 };
-        return (order[a] ?? 3) - (order[b] ?? 3);
-      });
-    const suffixStr = suffixes.join('/');
-
-    return {
-      trueHdg: avgHdg,
-      highLabel: `${highNum}${suffixStr}`,
-      lowLabel: `${lowNum}${suffixStr}`,
-      legendLabel: `${lowNum}/${highNum} ${suffixStr}`,
-    };
-  });
-}
-
 export default function ForecastDirectionChart({
   forecasts,
   runways,
   selectedIdx,
   onSelectIdx,
+  headingReference = 'true',
 }: ForecastDirectionChartProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [tooltip, setTooltip] = useState<TooltipData | null>(null);
@@ -380,7 +321,12 @@ export default function ForecastDirectionChart({
 
   return (
     <div className="chart-section h-full">
-      <div className="chart-title">Forecast Wind Direction</div>
+      <div className="chart-title">
+        Forecast Wind Direction
+        {headingReference === 'magnetic' && (
+          <span className="text-[var(--text-tertiary)] font-normal"> &middot; magnetic</span>
+        )}
+      </div>
       <div className="h-[280px] relative">
         <canvas ref={canvasRef} className="w-full h-full cursor-pointer" />
         {tooltip && (
@@ -397,7 +343,9 @@ export default function ForecastDirectionChart({
           >
             <div className="font-semibold text-white mb-1">{tooltip.time}</div>
             <div className="text-[var(--text-secondary)] text-xs space-y-0.5">
-              <div>Direction: {tooltip.wdir}&deg; ({formatDirection(tooltip.wdir)})</div>
+              <div>
+                Direction: {tooltip.wdir !== null ? formatHeading(tooltip.wdir, headingReference) : '—'} ({formatDirection(tooltip.wdir)})
+              </div>
               {tooltip.wspd && <div>Wind: {tooltip.wspd} kt</div>}
               {tooltip.wgst && <div className="text-[#f59e0b]">Gust: {tooltip.wgst} kt</div>}
               {tooltip.temp !== null && tooltip.temp !== undefined && (
@@ -0,0 +1,18 @@
+import { ForecastStation } from '@/lib/types';
+
+interface ForecastStationNoticeProps {
+  icao: string;
+  station: ForecastStation; // Nearby NBM station the forecast comes from
+}
+
+// Disclosure shown when an airport's forecast comes from a nearby NBM station
+export default function ForecastStationNotice({ icao, station }: ForecastStationNoticeProps) {
+  return (
+    <div className="bg-amber-500/10 border border-amber-500/25 rounded-lg p-3 mb-4 text-center">
+      <p className="text-amber-400 text-sm">
+        Forecast from {station.icao}, {station.distance}nm away
+        {' '}&mdash; {icao} has no NBM guidance of its own
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { getForecastVerification } from '@/app/actions';
+import {
+  ForecastVerification,
+  VerificationStats,
+  GUST_HIT_TOLERANCE_KT,
+  describeGustBias,
+} from '@/lib/forecast-verification';
+
+interface ForecastVerificationPanelProps {
+  icao: string;
+}
+
+// "+1.5", "-3", "—"
+const formatSigned = (value: number | null): string => {
+  if (value === null) return '—';
+  return `${value > 0 ? '+' : ''}${value}`;
+};
+
+// Negative bias means NBM forecast less wind than was observed
+const biasClass = (value: number | null): string => {
+  if (value === null || Math.abs(value) < 2) return 'text-[var(--text-secondary)]';
+  return value < 0 ? 'text-red-400' : 'text-sky-400';
+};
+
+function StatsRow({ stats, isTotal = false }: { stats: VerificationStats; isTotal?: boolean }) {
+  return (
+    <tr
+      className={`border-b border-[var(--border-color)] last:border-b-0 ${
+        isTotal ? 'bg-[var(--bg-primary)]/30 font-medium' : ''
+      }`}
+    >
+      <td className="py-2 px-3 text-[var(--text-primary)]">{stats.label}</td>
+      <td className="py-2 px-3 text-right font-mono tabular-nums text-[var(--text-tertiary)]">{stats.count}</td>
+      <td className={`py-2 px-3 text-right font-mono tabular-nums ${biasClass(stats.windBias)}`}>
+        {formatSigned(stats.windBias)}
+      </td>
+      <td className="py-2 px-3 text-right font-mono tabular-nums text-[var(--text-secondary)]">
+        {stats.windMae ?? '—'}
+      </td>
+      <td className={`py-2 px-3 text-right font-mono tabular-nums ${biasClass(stats.gustBias)}`}>
+        {formatSigned(stats.gustBias)}
+      </td>
+      <td className="py-2 px-3 text-right font-mono tabular-nums text-[var(--text-secondary)]">
+        {stats.gustHitRate !== null ? `${Math.round(stats.gustHitRate * 100)}%` : '—'}
+        {stats.gustCount > 0 && (
+          <span className="text-[var(--text-tertiary)] text-xs"> ({stats.gustCount})</span>
+        )}
+      </td>
+    </tr>
+  );
+}
+
+export default function ForecastVerificationPanel({ icao }: ForecastVerificationPanelProps) {
+  const [verification, setVerification] = useState<ForecastVerification | null>(null);
+  const [loadedIcao, setLoadedIcao] = useState<string | null>(null);
+  const fetchIdRef = useRef(0);
+
+  useEffect(() => {
+    const fetchId = ++fetchIdRef.current;
+    getForecastVerification(icao).then((data) => {
+      if (fetchIdRef.current !== fetchId) return;
+      setVerification(data);
+      setLoadedIcao(icao);
+    });
+  }, [icao]);
+
+  // Nothing to show until some archived forecast hours have been observed
+  if (loadedIcao !== icao || !verification || verification.pairs === 0) return null;
+
+  const summary = describeGustBias(verification.overall);
+  const formatDate = (timestamp: number) =>
+    new Date(timestamp * 1000).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+  return (
+    <div className="chart-section mt-4">
+      <div className="chart-title mb-2">NBM Verification</div>
+      {summary && (
+        <p className="text-sm text-[var(--text-secondary)] mb-3">{summary}.</p>
+      )}
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-[var(--text-tertiary)] bg-[var(--bg-primary)]/50 border-b border-[var(--border-color)]">
+              <th className="py-2.5 px-3 text-left font-medium text-xs uppercase tracking-wider">Lead</th>
+              <th className="py-2.5 px-3 text-right font-medium text-xs uppercase tracking-wider">Hours</th>
+              <th className="py-2.5 px-3 text-right font-medium text-xs uppercase tracking-wider">Wind Bias</th>
+              <th className="py-2.5 px-3 text-right font-medium text-xs uppercase tracking-wider">Wind MAE</th>
+              <th className="py-2.5 px-3 text-right font-medium text-xs uppercase tracking-wider">Gust Bias</th>
+              <th className="py-2.5 px-3 text-right font-medium text-xs uppercase tracking-wider">Gust Hits</th>
+            </tr>
+          </thead>
+          <tbody>
+            {verification.leadTimes.map((stats) => (
+              <StatsRow key={stats.label} stats={stats} />
+            ))}
+            <StatsRow stats={verification.overall} isTotal />
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-[var(--text-tertiary)] mt-3 text-center">
+        {verification.runs} archived NBM runs vs. observed winds
+        {verification.from !== null && verification.to !== null && (
+          <> &middot; {formatDate(verification.from)}–{formatDate(verification.to)}</>
+        )}
+        {' '}&middot; Bias is forecast minus observed (kt) &middot; Gust hit: within {GUST_HIT_TOLERANCE_KT} kt
+      </p>
+    </div>
+  );
+}
@@ -1,14 +1,19 @@
 'use client';
 
 import { useMemo } from 'react';
-import { ForecastDataPoint } from '@/lib/types';
+import { ForecastDataPoint, TafForecastPoint } from '@/lib/types';
 import { Runway } from '@/app/actions';
+import { formatWindGroup } from '@/lib/wind-variability';
+import { HeadingReference, formatHeading } from '@/lib/magnetic-variation';
+import { FLIGHT_CATEGORY_COLORS, formatCeiling, formatVisibilityMiles } from '@/lib/flight-category';
 
 interface ForecastWindTableProps {
   forecasts: ForecastDataPoint[];
+  taf?: TafForecastPoint[] | null;
   runways: Runway[];
   selectedIdx: number;
   onSelectIdx: (idx: number) => void;
+  headingReference?: HeadingReference; // Reference the wind and runway headings are already in
 }
 
 interface RunwayWindComponent {
@@ -136,9 +141,11 @@ function getShortHourLabel(time: string): string {
 
 export default function ForecastWindTable({
   forecasts,
+  taf = null,
   runways,
   selectedIdx,
   onSelectIdx,
+  headingReference = 'true',
 }: ForecastWindTableProps) {
   // Build hour options for all forecast hours
   const hourOptions = useMemo(() => {
@@ -151,6 +158,7 @@ export default function ForecastWindTable({
         time: f.time,
         shortLabel: getShortHourLabel(f.time),
         relativeHours,
+        flightCategory: f.flightCategory ?? null,
       };
     });
   }, [forecasts]);
@@ -158,6 +166,13 @@ export default function ForecastWindTable({
   // Get selected forecast
   const selectedForecast = forecasts[selectedIdx];
 
+  // TAF hour matching the selected forecast
+  const selectedTaf = useMemo(() => {
+    if (!selectedForecast || !taf?.length) return null;
+    const hour = Math.floor(selectedForecast.timestamp / 3600);
+    return taf.find((p) => Math.floor(p.timestamp / 3600) === hour) ?? null;
+  }, [selectedForecast, taf]);
+
   // Compute wind components for selected forecast
   const { components: windComponents, hasGusts } = useMemo(() => {
     if (!selectedForecast) {
@@ -176,7 +191,26 @@ export default function ForecastWindTable({
   return (
     <div className="chart-section mt-4">
       <div className="mb-3">
-        <div className="chart-title mb-2">Forecast Runway Winds</div>
+        <div className="flex items-center justify-between mb-2">
+          <div className="chart-title">Forecast Runway Winds</div>
+          {selectedForecast?.flightCategory && (
+            <span
+              className="px-2 py-0.5 rounded text-xs font-bold text-white"
+              style={{ backgroundColor: FLIGHT_CATEGORY_COLORS[selectedForecast.flightCategory] }}
+              title="Flight category from NBM ceiling and visibility"
+            >
+              {selectedForecast.flightCategory}
+            </span>
+          )}
+          {selectedForecast?.flightCategory === null && (
+            <span
+              className="px-2 py-0.5 rounded text-xs font-bold bg-[var(--bg-tertiary)] text-[var(--text-secondary)]"
+              title="NBM ceiling or visibility is missing for this hour"
+            >
+              Unknown
+            </span>
+          )}
+        </div>
         <div className="flex items-center gap-2">
           <span className="text-xs text-[var(--text-tertiary)] whitespace-nowrap font-medium">Hour:</span>
           <div className="flex gap-1 text-xs overflow-x-auto pb-1 flex-1" style={{ scrollbarWidth: 'thin' }}>
@@ -189,7 +223,10 @@ export default function ForecastWindTable({
                     ? 'bg-[#10b981] text-white font-medium'
                     : 'bg-[var(--bg-tertiary)] text-[var(--text-secondary)] hover:bg-[var(--bg-hover)] hover:text-[var(--text-primary)]'
                 }`}
-                title={`Forecast for ${opt.time}`}
+                title={`Forecast for ${opt.time}${opt.flightCategory ? ` (${opt.flightCategory})` : ''}`}
+                style={opt.flightCategory
+                  ? { boxShadow: `inset 0 -2px 0 ${FLIGHT_CATEGORY_COLORS[opt.flightCategory]}` }
+                  : undefined}
               >
                 <div className="text-[10px] leading-tight">{opt.shortLabel}</div>
                 <div className="text-[9px] leading-tight opacity-70">
@@ -274,6 +311,12 @@ export default function ForecastWindTable({
           <div className="text-xs text-[var(--text-tertiary)] mt-3 text-center">
             <p>
               Forecast for {selectedForecast?.time}
+              {selectedForecast?.wdir !== null && selectedForecast?.wspd !== null && (
+                <>
+                  {' '}&middot; Wind {formatHeading(selectedForecast.wdir, headingReference)} at {selectedForecast.wspd}
+                  {selectedForecast.wgst !== null && selectedForecast.wgst > selectedForecast.wspd && ` gust ${selectedForecast.wgst}`} kt
+                </>
+              )}
               {selectedForecast?.temp !== null && selectedForecast?.temp !== undefined && (
                 <> &middot; {selectedForecast.temp}&deg;F</>
               )}
@@ -281,6 +324,42 @@ export default function ForecastWindTable({
                 <> &middot; {selectedForecast.pop}% precip</>
               )}
             </p>
+            {selectedForecast?.flightCategory && selectedForecast.vis !== null && selectedForecast.vis !== undefined && (
+              <p className="mt-1">
+                <span style={{ color: FLIGHT_CATEGORY_COLORS[selectedForecast.flightCategory] }} className="font-medium">
+                  {selectedForecast.flightCategory}
+                </span>
+                {' '}&middot; Ceiling {formatCeiling(selectedForecast.cig)}
+                {' '}&middot; Vis {formatVisibilityMiles(selectedForecast.vis)}
+                {selectedForecast.dpt !== null && selectedForecast.dpt !== undefined && (
+                  <> &middot; Dew point {selectedForecast.dpt}&deg;F</>
+                )}
+              </p>
+            )}
+            {selectedTaf && (
+              <p className="mt-1 font-mono">
+                TAF{headingReference === 'magnetic' && ' (magnetic)'} {formatWindGroup(selectedTaf.wdir, selectedTaf.wspd, selectedTaf.wgst)}
+                {selectedTaf.conditional && (
+                  <span className="text-[#a78bfa]">
+                    {' '}&middot; {selectedTaf.conditional.type === 'PROB'
+                      ? `PROB${selectedTaf.conditional.probability ?? ''}`
+                      : selectedTaf.conditional.type}{' '}
+                    {formatWindGroup(
+                      selectedTaf.conditional.wdir,
+                      selectedTaf.conditional.wspd,
+                      selectedTaf.conditional.wgst
+                    )}
+                  </span>
+                )}
+                {selectedTaf.windShear && (
+                  <span className="text-amber-400">
+                    {' '}&middot; WS{String(selectedTaf.windShear.heightFeet / 100).padStart(3, '0')}/
+                    {String(Math.round(selectedTaf.windShear.direction)).padStart(3, '0')}
+                    {selectedTaf.windShear.speed}KT
+                  </span>
+                )}
+              </p>
+            )}
             {hasGusts && <p className="mt-1">Gust values in parentheses</p>}
           </div>
         </>
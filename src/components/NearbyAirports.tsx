@@ -1,42 +1,92 @@
 'use client';
 
-import { useState, useEffect, useRef } from 'react';
-import { getNearbyAirports, getMetarBatch, NearbyAirport, MetarData } from '@/app/actions';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { getNearbyAirports, getMetarBatch, getNbmWindBatch, NearbyAirport, MetarData, NbmWind } from '@/app/actions';
+import { formatMetarSummary } from '@/lib/metar-parser';
+import { formatWindGroup } from '@/lib/wind-variability';
+import { HeadingReference, convertHeading, getMagneticDeclination } from '@/lib/magnetic-variation';
+import { ForecastRange } from '@/lib/windplot-route';
 
 interface NearbyAirportsProps {
   icao: string;
   onSelect: (icao: string) => void;
   showWind?: boolean;
+  headingReference?: HeadingReference;
+  // Forecast view: show NBM winds at this forecast hour instead of METARs
+  forecastRange?: ForecastRange;
+  forecastTimestamp?: number | null;
 }
 
-type WindDisplay = { text: string; style: 'normal' | 'calm' | 'gust' | 'missing' | 'loading' };
+type WindDisplay = { text: string; style: 'normal' | 'calm' | 'gust' | 'variable' | 'missing' | 'loading' };
 
-function formatWind(metar: MetarData | undefined, metarsLoaded: boolean): WindDisplay {
+function formatWind(
+  metar: MetarData | undefined,
+  metarsLoaded: boolean,
+  toReference: (deg: number) => number
+): WindDisplay {
   if (!metarsLoaded) return { text: '...', style: 'loading' };
   if (!metar) return { text: 'MISSING', style: 'missing' };
-  if (metar.wspd === 0 || (metar.wdir === null && metar.wspd === null)) {
-    // wspd=0 is calm; wdir=null + wspd=null means no data
-    if (metar.wspd === 0) return { text: 'CALM', style: 'calm' };
-    return { text: 'MISSING', style: 'missing' };
-  }
-  if (metar.wdir === null || metar.wspd === null) return { text: 'MISSING', style: 'missing' };
-  const dir = String(metar.wdir).padStart(3, '0');
-  const spd = metar.wspd;
-  if (metar.wgst !== null && metar.wgst > spd) {
-    return { text: `${dir}@${spd}G${metar.wgst}`, style: 'gust' };
-  }
-  return { text: `${dir}@${spd}`, style: 'normal' };
+  // wspd=0 is calm; no speed, or no direction on a non-variable wind, means no data
+  if (metar.wspd === 0) return { text: 'CALM', style: 'calm' };
+  if (metar.wspd === null) return { text: 'MISSING', style: 'missing' };
+  if (metar.wdir === null && !metar.variability?.vrb) return { text: 'MISSING', style: 'missing' };
+  // METAR-style group, e.g. "21010KT", "VRB05KT", "21010G18KT 180V240"
+  const variability = metar.variability && {
+    ...metar.variability,
+    from: metar.variability.from === null ? null : toReference(metar.variability.from),
+    to: metar.variability.to === null ? null : toReference(metar.variability.to),
+  };
+  const wdir = metar.wdir === null ? null : toReference(metar.wdir);
+  const text = formatWindGroup(wdir, metar.wspd, metar.wgst, variability);
+  if (metar.wgst !== null && metar.wgst > metar.wspd) return { text, style: 'gust' };
+  return { text, style: metar.variability ? 'variable' : 'normal' };
+}
+
+function formatForecastWind(
+  winds: NbmWind[] | undefined,
+  windsLoaded: boolean,
+  timestamp: number | null,
+  toReference: (deg: number) => number
+): WindDisplay {
+  if (!windsLoaded) return { text: '...', style: 'loading' };
+  const wind = winds?.find((w) => w.timestamp === timestamp);
+  if (!wind || wind.wspd === null) return { text: 'MISSING', style: 'missing' };
+  if (wind.wspd === 0) return { text: 'CALM', style: 'calm' };
+  if (wind.wdir === null) return { text: 'MISSING', style: 'missing' };
+  const text = formatWindGroup(toReference(wind.wdir), wind.wspd, wind.wgst);
+  return { text, style: wind.wgst !== null && wind.wgst > wind.wspd ? 'gust' : 'normal' };
 }
 
-export default function NearbyAirports({ icao, onSelect, showWind = true }: NearbyAirportsProps) {
+export default function NearbyAirports({
+  icao,
+  onSelect,
+  showWind = true,
+  headingReference = 'true',
+  forecastRange,
+  forecastTimestamp,
+}: NearbyAirportsProps) {
   const [nearby, setNearby] = useState<NearbyAirport[]>([]);
   const [metars, setMetars] = useState<Record<string, MetarData>>({});
   const [metarsLoadedIcao, setMetarsLoadedIcao] = useState<string | null>(null);
+  const [forecastWinds, setForecastWinds] = useState<Record<string, NbmWind[]>>({});
+  const [forecastWindsKey, setForecastWindsKey] = useState<string | null>(null);
   const [loadedIcao, setLoadedIcao] = useState<string | null>(null);
   const [expanded, setExpanded] = useState(false);
   const fetchIdRef = useRef(0);
 
   const metarsLoaded = metarsLoadedIcao === icao;
+  const showForecast = forecastRange !== undefined;
+  const forecastKey = `${icao}-${forecastRange}`;
+  const forecastWindsLoaded = forecastWindsKey === forecastKey;
+
+  // Each airport gets its own magnetic variation, computed once per airport list
+  const declinations = useMemo(
+    () =>
+      headingReference === 'magnetic'
+        ? new Map(nearby.map((a) => [a.icao, getMagneticDeclination(a.lat, a.lon)]))
+        : null,
+    [nearby, headingReference]
+  );
 
   useEffect(() => {
     const fetchId = ++fetchIdRef.current;
@@ -45,9 +95,23 @@ export default function NearbyAirports({ icao, onSelect, showWind = true }: Near
       setNearby(airports);
       setLoadedIcao(icao);
 
+      const icaos = airports.map((a) => a.icao);
+
+      // Forecast view: NBM winds for every forecast hour, so scrubbing needs no refetch
+      if (forecastRange !== undefined) {
+        if (icaos.length > 0) {
+          getNbmWindBatch(icaos, forecastRange).then((data) => {
+            if (fetchIdRef.current === fetchId) {
+              setForecastWinds(data);
+              setForecastWindsKey(`${icao}-${forecastRange}`);
+            }
+          });
+        }
+        return;
+      }
+
       // Fetch METARs for all nearby airports (only in observations view)
       if (showWind) {
-        const icaos = airports.map((a) => a.icao);
         if (icaos.length > 0) {
           getMetarBatch(icaos).then((data) => {
             if (fetchIdRef.current === fetchId) {
@@ -58,7 +122,7 @@ export default function NearbyAirports({ icao, onSelect, showWind = true }: Near
         }
       }
     });
-  }, [icao, showWind]);
+  }, [icao, showWind, forecastRange]);
 
   const loading = loadedIcao !== icao;
 
@@ -89,20 +153,37 @@ export default function NearbyAirports({ icao, onSelect, showWind = true }: Near
               <th className="py-2 px-3 text-left font-medium text-xs uppercase tracking-wider">ICAO</th>
               <th className="py-2 px-3 text-left font-medium text-xs uppercase tracking-wider">Name</th>
               <th className="py-2 px-3 text-right font-medium text-xs uppercase tracking-wider">Dist</th>
-              {showWind && <th className="py-2 px-3 text-right font-medium text-xs uppercase tracking-wider">Wind</th>}
+              {(showWind || showForecast) && (
+                <th className="py-2 px-3 text-right font-medium text-xs uppercase tracking-wider">
+                  {showForecast ? 'Fcst Wind' : 'Wind'}{headingReference === 'magnetic' && ' (mag)'}
+                </th>
+              )}
             </tr>
           </thead>
           <tbody>
             {displayedAirports.map((airport) => {
-              const wind = showWind ? formatWind(metars[airport.icao], metarsLoaded) : null;
+              const declination = declinations?.get(airport.icao) ?? 0;
+              const toReference = (deg: number) => convertHeading(deg, declination, headingReference);
+              const wind = showForecast
+                ? formatForecastWind(
+                    forecastWinds[airport.icao],
+                    forecastWindsLoaded,
+                    forecastTimestamp ?? null,
+                    toReference
+                  )
+                : showWind
+                  ? formatWind(metars[airport.icao], metarsLoaded, toReference)
+                  : null;
               const windColorClass = wind
                 ? wind.style === 'gust' ? 'text-amber-400' :
+                  wind.style === 'variable' ? 'text-amber-400' :
                   wind.style === 'missing' ? 'text-amber-400' :
                   wind.style === 'calm' ? 'text-[var(--text-tertiary)]' :
                   wind.style === 'loading' ? 'text-[var(--text-tertiary)]' :
                   'text-[var(--text-primary)]'
                 : '';
-              const showUnit = wind && (wind.style === 'normal' || wind.style === 'gust');
+              const decoded = showWind && !showForecast && metarsLoaded ? metars[airport.icao]?.decoded : null;
+              const summary = decoded ? formatMetarSummary(decoded) : '';
               return (
                 <tr
                   key={airport.icao}
@@ -112,16 +193,18 @@ export default function NearbyAirports({ icao, onSelect, showWind = true }: Near
                   <td className="py-2 px-3">
                     <span className="font-mono text-[#1d9bf0] font-bold">{airport.icao}</span>
                   </td>
-                  <td className="py-2 px-3 text-[var(--text-secondary)] truncate max-w-[200px]">
+                  <td className="py-2 px-3 text-[var(--text-secondary)] truncate max-w-[200px]" title={metars[airport.icao]?.rawOb}>
                     {airport.name}
+                    {summary && (
+                      <div className="text-[10px] font-mono text-[var(--text-tertiary)] truncate">{summary}</div>
+                    )}
                   </td>
                   <td className="py-2 px-3 text-right font-mono text-[var(--text-secondary)] tabular-nums">
                     {airport.distance}nm
                   </td>
                   {wind && (
-                    <td className="py-2 px-3 text-right font-mono tabular-nums">
+                    <td className="py-2 px-3 text-right font-mono tabular-nums whitespace-nowrap">
                       <span className={windColorClass}>{wind.text}</span>
-                      {showUnit && <span className="text-[var(--text-tertiary)]"> kt</span>}
                     </td>
                   )}
                 </tr>
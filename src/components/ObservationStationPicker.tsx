@@ -0,0 +1,73 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { getObservationStations } from '@/app/actions';
+import { ObservationStation } from '@/lib/types';
+import { describeStationOffset } from '@/lib/observation-stations';
+
+interface ObservationStationPickerProps {
+  icao: string;
+  value: string | null;                   // Chosen station ID, null for automatic
+  activeStation: ObservationStation | null; // Station the shown observations came from, when not the airport's own
+  onChange: (stationId: string | null) => void;
+}
+
+export default function ObservationStationPicker({
+  icao,
+  value,
+  activeStation,
+  onChange,
+}: ObservationStationPickerProps) {
+  const [stations, setStations] = useState<ObservationStation[]>([]);
+  const [loadedIcao, setLoadedIcao] = useState<string | null>(null);
+  const fetchIdRef = useRef(0);
+
+  useEffect(() => {
+    const fetchId = ++fetchIdRef.current;
+    getObservationStations(icao).then((result) => {
+      if (fetchIdRef.current !== fetchId) return;
+      setStations(result);
+      setLoadedIcao(icao);
+    });
+  }, [icao]);
+
+  const loaded = loadedIcao === icao;
+
+  return (
+    <>
+      <div className="flex items-center justify-center gap-2 mb-3">
+        <label htmlFor="observation-station" className="text-xs text-[var(--text-tertiary)] uppercase tracking-wider">
+          Station
+        </label>
+        <select
+          id="observation-station"
+          value={value ?? ''}
+          onChange={(e) => onChange(e.target.value || null)}
+          disabled={!loaded}
+          className="max-w-[280px] px-3 py-1.5 rounded-lg text-sm font-medium bg-[var(--bg-secondary)] text-[var(--text-secondary)] border-none outline-none cursor-pointer hover:bg-[var(--bg-tertiary)] disabled:opacity-50"
+        >
+          <option value="">Auto (nearest reporting)</option>
+          {stations.map((station) => (
+            <option key={station.id} value={station.id}>
+              {station.onField
+                ? `${station.id} · on field`
+                : `${station.id} · ${station.name} · ${describeStationOffset(station)}`}
+            </option>
+          ))}
+          {/* Keep a chosen station selectable while the list loads */}
+          {value !== null && !stations.some((s) => s.id === value) && <option value={value}>{value}</option>}
+        </select>
+      </div>
+
+      {activeStation && (
+        <div className="bg-amber-500/10 border border-amber-500/25 rounded-lg p-3 mb-4 text-center">
+          <p className="text-amber-400 text-sm">
+            Observations from {activeStation.name} ({activeStation.id}
+            {activeStation.network && `, ${activeStation.network}`}), {describeStationOffset(activeStation)}
+            {value === null && <> &mdash; {icao} has no reporting sensor of its own</>}
+          </p>
+        </div>
+      )}
+    </>
+  );
+}
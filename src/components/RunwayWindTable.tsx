@@ -1,14 +1,20 @@
 'use client';
 
 import { useMemo, useState } from 'react';
-import { WindDataPoint } from '@/lib/types';
+import { WindDataPoint, WindVariability } from '@/lib/types';
 import { Runway, MetarData } from '@/app/actions';
+import { DecodedMetar, formatVisibility } from '@/lib/metar-parser';
+import { getPossibleDirections, getWorstCaseComponents } from '@/lib/wind-variability';
+import { HeadingReference, formatHeading } from '@/lib/magnetic-variation';
+import { isSuspect } from '@/lib/observation-qc';
+import { AVERAGING_WINDOWS_MIN, GUST_WINDOW_MIN, averageWind } from '@/lib/wind-averaging';
 
 interface RunwayWindTableProps {
   observations: WindDataPoint[];
   runways: Runway[]; // Pre-filtered by surface type in parent
   metar: MetarData | null;
   now: number; // Current timestamp for staleness checks
+  headingReference?: HeadingReference; // Reference the wind and runway headings are already in
 }
 
 interface RunwayWindComponent {
@@ -24,78 +30,49 @@ interface RunwayWindComponent {
   width: number;
 }
 
-function calculateWindComponents(
-  windDir: number,
-  windSpd: number,
-  runwayHdg: number
-): { headwind: number; crosswind: number; crosswindDir: 'L' | 'R' | '' } {
-  const relativeAngle = ((windDir - runwayHdg + 360) % 360) * (Math.PI / 180);
-  const headwind = Math.round(windSpd * Math.cos(relativeAngle));
-  const crosswindRaw = windSpd * Math.sin(relativeAngle);
-  const crosswind = Math.round(Math.abs(crosswindRaw));
-  let crosswindDir: 'L' | 'R' | '' = '';
-  if (crosswind > 0) {
-    crosswindDir = crosswindRaw > 0 ? 'R' : 'L';
-  }
-  return { headwind, crosswind, crosswindDir };
-}
-
 function computeWindComponents(
   windDir: number | null,
   windSpd: number | null,
   gustSpd: number | null,
-  runways: Runway[]
+  runways: Runway[],
+  variability: WindVariability | null = null
 ): { components: RunwayWindComponent[]; hasGusts: boolean } {
-  if (windDir === null || windSpd === null || !runways.length) {
+  // Variable winds are evaluated across every direction in the sector (or the full circle for VRB)
+  const directions = getPossibleDirections(windDir, variability);
+  if (!directions.length || windSpd === null || !runways.length) {
     return { components: [], hasGusts: false };
   }
 
   const hasGusts = gustSpd !== null && gustSpd > windSpd;
   const results: RunwayWindComponent[] = [];
 
-  for (const runway of runways) {
-    // Low end
-    const lowHdg = runway.trueHdg;
-    const lowComponents = calculateWindComponents(windDir, windSpd, lowHdg);
-    const lowGustComponents = hasGusts
-      ? calculateWindComponents(windDir, gustSpd!, lowHdg)
-      : null;
-    results.push({
-      runway: runway.low,
-      headwind: lowComponents.headwind,
-      crosswind: lowComponents.crosswind,
-      crosswindDir: lowComponents.crosswindDir,
-      gustHeadwind: lowGustComponents?.headwind ?? null,
-      gustCrosswind: lowGustComponents?.crosswind ?? null,
-      gustCrosswindDir: lowGustComponents?.crosswindDir ?? '',
-      isFavored: false,
-      lda: runway.lowLda ?? runway.length,
-      width: runway.width,
-    });
+  const ends = runways.flatMap((runway) => [
+    { runway, name: runway.low, hdg: runway.trueHdg, lda: runway.lowLda ?? runway.length },
+    { runway, name: runway.high, hdg: (runway.trueHdg + 180) % 360, lda: runway.highLda ?? runway.length },
+  ]);
 
-    // High end
-    const highHdg = (runway.trueHdg + 180) % 360;
-    const highComponents = calculateWindComponents(windDir, windSpd, highHdg);
-    const highGustComponents = hasGusts
-      ? calculateWindComponents(windDir, gustSpd!, highHdg)
+  for (const end of ends) {
+    const components = getWorstCaseComponents(directions, windSpd, end.hdg)!;
+    const gustComponents = hasGusts
+      ? getWorstCaseComponents(directions, gustSpd!, end.hdg)
       : null;
-
     results.push({
-      runway: runway.high,
-      headwind: highComponents.headwind,
-      crosswind: highComponents.crosswind,
-      crosswindDir: highComponents.crosswindDir,
-      gustHeadwind: highGustComponents?.headwind ?? null,
-      gustCrosswind: highGustComponents?.crosswind ?? null,
-      gustCrosswindDir: highGustComponents?.crosswindDir ?? '',
+      runway: end.name,
+      headwind: components.headwind,
+      crosswind: components.crosswind,
+      crosswindDir: components.crosswindDir,
+      gustHeadwind: gustComponents?.headwind ?? null,
+      gustCrosswind: gustComponents?.crosswind ?? null,
+      gustCrosswindDir: gustComponents?.crosswindDir ?? '',
       isFavored: false,
-      lda: runway.highLda ?? runway.length,
-      width: runway.width,
+      lda: end.lda,
+      width: end.runway.width,
     });
   }
 
   // Find favored runway (guard against NaN headwind values causing empty filter result)
-  if (results.length > 0) {
+  // VRB without a sector favors no runway: every end sees the same worst case
+  if (results.length > 0 && directions.length < 360) {
     const maxHeadwind = Math.max(...results.map((r) => r.headwind));
     const favoredCandidates = results.filter((r) => r.headwind === maxHeadwind);
     if (favoredCandidates.length > 0) {
@@ -111,19 +88,108 @@ function computeWindComponents(
   return { components: results, hasGusts };
 }
 
+// Describe the directions a variable wind was evaluated over
+function formatVariabilitySector(variability: WindVariability, reference: HeadingReference): string {
+  if (variability.from !== null && variability.to !== null) {
+    return `${formatHeading(variability.from, reference)}–${formatHeading(variability.to, reference)} sector`;
+  }
+  return 'all directions (VRB)';
+}
+
+// Wind as a pilot hears it, in the selected heading reference: "Wind 226°M at 10 gust 18 kt"
+function formatSourceWind(
+  wdir: number | null,
+  wspd: number | null,
+  wgst: number | null,
+  reference: HeadingReference
+): string {
+  if (wspd === null) return '';
+  const dir = wdir === null ? 'variable' : formatHeading(wdir, reference);
+  const gust = wgst !== null && wgst > wspd ? ` gust ${wgst}` : '';
+  return `Wind ${dir} at ${wspd}${gust} kt`;
+}
+
+// Decoded METAR fields shown under the table when METAR is the wind source
+function getDecodedMetarRows(decoded: DecodedMetar): { label: string; value: string }[] {
+  const rows: { label: string; value: string }[] = [];
+  if (decoded.wind?.variableFrom !== null && decoded.wind?.variableFrom !== undefined) {
+    rows.push({
+      label: 'Variable',
+      value: `${String(decoded.wind.variableFrom).padStart(3, '0')}°–${String(decoded.wind.variableTo).padStart(3, '0')}°`,
+    });
+  }
+  if (decoded.visibility) {
+    rows.push({ label: 'Visibility', value: formatVisibility(decoded.visibility) });
+  }
+  if (decoded.rvr.length) {
+    rows.push({
+      label: 'RVR',
+      value: decoded.rvr
+        .map((r) => `${r.runway} ${r.lowQualifier === 'M' ? '<' : r.lowQualifier === 'P' ? '>' : ''}${r.lowFeet}${r.highFeet !== null ? `–${r.highFeet}` : ''}ft`)
+        .join(', '),
+    });
+  }
+  if (decoded.weather.length) {
+    rows.push({ label: 'Weather', value: decoded.weather.map((w) => w.raw).join(' ') });
+  }
+  if (decoded.clouds.length || decoded.skyClear) {
+    rows.push({
+      label: 'Clouds',
+      value: decoded.clouds.length
+        ? decoded.clouds
+            .map((c) => `${c.cover} ${c.baseFeet !== null ? c.baseFeet.toLocaleString() : '///'}${c.type ? ` ${c.type}` : ''}`)
+            .join(', ')
+        : decoded.cavok ? 'CAVOK' : 'Clear',
+    });
+  }
+  if (decoded.temperature !== null) {
+    rows.push({
+      label: 'Temp / Dew',
+      value: `${decoded.temperature}°C / ${decoded.dewpoint !== null ? `${decoded.dewpoint}°C` : '—'}`,
+    });
+  }
+  if (decoded.altimeterInHg !== null) {
+    rows.push({ label: 'Altimeter', value: `${decoded.altimeterInHg.toFixed(2)} inHg` });
+  }
+  const remarks = decoded.remarks;
+  if (remarks?.peakWind) {
+    const pk = remarks.peakWind;
+    const time = pk.hour !== null
+      ? `${String(pk.hour).padStart(2, '0')}${String(pk.minute).padStart(2, '0')}Z`
+      : `:${String(pk.minute).padStart(2, '0')}`;
+    rows.push({ label: 'Peak wind', value: `${String(pk.direction).padStart(3, '0')}° ${pk.speed} kt at ${time}` });
+  }
+  if (remarks?.windShift) {
+    const ws = remarks.windShift;
+    const time = ws.hour !== null
+      ? `${String(ws.hour).padStart(2, '0')}${String(ws.minute).padStart(2, '0')}Z`
+      : `:${String(ws.minute).padStart(2, '0')}`;
+    rows.push({ label: 'Wind shift', value: `${time}${ws.frontalPassage ? ' (frontal passage)' : ''}` });
+  }
+  if (remarks?.stationType) {
+    rows.push({
+      label: 'Sensor',
+      value: `${remarks.stationType === 'AO2' ? 'AO2 (precip discriminator)' : 'AO1 (no precip discriminator)'}${remarks.maintenanceRequired ? ' · maintenance $' : ''}`,
+    });
+  }
+  return rows;
+}
+
 export default function RunwayWindTable({
   observations,
   runways,
   metar,
   now,
+  headingReference = 'true',
 }: RunwayWindTableProps) {
-  const [source, setSource] = useState<'5min' | 'metar'>('5min');
+  const [source, setSource] = useState<'5min' | 'smoothed' | 'metar'>('5min');
+  const [windowMinutes, setWindowMinutes] = useState(AVERAGING_WINDOWS_MIN[1]);
 
-  // Get wind data from 5-min observations
+  // Get wind data from the latest 5-min observation that passed QC
   const synopticWind = useMemo(() => {
     const recentObs = [...observations]
       .reverse()
-      .find((o) => o.wdir !== null && o.wspd !== null);
+      .find((o) => o.wdir !== null && o.wspd !== null && !isSuspect(o));
     if (!recentObs) return null;
     return {
       wdir: recentObs.wdir,
@@ -133,6 +199,12 @@ export default function RunwayWindTable({
     };
   }, [observations]);
 
+  // Vector-averaged wind over the selected window
+  const smoothedWind = useMemo(
+    () => averageWind(observations, windowMinutes),
+    [observations, windowMinutes]
+  );
+
   // Check if METAR is stale (>70 minutes old)
   const { isMetarStale, metarStaleMinutes } = useMemo(() => {
     const staleThresholdMs = 70 * 60 * 1000;
@@ -146,21 +218,23 @@ export default function RunwayWindTable({
   }, [metar, now]);
 
   // Compute wind components based on selected source
-  const { windComponents, hasGusts, sourceInfo } = useMemo(() => {
+  const { windComponents, hasGusts, sourceInfo, sourceWind } = useMemo(() => {
     if (source === 'metar') {
       if (!metar) {
-        return { windComponents: [], hasGusts: false, sourceInfo: '' };
+        return { windComponents: [], hasGusts: false, sourceInfo: '', sourceWind: '' };
       }
       const { components, hasGusts } = computeWindComponents(
         metar.wdir,
         metar.wspd,
         metar.wgst,
-        runways
+        runways,
+        metar.variability
       );
       return {
         windComponents: components,
         hasGusts,
         sourceInfo: metar.rawOb || 'METAR',
+        sourceWind: formatSourceWind(metar.wdir, metar.wspd, metar.wgst, headingReference),
       };
     } else if (source === '5min' && synopticWind) {
       const { components, hasGusts } = computeWindComponents(
@@ -173,10 +247,30 @@ export default function RunwayWindTable({
         windComponents: components,
         hasGusts,
         sourceInfo: `Last observation: ${synopticWind.time} local`,
+        sourceWind: formatSourceWind(synopticWind.wdir, synopticWind.wspd, synopticWind.wgst, headingReference),
+      };
+    } else if (source === 'smoothed' && smoothedWind) {
+      const { components, hasGusts } = computeWindComponents(
+        smoothedWind.wdir,
+        smoothedWind.wspd,
+        smoothedWind.wgst,
+        runways
+      );
+      const spread = smoothedWind.directionSpread ? ` · direction ±${smoothedWind.directionSpread}°` : '';
+      return {
+        windComponents: components,
+        hasGusts,
+        sourceInfo: `${windowMinutes}-min average of ${smoothedWind.count} observation${smoothedWind.count === 1 ? '' : 's'}${spread} · ${GUST_WINDOW_MIN}-min peak gust`,
+        sourceWind: formatSourceWind(smoothedWind.wdir, smoothedWind.wspd, smoothedWind.wgst, headingReference),
       };
     }
-    return { windComponents: [], hasGusts: false, sourceInfo: '' };
-  }, [source, metar, synopticWind, runways]);
+    return { windComponents: [], hasGusts: false, sourceInfo: '', sourceWind: '' };
+  }, [source, metar, synopticWind, smoothedWind, windowMinutes, runways, headingReference]);
+
+  const decodedMetarRows = useMemo(
+    () => (metar?.decoded ? getDecodedMetarRows(metar.decoded) : []),
+    [metar]
+  );
 
   if (!runways.length) return null;
   if (source === '5min' && !synopticWind) return null;
@@ -196,6 +290,16 @@ export default function RunwayWindTable({
           >
             5-min
           </button>
+          <button
+            onClick={() => setSource('smoothed')}
+            className={`px-2 py-1 rounded transition-colors ${
+              source === 'smoothed'
+                ? 'bg-[#1d9bf0] text-white'
+                : 'bg-[var(--bg-tertiary)] text-[var(--text-secondary)] hover:bg-[var(--bg-hover)]'
+            }`}
+          >
+            Smoothed
+          </button>
           <button
             onClick={() => setSource('metar')}
             className={`px-2 py-1 rounded transition-colors ${
@@ -209,6 +313,25 @@ export default function RunwayWindTable({
         </div>
       </div>
 
+      {/* Averaging window for the smoothed source */}
+      {source === 'smoothed' && (
+        <div className="flex justify-end gap-1 text-xs mb-3">
+          {AVERAGING_WINDOWS_MIN.map((minutes) => (
+            <button
+              key={minutes}
+              onClick={() => setWindowMinutes(minutes)}
+              className={`px-2 py-0.5 rounded transition-colors ${
+                windowMinutes === minutes
+                  ? 'bg-[var(--bg-hover)] text-[var(--text-primary)]'
+                  : 'text-[var(--text-tertiary)] hover:text-[var(--text-secondary)]'
+              }`}
+            >
+              {minutes} min
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Stale METAR warning */}
       {source === 'metar' && isMetarStale && metar && (
         <div className="bg-amber-500/10 border border-amber-500/25 rounded-lg p-2 mb-3 text-center">
@@ -295,10 +418,28 @@ export default function RunwayWindTable({
             <p className={`${source === 'metar' ? 'font-mono break-all' : ''}`}>
               {sourceInfo}
             </p>
+            {sourceWind && <p className="mt-1">{sourceWind}</p>}
             {hasGusts && <p className="mt-1">Gust values in parentheses</p>}
+            {source === 'metar' && metar?.variability && (
+              <p className="mt-1 text-amber-400/80">
+                Worst case across {formatVariabilitySector(metar.variability, headingReference)}
+              </p>
+            )}
           </div>
         </>
       )}
+
+      {/* Decoded METAR fields */}
+      {source === 'metar' && decodedMetarRows.length > 0 && (
+        <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-xs mt-3 pt-3 border-t border-[var(--border-color)]">
+          {decodedMetarRows.map((row) => (
+            <div key={row.label} className="contents">
+              <dt className="text-[var(--text-tertiary)]">{row.label}</dt>
+              <dd className="font-mono text-[var(--text-secondary)] text-right">{row.value}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
     </div>
   );
 }
@@ -1,6 +1,8 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import { HeadingReference } from '@/lib/magnetic-variation';
+import { DEFAULT_TREND_THRESHOLD_KT } from '@/lib/forecast-trend';
 
 // Common runway surface types
 const SURFACE_TYPES = [
@@ -17,12 +19,19 @@ const SURFACE_TYPES = [
 // Surfaces that match "paved" category
 const PAVED_SURFACES = ['ASPH', 'CONC', 'ASPH-CONC', 'ASPH-TRTD', 'PEM'];
 
+// Choices for flagging forecast changes between NBM runs
+const TREND_THRESHOLD_OPTIONS = [3, 5, 10];
+
 export interface Settings {
   allowedSurfaces: string[];
+  headingReference: HeadingReference;
+  trendThresholdKt: number;
 }
 
 const DEFAULT_SETTINGS: Settings = {
   allowedSurfaces: PAVED_SURFACES, // Default to paved runways only
+  headingReference: 'true', // NASR, METAR and NBM headings are true
+  trendThresholdKt: DEFAULT_TREND_THRESHOLD_KT,
 };
 
 interface SettingsModalProps {
@@ -56,9 +65,13 @@ export function saveSettings(settings: Settings): void {
 
 export default function SettingsModal({ isOpen, onClose, settings, onSave }: SettingsModalProps) {
   const [allowedSurfaces, setAllowedSurfaces] = useState<string[]>(settings.allowedSurfaces);
+  const [headingReference, setHeadingReference] = useState<HeadingReference>(settings.headingReference);
+  const [trendThresholdKt, setTrendThresholdKt] = useState(settings.trendThresholdKt);
 
   useEffect(() => {
     setAllowedSurfaces(settings.allowedSurfaces);
+    setHeadingReference(settings.headingReference);
+    setTrendThresholdKt(settings.trendThresholdKt);
   }, [settings]);
 
   if (!isOpen) return null;
@@ -80,7 +93,7 @@ export default function SettingsModal({ isOpen, onClose, settings, onSave }: Set
   };
 
   const handleSave = () => {
-    const newSettings: Settings = { allowedSurfaces };
+    const newSettings: Settings = { allowedSurfaces, headingReference, trendThresholdKt };
     saveSettings(newSettings);
     onSave(newSettings);
     onClose();
@@ -102,6 +115,51 @@ export default function SettingsModal({ isOpen, onClose, settings, onSave }: Set
         </div>
 
         <div className="p-5 overflow-y-auto max-h-[60vh]">
+          <div className="mb-6">
+            <h3 className="text-sm font-medium text-[var(--text-primary)] mb-1.5">Headings</h3>
+            <p className="text-xs text-[var(--text-tertiary)] mb-4">
+              Show runway and wind directions as true (NASR, METAR, forecasts) or magnetic (ATIS, tower).
+              Magnetic variation comes from the World Magnetic Model at each airport.
+            </p>
+            <div className="flex gap-2">
+              {(['true', 'magnetic'] as const).map((reference) => (
+                <button
+                  key={reference}
+                  onClick={() => setHeadingReference(reference)}
+                  className={`text-xs px-3 py-1.5 rounded-lg border transition-all font-medium ${
+                    headingReference === reference
+                      ? 'bg-[#1d9bf0] border-[#1d9bf0] text-white'
+                      : 'bg-[var(--bg-primary)] border-[var(--border-color)] hover:border-[var(--border-color-strong)] text-[var(--text-secondary)]'
+                  }`}
+                >
+                  {reference === 'true' ? 'True' : 'Magnetic'}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="mb-6">
+            <h3 className="text-sm font-medium text-[var(--text-primary)] mb-1.5">Forecast Trend</h3>
+            <p className="text-xs text-[var(--text-tertiary)] mb-4">
+              Flag forecast hours where wind or gusts changed by at least this much since the previous NBM run.
+            </p>
+            <div className="flex gap-2">
+              {TREND_THRESHOLD_OPTIONS.map((threshold) => (
+                <button
+                  key={threshold}
+                  onClick={() => setTrendThresholdKt(threshold)}
+                  className={`text-xs px-3 py-1.5 rounded-lg border transition-all font-medium ${
+                    trendThresholdKt === threshold
+                      ? 'bg-[#1d9bf0] border-[#1d9bf0] text-white'
+                      : 'bg-[var(--bg-primary)] border-[var(--border-color)] hover:border-[var(--border-color-strong)] text-[var(--text-secondary)]'
+                  }`}
+                >
+                  {threshold} kt
+                </button>
+              ))}
+            </div>
+          </div>
+
           <div className="mb-4">
             <h3 className="text-sm font-medium text-[var(--text-primary)] mb-1.5">Runway Surface Types</h3>
             <p className="text-xs text-[var(--text-tertiary)] mb-4">
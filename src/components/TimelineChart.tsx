@@ -0,0 +1,270 @@
+'use client';
+
+import { useMemo } from 'react';
+import { Line } from 'react-chartjs-2';
+import {
+  Chart as ChartJS,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Filler,
+  ChartOptions,
+  Plugin,
+} from 'chart.js';
+import { ForecastDataPoint, WindDataPoint } from '@/lib/types';
+import { useHorizontalSwipeLock } from '@/lib/useHorizontalSwipeLock';
+import { HeadingReference, formatHeading } from '@/lib/magnetic-variation';
+
+ChartJS.register(
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Filler
+);
+
+interface TimelineChartProps {
+  observations: WindDataPoint[];
+  forecasts: ForecastDataPoint[];
+  timezone?: string;       // Airport time zone for axis labels
+  now: number;             // Current time (ms) for the "now" marker
+  sourceLabel?: string;    // Shown in the title when observations are not the usual 5-minute data
+  headingReference?: HeadingReference;
+}
+
+// Format direction as cardinal
+const formatDirection = (deg: number | null): string => {
+  if (deg === null) return '—';
+  const dirs = ['N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE', 'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW'];
+  return dirs[Math.round(deg / 22.5) % 16];
+};
+
+// Chart points on a time axis (Unix seconds); null values are left out
+const toPoints = (items: { timestamp: number }[], values: (number | null)[]) =>
+  items.flatMap((item, i) => (values[i] !== null ? [{ x: item.timestamp, y: values[i] as number }] : []));
+
+export default function TimelineChart({
+  observations,
+  forecasts,
+  timezone,
+  now,
+  sourceLabel,
+  headingReference = 'true',
+}: TimelineChartProps) {
+  const chartContainerRef = useHorizontalSwipeLock<HTMLDivElement>();
+  const nowSec = now / 1000;
+
+  // Forecast hours after the last observation; the forecast line starts from that
+  // observation so the two series join up
+  const lastObservation = observations.length ? observations[observations.length - 1] : null;
+  const upcoming = useMemo(
+    () => forecasts.filter((f) => !lastObservation || f.timestamp > lastObservation.timestamp),
+    [forecasts, lastObservation]
+  );
+  const anchor = lastObservation?.wspd !== null && lastObservation?.wspd !== undefined
+    ? [{ x: lastObservation.timestamp, y: lastObservation.wspd }]
+    : [];
+
+  // Display time and direction for each point, by timestamp
+  const pointInfo = useMemo(() => {
+    const info = new Map<number, { time: string; wdir: number | null; isForecast: boolean }>();
+    observations.forEach((o) => info.set(o.timestamp, { time: o.time, wdir: o.wdir, isForecast: false }));
+    upcoming.forEach((f) => info.set(f.timestamp, { time: f.time, wdir: f.wdir, isForecast: true }));
+    return info;
+  }, [observations, upcoming]);
+
+  const firstTimestamp = observations[0]?.timestamp ?? upcoming[0]?.timestamp ?? nowSec;
+  const lastTimestamp = upcoming[upcoming.length - 1]?.timestamp ?? lastObservation?.timestamp ?? nowSec;
+  const spansDays = lastTimestamp - firstTimestamp > 36 * 3600;
+
+  // Custom plugin for the vertical "now" marker between observed and forecast winds
+  const nowLinePlugin: Plugin<'line'> = useMemo(() => ({
+    id: 'nowLine',
+    afterDatasetsDraw: (chart) => {
+      const xScale = chart.scales.x;
+      if (nowSec < xScale.min || nowSec > xScale.max) return;
+      const x = xScale.getPixelForValue(nowSec);
+      const topY = chart.scales.y.top;
+      const bottomY = chart.scales.y.bottom;
+
+      const ctx = chart.ctx;
+      ctx.save();
+      ctx.beginPath();
+      ctx.moveTo(x, topY);
+      ctx.lineTo(x, bottomY);
+      ctx.lineWidth = 1.5;
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.6)';
+      ctx.setLineDash([4, 3]);
+      ctx.stroke();
+      ctx.setLineDash([]);
+      ctx.font = 'bold 10px -apple-system, BlinkMacSystemFont, sans-serif';
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.8)';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'bottom';
+      ctx.fillText('Now', x, topY - 2);
+      ctx.restore();
+    },
+  }), [nowSec]);
+
+  const data = {
+    datasets: [
+      {
+        label: 'Wind',
+        data: toPoints(observations, observations.map((o) => o.wspd)),
+        borderColor: '#1d9bf0',
+        backgroundColor: 'rgba(29, 155, 240, 0.15)',
+        fill: true,
+        tension: 0.3,
+        pointRadius: 0,
+        pointHoverRadius: 6,
+        borderWidth: 2.5,
+      },
+      {
+        label: 'Gusts',
+        data: toPoints(observations, observations.map((o) => o.wgst)),
+        borderColor: '#f91880',
+        backgroundColor: '#f91880',
+        showLine: false,
+        pointRadius: 4,
+      },
+      {
+        label: 'Forecast Wind',
+        data: [...anchor, ...toPoints(upcoming, upcoming.map((f) => f.wspd))],
+        borderColor: '#10b981',
+        backgroundColor: 'rgba(16, 185, 129, 0.12)',
+        fill: true,
+        tension: 0.3,
+        pointRadius: [...anchor.map(() => 0), ...upcoming.filter((f) => f.wspd !== null).map(() => 3)],
+        pointHoverRadius: 6,
+        borderWidth: 2.5,
+      },
+      {
+        label: 'Forecast Gusts',
+        data: toPoints(upcoming, upcoming.map((f) => f.wgst)),
+        borderColor: '#f59e0b',
+        backgroundColor: 'transparent',
+        borderDash: [5, 5],
+        tension: 0.3,
+        pointRadius: 3,
+        pointBackgroundColor: '#f59e0b',
+        borderWidth: 2,
+      },
+    ],
+  };
+
+  const formatTick = (timestamp: number): string => {
+    const date = new Date(timestamp * 1000);
+    return spansDays
+      ? date.toLocaleDateString('en-US', { weekday: 'short', hour: 'numeric', hour12: true, timeZone: timezone })
+      : date.toLocaleTimeString('en-US', { hour: 'numeric', hour12: true, timeZone: timezone });
+  };
+
+  const options: ChartOptions<'line'> = {
+    responsive: true,
+    maintainAspectRatio: false,
+    animation: false,
+    layout: {
+      padding: { top: 14 }, // Room for the "Now" label
+    },
+    interaction: {
+      mode: 'nearest',
+      axis: 'x',
+      intersect: false,
+    },
+    plugins: {
+      legend: { display: false },
+      tooltip: {
+        enabled: true,
+        backgroundColor: 'rgba(25, 39, 52, 0.95)',
+        titleColor: '#fff',
+        titleFont: { size: 13, weight: 'bold' },
+        bodyColor: '#e7e9ea',
+        bodyFont: { size: 12 },
+        borderColor: '#38444d',
+        borderWidth: 1,
+        padding: 12,
+        cornerRadius: 8,
+        displayColors: true,
+        boxWidth: 10,
+        boxHeight: 10,
+        boxPadding: 4,
+        usePointStyle: true,
+        callbacks: {
+          title: (items) => {
+            if (!items.length) return '';
+            const info = pointInfo.get(items[0].parsed.x as number);
+            if (!info) return formatTick(items[0].parsed.x as number);
+            const dirStr = info.wdir !== null
+              ? `${formatHeading(info.wdir, headingReference)} (${formatDirection(info.wdir)})`
+              : '—';
+            return [`${info.time}${info.isForecast ? ' (forecast)' : ''}`, `Direction: ${dirStr}`];
+          },
+          label: (context) => {
+            const value = context.parsed.y;
+            if (value === null) return '';
+            return ` ${context.dataset.label}: ${Math.round(value)} kt`;
+          },
+        },
+      },
+    },
+    scales: {
+      x: {
+        type: 'linear',
+        min: firstTimestamp,
+        max: lastTimestamp,
+        ticks: {
+          color: '#8899a6',
+          font: { size: 10 },
+          maxRotation: 0,
+          maxTicksLimit: 8,
+          callback: (value) => formatTick(Number(value)),
+        },
+        grid: { color: 'rgba(255, 255, 255, 0.06)' },
+      },
+      y: {
+        beginAtZero: true,
+        ticks: {
+          color: '#8899a6',
+          font: { size: 10 },
+          callback: (value) => `${value}kt`,
+        },
+        grid: { color: 'rgba(255, 255, 255, 0.06)' },
+      },
+    },
+  };
+
+  return (
+    <div className="chart-section w-full overflow-hidden h-full">
+      <div className="chart-title">
+        Observed &amp; Forecast Wind
+        {sourceLabel && (
+          <span className="text-[var(--text-tertiary)] font-normal"> &middot; {sourceLabel}</span>
+        )}
+      </div>
+      <div ref={chartContainerRef} className="relative h-[180px] lg:h-[280px] w-full">
+        <Line data={data} options={options} plugins={[nowLinePlugin]} />
+      </div>
+      <div className="legend">
+        <div className="legend-item">
+          <div className="legend-dot" style={{ backgroundColor: '#1d9bf0' }}></div>
+          Observed Wind
+        </div>
+        <div className="legend-item">
+          <div className="legend-dot" style={{ backgroundColor: '#f91880' }}></div>
+          Observed Gusts
+        </div>
+        <div className="legend-item">
+          <div className="legend-dot" style={{ backgroundColor: '#10b981' }}></div>
+          Forecast Wind
+        </div>
+        <div className="legend-item">
+          <div className="legend-dot" style={{ backgroundColor: '#f59e0b' }}></div>
+          Forecast Gusts
+        </div>
+      </div>
+    </div>
+  );
+}
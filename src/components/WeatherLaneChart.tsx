@@ -0,0 +1,181 @@
+'use client';
+
+import { Line } from 'react-chartjs-2';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+  Filler,
+  ChartOptions,
+} from 'chart.js';
+import { WindDataPoint } from '@/lib/types';
+import { useHorizontalSwipeLock } from '@/lib/useHorizontalSwipeLock';
+
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Tooltip, Filler);
+
+interface WeatherLaneChartProps {
+  observations: WindDataPoint[];
+}
+
+// True when the observations carry enough station variables to draw the lane
+export function hasWeatherLane(observations: WindDataPoint[]): boolean {
+  return observations.some(
+    (o) => (o.temp !== null && o.temp !== undefined) || (o.altimeter !== null && o.altimeter !== undefined)
+  );
+}
+
+const formatVisibility = (miles: number) => (miles >= 10 ? '10+ SM' : `${miles} SM`);
+
+// Temperature/dewpoint spread and altimeter trend under the wind charts
+export default function WeatherLaneChart({ observations }: WeatherLaneChartProps) {
+  const chartContainerRef = useHorizontalSwipeLock<HTMLDivElement>();
+  const temps = observations.map((o) => o.temp ?? null);
+  const dewpoints = observations.map((o) => o.dewpoint ?? null);
+  const altimeters = observations.map((o) => o.altimeter ?? null);
+  const hasAltimeter = altimeters.some((a) => a !== null);
+
+  const data = {
+    labels: observations.map((o) => o.time),
+    datasets: [
+      {
+        label: 'Temp',
+        data: temps,
+        borderColor: '#f97316',
+        backgroundColor: 'rgba(249, 115, 22, 0.12)',
+        fill: '+1',
+        tension: 0.3,
+        pointRadius: 0,
+        pointHoverRadius: 5,
+        borderWidth: 2,
+        spanGaps: true,
+        yAxisID: 'y',
+      },
+      {
+        label: 'Dewpoint',
+        data: dewpoints,
+        borderColor: '#10b981',
+        backgroundColor: 'transparent',
+        fill: false,
+        tension: 0.3,
+        pointRadius: 0,
+        pointHoverRadius: 5,
+        borderWidth: 2,
+        spanGaps: true,
+        yAxisID: 'y',
+      },
+      ...(hasAltimeter
+        ? [
+            {
+              label: 'Altimeter',
+              data: altimeters,
+              borderColor: '#a78bfa',
+              backgroundColor: 'transparent',
+              fill: false,
+              borderDash: [5, 5],
+              tension: 0.3,
+              pointRadius: 0,
+              pointHoverRadius: 5,
+              borderWidth: 1.5,
+              spanGaps: true,
+              yAxisID: 'altimeter',
+            },
+          ]
+        : []),
+    ],
+  };
+
+  const options: ChartOptions<'line'> = {
+    responsive: true,
+    maintainAspectRatio: false,
+    animation: false,
+    interaction: { mode: 'index', intersect: false },
+    plugins: {
+      legend: { display: false },
+      tooltip: {
+        backgroundColor: 'rgba(25, 39, 52, 0.95)',
+        titleColor: '#fff',
+        bodyColor: '#e7e9ea',
+        borderColor: '#38444d',
+        borderWidth: 1,
+        padding: 12,
+        cornerRadius: 8,
+        boxWidth: 10,
+        boxHeight: 10,
+        boxPadding: 4,
+        usePointStyle: true,
+        callbacks: {
+          label: (context) => {
+            const value = context.parsed.y;
+            if (value === null) return '';
+            return context.dataset.label === 'Altimeter'
+              ? ` Altimeter: ${value.toFixed(2)} inHg`
+              : ` ${context.dataset.label}: ${Math.round(value)}°F`;
+          },
+          afterBody: (items) => {
+            if (!items.length) return [];
+            const o = observations[items[0].dataIndex];
+            const lines: string[] = [];
+            if (o.temp !== null && o.temp !== undefined && o.dewpoint !== null && o.dewpoint !== undefined) {
+              lines.push(`Spread: ${Math.round(o.temp - o.dewpoint)}°F`);
+            }
+            if (o.pressureTendency !== null && o.pressureTendency !== undefined) {
+              const sign = o.pressureTendency > 0 ? '+' : '';
+              lines.push(`3h tendency: ${sign}${o.pressureTendency.toFixed(1)} hPa`);
+            }
+            if (o.visibility !== null && o.visibility !== undefined) {
+              lines.push(`Visibility: ${formatVisibility(o.visibility)}`);
+            }
+            if (o.ceiling !== undefined) {
+              lines.push(`Ceiling: ${o.ceiling === null ? 'none' : `${o.ceiling.toLocaleString()} ft`}`);
+            }
+            return lines;
+          },
+        },
+      },
+    },
+    scales: {
+      x: {
+        ticks: { color: '#8899a6', font: { size: 10 }, maxRotation: 0, maxTicksLimit: 8 },
+        grid: { color: 'rgba(255, 255, 255, 0.06)' },
+      },
+      y: {
+        ticks: { color: '#8899a6', font: { size: 10 }, callback: (value) => `${value}°` },
+        grid: { color: 'rgba(255, 255, 255, 0.06)' },
+      },
+      altimeter: {
+        display: hasAltimeter,
+        position: 'right',
+        ticks: { color: '#a78bfa', font: { size: 10 }, callback: (value) => Number(value).toFixed(2) },
+        grid: { drawOnChartArea: false },
+      },
+    },
+  };
+
+  return (
+    <div className="chart-section w-full overflow-hidden mt-4">
+      <div className="chart-title">Temperature &amp; Pressure</div>
+      <div ref={chartContainerRef} className="relative h-[150px] lg:h-[200px] w-full">
+        <Line data={data} options={options} />
+      </div>
+      <div className="legend">
+        <div className="legend-item">
+          <div className="legend-dot" style={{ backgroundColor: '#f97316' }}></div>
+          Temp
+        </div>
+        <div className="legend-item">
+          <div className="legend-dot" style={{ backgroundColor: '#10b981' }}></div>
+          Dewpoint
+        </div>
+        {hasAltimeter && (
+          <div className="legend-item">
+            <div className="legend-dot" style={{ backgroundColor: '#a78bfa' }}></div>
+            Altimeter
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
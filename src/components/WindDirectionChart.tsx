@@ -1,12 +1,21 @@
 'use client';
 
 import { useRef, useEffect, useCallback, useState } from 'react';
-import { WindDataPoint } from '@/lib/types';
-import { Runway } from '@/app/actions';
+import { ForecastDataPoint, QcFlag, WindDataPoint } from '@/lib/types';
+import { Runway, MetarData } from '@/app/actions';
+import { HeadingReference, formatHeading } from '@/lib/magnetic-variation';
+import { RUNWAY_COLORS, groupRunways } from '@/lib/runway-groups';
+import { formatQcFlags, isSuspect } from '@/lib/observation-qc';
 
 interface WindDirectionChartProps {
   observations: WindDataPoint[];
   runways: Runway[];
+  metar?: MetarData | null; // Latest METAR, drawn as a sector when the wind is variable
+  forecasts?: ForecastDataPoint[]; // Upcoming forecast hours, drawn as hollow rings
+  trace?: WindDataPoint[]; // Time-averaged winds, drawn as a line through the observations
+  traceLabel?: string;
+  sourceLabel?: string; // Shown in the title when observations are not the usual 5-minute data
+  headingReference?: HeadingReference;
 }
 
 interface TooltipData {
@@ -17,78 +26,31 @@ interface TooltipData {
   wspd: number | null;
   wgst: number | null;
   isGust: boolean;
+  isForecast: boolean;
+  qc?: QcFlag[];
 }
 
-const RUNWAY_COLORS = ['#ffcc00', '#00ff88', '#ff6b6b', '#a78bfa'];
-
-// Represents a group of parallel runways (or a single runway)
-interface RunwayGroup {
-  trueHdg: number;
-  highLabel: string; // e.g., "22L/R" or "22"
-  lowLabel: string;  // e.g., "04L/R" or "04"
-  legendLabel: string; // e.g., "04L/R/22L/R" or "04/22"
-}
-
-// Group parallel runways and create combined labels
-function groupRunways(runways: Runway[]): RunwayGroup[] {
-  // Group runways by heading (within 1 degree tolerance)
-  const groups: { hdg: number; runways: Runway[] }[] = [];
-
-  runways.forEach((rw) => {
-    const normalizedHdg = Math.round(rw.trueHdg);
-    const existingGroup = groups.find((g) => Math.abs(g.hdg - normalizedHdg) <= 1);
-    if (existingGroup) {
-      existingGroup.runways.push(rw);
-    } else {
-      groups.push({ hdg: normalizedHdg, runways: [rw] });
-    }
-  });
-
-  // Convert groups to RunwayGroup with combined labels
-  return groups.map((group) => {
-    const rwList = group.runways;
-    // Use the average heading for the group
-    const avgHdg = rwList.reduce((sum, rw) => sum + rw.trueHdg, 0) / rwList.length;
-
-    if (rwList.length === 1) {
-      // Single runway - use original labels
-      const rw = rwList[0];
-      return {
-        trueHdg: avgHdg,
-        highLabel: rw.high,
-        lowLabel: rw.low,
-        legendLabel: `${rw.low}/${rw.high}`,
-      };
-    }
-
-    // Multiple parallel runways - extract numbers and unique suffixes
-    const highNum = rwList[0].high.replace(/[LRC]$/, '');
-    const lowNum = rwList[0].low.replace(/[LRC]$/, '');
-
-    // Get unique suffixes, sorted L/C/R
-    const suffixes = [...new Set(rwList.map((rw) => rw.high.replace(/^\d+/, '')))]
-      .sort((a, b) => {
-        const order: Record<string, number> = { L: 0, C: 1, R: 2 };
-        return (order[a] ?? 3) - (order[b] ?? 3);
-      });
-    const suffixStr = suffixes.join('/');
-
-    return {
-      trueHdg: avgHdg,
-      highLabel: `${highNum}${suffixStr}`,
-      lowLabel: `${lowNum}${suffixStr}`,
-      legendLabel: `${lowNum}/${highNum} ${suffixStr}`,
-    };
-  });
+interface PlottedPoint {
+  x: number;
+  y: number;
+  data: WindDataPoint | ForecastDataPoint;
+  isGust: boolean;
+  isForecast: boolean;
 }
 
 export default function WindDirectionChart({
   observations,
   runways,
+  metar = null,
+  forecasts,
+  trace,
+  traceLabel = 'Averaged',
+  sourceLabel,
+  headingReference = 'true',
 }: WindDirectionChartProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [tooltip, setTooltip] = useState<TooltipData | null>(null);
-  const pointsRef = useRef<{ x: number; y: number; data: WindDataPoint; isGust: boolean }[]>([]);
+  const pointsRef = useRef<PlottedPoint[]>([]);
 
   const drawChart = useCallback(() => {
     const canvas = canvasRef.current;
@@ -114,6 +76,11 @@ export default function WindDirectionChart({
     observations.forEach((d) => {
       if (d.wspd && d.wspd > maxSpeed) maxSpeed = d.wspd;
       if (d.wgst && d.wgst > maxSpeed) maxSpeed = d.wgst;
+      if (d.wspdMax && d.wspdMax > maxSpeed) maxSpeed = d.wspdMax;
+    });
+    forecasts?.forEach((f) => {
+      if (f.wspd && f.wspd > maxSpeed) maxSpeed = f.wspd;
+      if (f.wgst && f.wgst > maxSpeed) maxSpeed = f.wgst;
     });
     const scaleMax = Math.ceil(maxSpeed / 5) * 5 || 25;
 
@@ -213,12 +180,54 @@ export default function WindDirectionChart({
       ctx.restore();
     });
 
+    // Variable wind from the latest METAR: dddVddd sector as a wedge, VRB as a dashed ring
+    const variability = metar?.variability;
+    if (variability && metar.wspd) {
+      const r = Math.min(metar.wspd / scaleMax, 1) * maxRadius;
+      ctx.save();
+      if (variability.from !== null && variability.to !== null) {
+        const startRad = ((variability.from - 90) * Math.PI) / 180;
+        const endRad = ((variability.to - 90) * Math.PI) / 180;
+        ctx.beginPath();
+        ctx.moveTo(centerX, centerY);
+        ctx.arc(centerX, centerY, r, startRad, endRad);
+        ctx.closePath();
+        ctx.fillStyle = 'rgba(251, 191, 36, 0.15)';
+        ctx.fill();
+        ctx.strokeStyle = 'rgba(251, 191, 36, 0.7)';
+        ctx.lineWidth = 1.5;
+        ctx.stroke();
+      } else {
+        ctx.beginPath();
+        ctx.arc(centerX, centerY, r, 0, Math.PI * 2);
+        ctx.strokeStyle = 'rgba(251, 191, 36, 0.7)';
+        ctx.lineWidth = 1.5;
+        ctx.setLineDash([4, 4]);
+        ctx.stroke();
+      }
+      ctx.restore();
+    }
+
     // Plot wind observations and track points for tooltips
-    const points: { x: number; y: number; data: WindDataPoint; isGust: boolean }[] = [];
+    const points: PlottedPoint[] = [];
 
     observations.forEach((d) => {
       if (d.wdir === null) return;
       const rad = ((d.wdir - 90) * Math.PI) / 180;
+      // Observations that failed QC are drawn as hollow orange markers
+      const suspect = isSuspect(d);
+
+      // Aggregated bucket: min/max sustained wind as a radial bar along the mean direction
+      if (typeof d.wspdMin === 'number' && typeof d.wspdMax === 'number' && d.wspdMax > d.wspdMin) {
+        const rMin = (d.wspdMin / scaleMax) * maxRadius;
+        const rMax = (d.wspdMax / scaleMax) * maxRadius;
+        ctx.beginPath();
+        ctx.moveTo(centerX + rMin * Math.cos(rad), centerY + rMin * Math.sin(rad));
+        ctx.lineTo(centerX + rMax * Math.cos(rad), centerY + rMax * Math.sin(rad));
+        ctx.strokeStyle = 'rgba(29, 155, 240, 0.3)';
+        ctx.lineWidth = 2;
+        ctx.stroke();
+      }
 
       // Plot sustained wind
       if (d.wspd) {
@@ -227,12 +236,14 @@ export default function WindDirectionChart({
         const y = centerY + r * Math.sin(rad);
         ctx.beginPath();
         ctx.arc(x, y, 4, 0, Math.PI * 2);
-        ctx.fillStyle = 'rgba(29, 155, 240, 0.7)';
-        ctx.fill();
-        ctx.strokeStyle = '#1d9bf0';
+        if (!suspect) {
+          ctx.fillStyle = 'rgba(29, 155, 240, 0.7)';
+          ctx.fill();
+        }
+        ctx.strokeStyle = suspect ? '#f97316' : '#1d9bf0';
         ctx.lineWidth = 1.5;
         ctx.stroke();
-        points.push({ x, y, data: d, isGust: false });
+        points.push({ x, y, data: d, isGust: false, isForecast: false });
       }
 
       // Plot gust
@@ -242,17 +253,67 @@ export default function WindDirectionChart({
         const y = centerY + r * Math.sin(rad);
         ctx.beginPath();
         ctx.arc(x, y, 4, 0, Math.PI * 2);
-        ctx.fillStyle = 'rgba(249, 24, 128, 0.7)';
-        ctx.fill();
-        ctx.strokeStyle = '#f91880';
+        if (!suspect) {
+          ctx.fillStyle = 'rgba(249, 24, 128, 0.7)';
+          ctx.fill();
+        }
+        ctx.strokeStyle = suspect ? '#f97316' : '#f91880';
+        ctx.lineWidth = 1.5;
+        ctx.stroke();
+        points.push({ x, y, data: d, isGust: true, isForecast: false });
+      }
+    });
+
+    // Averaged wind as a line from oldest to newest, ending in a dot
+    if (trace && trace.length > 0) {
+      const traceXY = trace
+        .filter((t) => t.wdir !== null && t.wspd !== null)
+        .map((t) => {
+          const rad = ((t.wdir! - 90) * Math.PI) / 180;
+          const r = (t.wspd! / scaleMax) * maxRadius;
+          return [centerX + r * Math.cos(rad), centerY + r * Math.sin(rad)];
+        });
+      if (traceXY.length > 0) {
+        ctx.save();
+        ctx.beginPath();
+        traceXY.forEach(([x, y], i) => (i === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y)));
+        ctx.strokeStyle = 'rgba(231, 233, 234, 0.6)';
         ctx.lineWidth = 1.5;
+        ctx.lineJoin = 'round';
         ctx.stroke();
-        points.push({ x, y, data: d, isGust: true });
+        const [lastX, lastY] = traceXY[traceXY.length - 1];
+        ctx.beginPath();
+        ctx.arc(lastX, lastY, 3, 0, Math.PI * 2);
+        ctx.fillStyle = '#e7e9ea';
+        ctx.fill();
+        ctx.restore();
       }
+    }
+
+    // Plot forecast hours as hollow rings so they read apart from observations
+    forecasts?.forEach((f) => {
+      if (f.wdir === null) return;
+      const rad = ((f.wdir - 90) * Math.PI) / 180;
+      const rings: [number | null, string, boolean][] = [
+        [f.wspd, '#10b981', false],
+        [f.wgst, '#f59e0b', true],
+      ];
+      rings.forEach(([speed, color, isGust]) => {
+        if (!speed) return;
+        const r = (speed / scaleMax) * maxRadius;
+        const x = centerX + r * Math.cos(rad);
+        const y = centerY + r * Math.sin(rad);
+        ctx.beginPath();
+        ctx.arc(x, y, 4, 0, Math.PI * 2);
+        ctx.strokeStyle = color;
+        ctx.lineWidth = 1.5;
+        ctx.stroke();
+        points.push({ x, y, data: f, isGust, isForecast: true });
+      });
     });
 
     pointsRef.current = points;
-  }, [observations, runways]);
+  }, [observations, forecasts, trace, runways, metar]);
 
   const handleMouseMove = useCallback((e: MouseEvent) => {
     const canvas = canvasRef.current;
@@ -284,6 +345,8 @@ export default function WindDirectionChart({
         wspd: closest.data.wspd,
         wgst: closest.data.wgst,
         isGust: closest.isGust,
+        isForecast: closest.isForecast,
+        qc: closest.isForecast ? undefined : (closest.data as WindDataPoint).qc,
       });
     } else {
       setTooltip(null);
@@ -324,7 +387,15 @@ export default function WindDirectionChart({
 
   return (
     <div className="chart-section h-full">
-      <div className="chart-title">Wind Direction &amp; Speed</div>
+      <div className="chart-title">
+        Wind Direction &amp; Speed
+        {sourceLabel && (
+          <span className="text-[var(--text-tertiary)] font-normal"> &middot; {sourceLabel}</span>
+        )}
+        {headingReference === 'magnetic' && (
+          <span className="text-[var(--text-tertiary)] font-normal"> &middot; magnetic</span>
+        )}
+      </div>
       <div className="h-[280px] relative">
         <canvas ref={canvasRef} className="w-full h-full" />
         {tooltip && (
@@ -339,11 +410,21 @@ export default function WindDirectionChart({
               backdropFilter: 'blur(8px)',
             }}
           >
-            <div className="font-semibold text-white mb-1">{tooltip.time}</div>
+            <div className="font-semibold text-white mb-1">
+              {tooltip.time}
+              {tooltip.isForecast && <span className="text-[#10b981] font-normal"> &middot; Forecast</span>}
+            </div>
             <div className="text-[var(--text-secondary)] text-xs space-y-0.5">
-              <div>Direction: {tooltip.wdir}&deg; ({formatDirection(tooltip.wdir)})</div>
+              <div>
+                Direction: {tooltip.wdir !== null ? formatHeading(tooltip.wdir, headingReference) : '—'} ({formatDirection(tooltip.wdir)})
+              </div>
               {tooltip.wspd && <div>Wind: {tooltip.wspd} kt</div>}
-              {tooltip.wgst && <div className="text-[#f91880]">Gust: {tooltip.wgst} kt</div>}
+              {tooltip.wgst && (
+                <div className={tooltip.isForecast ? 'text-[#f59e0b]' : 'text-[#f91880]'}>Gust: {tooltip.wgst} kt</div>
+              )}
+              {tooltip.qc && tooltip.qc.length > 0 && (
+                <div className="text-[#f97316]">QC: {formatQcFlags(tooltip.qc)}</div>
+              )}
             </div>
           </div>
         )}
@@ -357,6 +438,38 @@ export default function WindDirectionChart({
           <div className="legend-dot" style={{ backgroundColor: '#f91880' }}></div>
           Gusts
         </div>
+        {forecasts && forecasts.length > 0 && (
+          <>
+            <div className="legend-item">
+              <div className="legend-dot" style={{ border: '1.5px solid #10b981' }}></div>
+              Forecast Wind
+            </div>
+            <div className="legend-item">
+              <div className="legend-dot" style={{ border: '1.5px solid #f59e0b' }}></div>
+              Forecast Gusts
+            </div>
+          </>
+        )}
+        {trace && trace.length > 0 && (
+          <div className="legend-item">
+            <div className="legend-dot" style={{ backgroundColor: '#e7e9ea' }}></div>
+            {traceLabel}
+          </div>
+        )}
+        {observations.some(isSuspect) && (
+          <div className="legend-item">
+            <div className="legend-dot" style={{ border: '1.5px solid #f97316' }}></div>
+            Suspect (QC)
+          </div>
+        )}
+        {metar?.variability && (
+          <div className="legend-item">
+            <div className="legend-dot" style={{ backgroundColor: '#fbbf24' }}></div>
+            {metar.variability.from !== null && metar.variability.to !== null
+              ? `METAR ${String(Math.round(metar.variability.from)).padStart(3, '0')}V${String(Math.round(metar.variability.to)).padStart(3, '0')}`
+              : 'METAR VRB'}
+          </div>
+        )}
       </div>
       {runwayGroups.length > 0 && (
         <div className="runway-legend">
@@ -5,17 +5,36 @@ import { useRouter } from 'next/navigation';
 import AirportSelector from './AirportSelector';
 import WindSpeedChart from './WindSpeedChart';
 import WindDirectionChart from './WindDirectionChart';
+import WeatherLaneChart, { hasWeatherLane } from './WeatherLaneChart';
+import TimelineChart from './TimelineChart';
+import ObservationStationPicker from './ObservationStationPicker';
+import ClimatologyView from './ClimatologyView';
 import RunwayWindTable from './RunwayWindTable';
 import ForecastChart from './ForecastChart';
 import ForecastDirectionChart from './ForecastDirectionChart';
 import ForecastWindTable from './ForecastWindTable';
 import NearbyAirports from './NearbyAirports';
+import ForecastVerificationPanel from './ForecastVerificationPanel';
+import ForecastStationNotice from './ForecastStationNotice';
 import SettingsModal, { Settings, loadSettings } from './SettingsModal';
-import { WindData, ForecastData } from '@/lib/types';
+import { WindData, ForecastData, ForecastRun, TafData } from '@/lib/types';
+import {
+  getMagneticDeclination,
+  convertHeading,
+  convertWindDirections,
+  formatDeclination,
+} from '@/lib/magnetic-variation';
 import { isWindDataStale } from '@/lib/cache';
+import { formatBucketSize } from '@/lib/observation-buckets';
+import { describeStationOffset } from '@/lib/observation-stations';
+import { averagedTrace } from '@/lib/wind-averaging';
+import { METAR_HISTORY_LABEL } from '@/lib/metar-history';
+import { DEFAULT_TREND_THRESHOLD_KT } from '@/lib/forecast-trend';
 import {
   getAirportFullData,
   getNbmForecast,
+  getNbmForecastRuns,
+  getTafForecast,
   Airport,
   AirportSearchResult,
   AirportFullData,
@@ -23,9 +42,21 @@ import {
 } from '@/app/actions';
 import {
   buildWindPlotPathForState,
+  formatObservationRange,
+  getForecastRangeForHours,
+  ForecastRange,
   WindPlotViewMode,
 } from '@/lib/windplot-route';
 
+const FORECAST_RANGE_BUTTONS: { range: ForecastRange; label: string }[] = [
+  { range: 24, label: '24h (hourly)' },
+  { range: 72, label: '72h (3-hourly)' },
+  { range: 168, label: '7d (12-hourly)' },
+];
+
+// Earlier NBM cycles overlaid on the forecast chart
+const NBM_TREND_RUNS = 3;
+
 interface WindPlotProps {
   initialIcao: string;
   initialHours: number;
@@ -64,21 +95,30 @@ export default function WindPlot({
   const [metarIcao, setMetarIcao] = useState<string>(initialIcao);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Observation station chosen in the picker; null picks automatically
+  const [observationStation, setObservationStation] = useState<string | null>(null);
   const [showSettings, setShowSettings] = useState(false);
-  const [settings, setSettings] = useState<Settings>({ allowedSurfaces: [] });
+  const [settings, setSettings] = useState<Settings>({
+    allowedSurfaces: [],
+    headingReference: 'true',
+    trendThresholdKt: DEFAULT_TREND_THRESHOLD_KT,
+  });
 
   // Forecast view state
   const [viewMode, setViewMode] = useState<WindPlotViewMode>(initialViewMode);
-  const [forecastRange, setForecastRange] = useState<24 | 72>(
-    initialForecastHoursLimit > 24 ? 72 : 24
+  const [forecastRange, setForecastRange] = useState<ForecastRange>(
+    getForecastRangeForHours(initialForecastHoursLimit)
   );
   const [forecastHoursLimit, setForecastHoursLimit] = useState<number>(initialForecastHoursLimit);
   const [forecast, setForecast] = useState<ForecastData | null>(null);
   const [forecastLoading, setForecastLoading] = useState(false);
   const [forecastError, setForecastError] = useState<string | null>(null);
   const [selectedForecastIdx, setSelectedForecastIdx] = useState(0);
+  const [taf, setTaf] = useState<TafData | null>(null);
+  const tafRequestIdRef = useRef(0);
+  const [forecastRuns, setForecastRuns] = useState<ForecastRun[] | null>(null);
   // Track what icao+range the current forecast was loaded for
-  const loadedForecastRef = useRef<{ icao: string; range: 24 | 72 } | null>(null);
+  const loadedForecastRef = useRef<{ icao: string; range: ForecastRange } | null>(null);
   
   // Cache of prefetched data - transform from icao keys to icao-hours keys
   const [cache, setCache] = useState<Record<string, AirportFullData>>(() => {
@@ -118,9 +158,9 @@ export default function WindPlot({
     setSettings(loadSettings());
   }, []);
 
-  // Fetch forecast data when switching to forecast view, changing airport, or changing range
+  // Fetch forecast data when switching to a forecast view, changing airport, or changing range
   useEffect(() => {
-    if (viewMode !== 'forecast') return;
+    if (viewMode !== 'forecast' && viewMode !== 'combined') return;
 
     // Check if we already have the right data loaded
     const loaded = loadedForecastRef.current;
@@ -131,6 +171,17 @@ export default function WindPlot({
     setForecastLoading(true);
     setForecastError(null);
     setSelectedForecastIdx(0);
+    setTaf(null);
+    // TAF is optional; discard responses superseded by a newer request
+    const tafRequestId = ++tafRequestIdRef.current;
+    getTafForecast(icao).then((tafData) => {
+      if (tafRequestIdRef.current === tafRequestId) setTaf(tafData);
+    });
+    // Earlier NBM runs are optional too and share the TAF request id
+    setForecastRuns(null);
+    getNbmForecastRuns(icao, forecastRange, NBM_TREND_RUNS).then((runs) => {
+      if (tafRequestIdRef.current === tafRequestId) setForecastRuns(runs);
+    });
     getNbmForecast(icao, forecastRange).then((data) => {
       if (data) {
         setForecast(data);
@@ -166,27 +217,31 @@ export default function WindPlot({
   useEffect(() => {
     const refresh = async () => {
       // Force refresh to bypass server cache and get fresh data
-      const fullData = await getAirportFullData(icao, hours, true);
+      const fullData = await getAirportFullData(icao, hours, true, observationStation);
       if (fullData.windData) {
         setData(fullData.windData);
         setAirport(fullData.airport);
         setMetar(fullData.metar);
         setMetarIcao(icao);
-        // Update cache with airport+hours key
-        const cacheKey = `${icao}-${hours}`;
-        setCache((prev) => ({ ...prev, [cacheKey]: fullData }));
+        // Cache holds automatically chosen observations only
+        if (observationStation === null) {
+          const cacheKey = `${icao}-${hours}`;
+          setCache((prev) => ({ ...prev, [cacheKey]: fullData }));
+        }
       }
     };
 
     const interval = setInterval(refresh, 5 * 60 * 1000);
     return () => clearInterval(interval);
-  }, [icao, hours]);
+  }, [icao, hours, observationStation]);
 
   const handleAirportChange = async (newIcao: string) => {
     const upperIcao = newIcao.toUpperCase();
 
     // Increment request ID to track this request for race condition handling
     const requestId = ++requestIdRef.current;
+    // A new airport starts on its automatically chosen station
+    setObservationStation(null);
 
     // Check if we have prefetched data for this airport+hours combo that isn't stale
     const cacheKey = `${upperIcao}-${hours}`;
@@ -253,7 +308,7 @@ export default function WindPlot({
 
     pushRoute(icao, viewMode, newHours, forecastHoursLimit);
 
-    const fullData = await getAirportFullData(icao, newHours);
+    const fullData = await getAirportFullData(icao, newHours, false, observationStation);
     setAirport(fullData.airport);
     setMetar(fullData.metar);
     setMetarIcao(icao);
@@ -270,21 +325,44 @@ export default function WindPlot({
     setError(null);
 
     // Force refresh to bypass server cache and get fresh data
-    const fullData = await getAirportFullData(icao, hours, true);
+    const fullData = await getAirportFullData(icao, hours, true, observationStation);
     setAirport(fullData.airport);
     setMetar(fullData.metar);
     setMetarIcao(icao);
     if (fullData.windData) {
       setData(fullData.windData);
       // Update cache with airport+hours key
-      const cacheKey = `${icao}-${hours}`;
-      setCache((prev) => ({ ...prev, [cacheKey]: fullData }));
+      if (observationStation === null) {
+        const cacheKey = `${icao}-${hours}`;
+        setCache((prev) => ({ ...prev, [cacheKey]: fullData }));
+      }
     } else {
       setError('Failed to refresh data');
     }
     setLoading(false);
   };
 
+  const handleStationChange = async (stationId: string | null) => {
+    const requestId = ++requestIdRef.current;
+    setObservationStation(stationId);
+    setData(null);
+    setLoading(true);
+    setError(null);
+
+    const fullData = await getAirportFullData(icao, hours, false, stationId);
+    if (requestIdRef.current !== requestId) return;
+
+    setAirport(fullData.airport);
+    setMetar(fullData.metar);
+    setMetarIcao(icao);
+    if (fullData.windData) {
+      setData(fullData.windData);
+    } else {
+      setError(stationId ? `No recent observations from ${stationId}` : 'Failed to fetch data');
+    }
+    setLoading(false);
+  };
+
   // Filter runways by allowed surface types (for charts and table)
   const runways = useMemo(() => {
     const allRunways = airport?.runways || [];
@@ -299,17 +377,86 @@ export default function WindPlot({
     });
   }, [airport?.runways, settings.allowedSurfaces]);
 
+  // Magnetic variation at the airport; everything below is converted to the selected
+  // heading reference, so runway trueHdg holds a magnetic heading in magnetic mode
+  const headingReference = settings.headingReference;
+  const declination = useMemo(
+    () => (airport ? getMagneticDeclination(airport.lat, airport.lon) : 0),
+    [airport]
+  );
+
+  const displayRunways = useMemo(() => {
+    if (headingReference === 'true') return runways;
+    return runways.map((rw) => ({
+      ...rw,
+      trueHdg: convertHeading(rw.trueHdg, declination, headingReference),
+    }));
+  }, [runways, declination, headingReference]);
+
+  const displayObservations = useMemo(
+    () => convertWindDirections(data?.observations ?? [], declination, headingReference),
+    [data, declination, headingReference]
+  );
+
+  // Set when observations fell back to METAR history
+  const sourceLabel = data?.source === 'metar' ? METAR_HISTORY_LABEL : undefined;
+
+  // 10-minute averaged trace for the direction chart (raw 5-minute observations only)
+  const directionTrace = useMemo(
+    () => (data?.bucketMinutes || data?.source ? undefined : averagedTrace(displayObservations, 10)),
+    [data, displayObservations]
+  );
+
+  // Runway table always works from raw observations, not bucket means
+  const tableObservations = useMemo(() => {
+    if (!data?.recentObservations) return displayObservations;
+    return convertWindDirections(data.recentObservations, declination, headingReference);
+  }, [data, displayObservations, declination, headingReference]);
+
+  const displayMetar = useMemo(() => {
+    if (!metar || metarIcao !== icao) return null;
+    if (headingReference === 'true') return metar;
+    const toReference = (deg: number | null) =>
+      deg === null ? null : convertHeading(deg, declination, headingReference);
+    return {
+      ...metar,
+      wdir: toReference(metar.wdir),
+      variability: metar.variability && {
+        ...metar.variability,
+        from: toReference(metar.variability.from),
+        to: toReference(metar.variability.to),
+      },
+    };
+  }, [metar, metarIcao, icao, declination, headingReference]);
+
+  const displayTaf = useMemo(() => {
+    if (taf?.icao !== icao) return null;
+    return convertWindDirections(taf.forecasts, declination, headingReference).map((point) => ({
+      ...point,
+      conditional: point.conditional && {
+        ...point.conditional,
+        wdir: point.conditional.wdir === null
+          ? null
+          : convertHeading(point.conditional.wdir, declination, headingReference),
+      },
+      windShear: point.windShear && {
+        ...point.windShear,
+        direction: convertHeading(point.windShear.direction, declination, headingReference),
+      },
+    }));
+  }, [taf, icao, declination, headingReference]);
+
   // Filter forecasts by the hours limit
   const filteredForecasts = useMemo(() => {
     if (!forecast) return [];
-    const allForecasts = forecast.forecasts;
+    const allForecasts = convertWindDirections(forecast.forecasts, declination, headingReference);
     if (forecastHoursLimit >= forecastRange) return allForecasts;
 
     // Use timestamps to filter: keep only forecasts within limit from the first one
     const baseTimestamp = allForecasts[0]?.timestamp || 0;
     const cutoff = baseTimestamp + forecastHoursLimit * 3600;
     return allForecasts.filter((f) => f.timestamp <= cutoff);
-  }, [forecast, forecastHoursLimit, forecastRange]);
+  }, [forecast, forecastHoursLimit, forecastRange, declination, headingReference]);
 
   // Ensure selected forecast index stays within the bounds of the filtered forecasts
   useEffect(() => {
@@ -331,9 +478,12 @@ export default function WindPlot({
 
   // Check if synoptic data is stale (>70 minutes old)
   const staleThresholdMs = 70 * 60 * 1000;
-  const latestObsTimestamp = data?.observations?.length
-    ? Math.max(...data.observations.map((o) => o.timestamp))
-    : null;
+  // Aggregated ranges carry the latest raw observation; bucket timestamps are bucket starts
+  const latestObsTimestamp = data?.latestObservation
+    ? data.latestObservation.timestamp
+    : data?.observations?.length
+      ? Math.max(...data.observations.map((o) => o.timestamp))
+      : null;
   const isSynopticStale = latestObsTimestamp
     ? now - latestObsTimestamp * 1000 > staleThresholdMs
     : false;
@@ -341,11 +491,13 @@ export default function WindPlot({
     ? Math.round((now - latestObsTimestamp * 1000) / 60000)
     : 0;
 
-  const validObsTimestamps = data?.observations
-    ? data.observations
-        .filter((o) => o.wdir !== null && o.wspd !== null)
-        .map((o) => o.timestamp)
-    : [];
+  const validObsTimestamps = data?.latestObservation
+    ? [data.latestObservation.timestamp]
+    : data?.observations
+      ? data.observations
+          .filter((o) => o.wdir !== null && o.wspd !== null)
+          .map((o) => o.timestamp)
+      : [];
   const latestValidObsTimestamp = validObsTimestamps.length
     ? Math.max(...validObsTimestamps)
     : null;
@@ -385,21 +537,36 @@ export default function WindPlot({
           <p className="text-[var(--text-secondary)] text-sm">
             {data?.name || airport?.name || icao}
             <span className="text-[var(--text-tertiary)]"> &middot; </span>
-            {viewMode === 'observations' ? `Last ${hours}h (5-min obs)` : `Next ${forecastHoursLimit}h Forecast`}
+            {viewMode === 'observations'
+              ? sourceLabel
+                ? `Last ${formatObservationRange(hours)} (${sourceLabel})`
+                : data?.bucketMinutes
+                  ? `Last ${formatObservationRange(hours)} (${formatBucketSize(data.bucketMinutes)} buckets)`
+                  : `Last ${hours}h (5-min obs)`
+              : viewMode === 'combined'
+                ? `Last ${formatObservationRange(hours)} + Next ${formatObservationRange(forecastHoursLimit)} Forecast`
+                : viewMode === 'climatology'
+                  ? 'Wind Climatology'
+                  : `Next ${formatObservationRange(forecastHoursLimit)} Forecast`}
           </p>
-          {viewMode === 'observations' && lastDataTime && (
+          {headingReference === 'magnetic' && airport && (
+            <p className="text-[var(--text-tertiary)] text-xs mt-1">
+              Headings magnetic &middot; variation {formatDeclination(declination)}
+            </p>
+          )}
+          {(viewMode === 'observations' || viewMode === 'combined') && lastDataTime && (
             <p className="text-[var(--text-tertiary)] text-xs mt-1">
               Updated {lastDataTime.toLocaleTimeString()}
             </p>
           )}
-          {viewMode === 'forecast' && forecast?.generatedAt && (
+          {(viewMode === 'forecast' || viewMode === 'combined') && forecast?.generatedAt && (
             <p className="text-[var(--text-tertiary)] text-xs mt-1">
               Forecast issued {new Date(forecast.generatedAt * 1000).toLocaleTimeString()}
             </p>
           )}
 
           {/* View toggle */}
-          <div className="flex justify-center gap-2 mt-3">
+          <div className="flex flex-wrap justify-center gap-2 mt-3">
             <button
               onClick={() => {
                 setViewMode('observations');
@@ -426,41 +593,55 @@ export default function WindPlot({
             >
               Forecast
             </button>
+            <button
+              onClick={() => {
+                setViewMode('combined');
+                pushRoute(icao, 'combined', hours, forecastHoursLimit);
+              }}
+              className={`px-4 py-1.5 rounded-full text-sm font-medium transition-colors ${
+                viewMode === 'combined'
+                  ? 'bg-[#794bc4] text-white'
+                  : 'bg-[var(--bg-secondary)] text-[var(--text-secondary)] hover:text-[var(--text-primary)]'
+              }`}
+            >
+              Combined
+            </button>
+            <button
+              onClick={() => {
+                setViewMode('climatology');
+                pushRoute(icao, 'climatology', hours, forecastHoursLimit);
+              }}
+              className={`px-4 py-1.5 rounded-full text-sm font-medium transition-colors ${
+                viewMode === 'climatology'
+                  ? 'bg-[#f59e0b] text-white'
+                  : 'bg-[var(--bg-secondary)] text-[var(--text-secondary)] hover:text-[var(--text-primary)]'
+              }`}
+            >
+              Climatology
+            </button>
           </div>
 
           {/* Forecast range toggle */}
           {viewMode === 'forecast' && (
             <div className="flex justify-center gap-2 mt-2">
-              <button
-                onClick={() => {
-                  setForecastRange(24);
-                  setForecastHoursLimit(24);
-                  setSelectedForecastIdx(0);
-                  pushRoute(icao, 'forecast', hours, 24);
-                }}
-                className={`px-3 py-1 rounded text-xs font-medium transition-colors ${
-                  forecastRange === 24
-                    ? 'bg-[#10b981]/20 text-[#10b981] border border-[#10b981]'
-                    : 'bg-[var(--bg-secondary)] text-[var(--text-secondary)] hover:text-[var(--text-primary)]'
-                }`}
-              >
-                24h (hourly)
-              </button>
-              <button
-                onClick={() => {
-                  setForecastRange(72);
-                  setForecastHoursLimit(72);
-                  setSelectedForecastIdx(0);
-                  pushRoute(icao, 'forecast', hours, 72);
-                }}
-                className={`px-3 py-1 rounded text-xs font-medium transition-colors ${
-                  forecastRange === 72
-                    ? 'bg-[#10b981]/20 text-[#10b981] border border-[#10b981]'
-                    : 'bg-[var(--bg-secondary)] text-[var(--text-secondary)] hover:text-[var(--text-primary)]'
-                }`}
-              >
-                72h (3-hourly)
-              </button>
+              {FORECAST_RANGE_BUTTONS.map(({ range, label }) => (
+                <button
+                  key={range}
+                  onClick={() => {
+                    setForecastRange(range);
+                    setForecastHoursLimit(range);
+                    setSelectedForecastIdx(0);
+                    pushRoute(icao, 'forecast', hours, range);
+                  }}
+                  className={`px-3 py-1 rounded text-xs font-medium transition-colors ${
+                    forecastRange === range
+                      ? 'bg-[#10b981]/20 text-[#10b981] border border-[#10b981]'
+                      : 'bg-[var(--bg-secondary)] text-[var(--text-secondary)] hover:text-[var(--text-primary)]'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
             </div>
           )}
         </header>
@@ -487,6 +668,13 @@ export default function WindPlot({
         {/* Observations View */}
         {viewMode === 'observations' && (
           <>
+            <ObservationStationPicker
+              icao={icao}
+              value={observationStation}
+              activeStation={data?.station ?? null}
+              onChange={handleStationChange}
+            />
+
             {loading && !data && (
               <div className="text-center py-16">
                 <div className="inline-block animate-spin rounded-full h-8 w-8 border-2 border-[#1d9bf0] border-t-transparent"></div>
@@ -505,7 +693,7 @@ export default function WindPlot({
                     Retry
                   </button>
                 </div>
-                <NearbyAirports icao={icao} onSelect={handleAirportChange} />
+                <NearbyAirports icao={icao} onSelect={handleAirportChange} headingReference={headingReference} />
               </>
             )}
 
@@ -519,25 +707,46 @@ export default function WindPlot({
                     </p>
                   </div>
                 )}
+                {sourceLabel && (
+                  <div className="bg-amber-500/10 border border-amber-500/25 rounded-lg p-3 mb-4 text-center">
+                    <p className="text-amber-400 text-sm">
+                      No 5-minute observations for {icao} &mdash; showing {sourceLabel} reports
+                    </p>
+                  </div>
+                )}
 
                 {/* Charts: stacked on mobile, side-by-side on desktop */}
                 <div className="lg:grid lg:grid-cols-2 lg:gap-5 lg:items-stretch">
                   <div className="lg:min-w-0 lg:flex lg:flex-col">
-                    <WindSpeedChart observations={data.observations} />
+                    <WindSpeedChart
+                      observations={displayObservations}
+                      sourceLabel={sourceLabel}
+                      headingReference={headingReference}
+                    />
                   </div>
                   <div className="lg:min-w-0 lg:flex lg:flex-col">
-                    <WindDirectionChart observations={data.observations} runways={runways} />
+                    <WindDirectionChart
+                      observations={displayObservations}
+                      runways={displayRunways}
+                      metar={displayMetar}
+                      trace={directionTrace}
+                      traceLabel="10-min avg"
+                      sourceLabel={sourceLabel}
+                      headingReference={headingReference}
+                    />
                   </div>
                 </div>
+                {hasWeatherLane(displayObservations) && <WeatherLaneChart observations={displayObservations} />}
                 {runways.length > 0 && (
                   <RunwayWindTable
-                    observations={data.observations}
-                    runways={runways}
-                    metar={metarIcao === icao ? metar : null}
+                    observations={tableObservations}
+                    runways={displayRunways}
+                    metar={displayMetar}
                     now={now}
+                    headingReference={headingReference}
                   />
                 )}
-                <NearbyAirports icao={icao} onSelect={handleAirportChange} />
+                <NearbyAirports icao={icao} onSelect={handleAirportChange} headingReference={headingReference} />
               </>
             )}
 
@@ -546,12 +755,14 @@ export default function WindPlot({
                 <div className="text-center py-16">
                   <p className="text-[var(--text-secondary)] text-sm">No observations available for this period.</p>
                 </div>
-                <NearbyAirports icao={icao} onSelect={handleAirportChange} />
+                <NearbyAirports icao={icao} onSelect={handleAirportChange} headingReference={headingReference} />
               </>
             )}
 
             <footer className="text-center mt-8 pt-6 border-t border-[var(--border-color)]">
-              <p className="text-xs text-[var(--text-tertiary)]">Data from Synoptic Data API (5-min resolution)</p>
+              <p className="text-xs text-[var(--text-tertiary)]">
+                {sourceLabel ? `Data from ${sourceLabel} reports` : 'Data from Synoptic Data API (5-min resolution)'}
+              </p>
               <button
                 onClick={handleRefresh}
                 disabled={loading}
@@ -563,6 +774,118 @@ export default function WindPlot({
           </>
         )}
 
+        {/* Combined View: observed winds running into the forecast */}
+        {viewMode === 'combined' && (
+          <>
+            {((loading && !data) || (forecastLoading && !forecast)) && (
+              <div className="text-center py-16">
+                <div className="inline-block animate-spin rounded-full h-8 w-8 border-2 border-[#794bc4] border-t-transparent"></div>
+                <p className="text-[var(--text-secondary)] mt-4 text-sm">Loading weather data...</p>
+              </div>
+            )}
+
+            {(error || forecastError) && (!data || !forecast) && (
+              <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-4 mb-4 text-center">
+                <p className="text-red-400 text-sm">{error || forecastError}</p>
+              </div>
+            )}
+
+            {data && forecast && (data.observations.length > 0 || filteredForecasts.length > 0) && (
+              <>
+                {isSynopticStale && !loading && (
+                  <div className="bg-amber-500/10 border border-amber-500/25 rounded-lg p-3 mb-4 text-center">
+                    <p className="text-amber-400 text-sm">
+                      Weather data is {staleMinutes} minutes old — observations may be unavailable
+                    </p>
+                  </div>
+                )}
+
+                {data?.station && (
+                  <div className="bg-amber-500/10 border border-amber-500/25 rounded-lg p-3 mb-4 text-center">
+                    <p className="text-amber-400 text-sm">
+                      Observations from {data.station.name} ({data.station.id}), {describeStationOffset(data.station)}
+                    </p>
+                  </div>
+                )}
+                {sourceLabel && (
+                  <div className="bg-amber-500/10 border border-amber-500/25 rounded-lg p-3 mb-4 text-center">
+                    <p className="text-amber-400 text-sm">
+                      No 5-minute observations for {icao} &mdash; showing {sourceLabel} reports
+                    </p>
+                  </div>
+                )}
+                {forecast.forecastStation && (
+                  <ForecastStationNotice icao={icao} station={forecast.forecastStation} />
+                )}
+
+                <div className="lg:grid lg:grid-cols-2 lg:gap-5 lg:items-stretch">
+                  <div className="lg:min-w-0 lg:flex lg:flex-col">
+                    <TimelineChart
+                      observations={displayObservations}
+                      forecasts={filteredForecasts}
+                      timezone={forecast.timezone}
+                      now={now}
+                      sourceLabel={sourceLabel}
+                      headingReference={headingReference}
+                    />
+                  </div>
+                  <div className="lg:min-w-0 lg:flex lg:flex-col">
+                    <WindDirectionChart
+                      observations={displayObservations}
+                      forecasts={filteredForecasts}
+                      runways={displayRunways}
+                      metar={displayMetar}
+                      sourceLabel={sourceLabel}
+                      headingReference={headingReference}
+                    />
+                  </div>
+                </div>
+                {runways.length > 0 && (
+                  <RunwayWindTable
+                    observations={tableObservations}
+                    runways={displayRunways}
+                    metar={displayMetar}
+                    now={now}
+                    headingReference={headingReference}
+                  />
+                )}
+              </>
+            )}
+
+            <NearbyAirports icao={icao} onSelect={handleAirportChange} headingReference={headingReference} />
+
+            <footer className="text-center mt-8 pt-6 border-t border-[var(--border-color)]">
+              <p className="text-xs text-[var(--text-tertiary)]">
+                Observations from Synoptic Data API &middot; Forecast from NOAA National Blend of Models (NBM)
+              </p>
+              <button
+                onClick={() => {
+                  handleRefresh();
+                  setForecast(null);
+                  setForecastError(null);
+                  loadedForecastRef.current = null;
+                }}
+                disabled={loading || forecastLoading}
+                className="mt-3 px-4 py-1.5 bg-[var(--bg-secondary)] hover:bg-[var(--bg-tertiary)] border border-[var(--border-color)] rounded-lg text-sm text-[var(--text-secondary)] hover:text-[var(--text-primary)] disabled:opacity-50 font-medium"
+              >
+                {loading || forecastLoading ? 'Refreshing...' : 'Refresh'}
+              </button>
+            </footer>
+          </>
+        )}
+
+        {/* Climatology View */}
+        {viewMode === 'climatology' && (
+          <>
+            <ClimatologyView icao={icao} runways={displayRunways} headingReference={headingReference} />
+            <footer className="text-center mt-8 pt-6 border-t border-[var(--border-color)]">
+              <p className="text-xs text-[var(--text-tertiary)]">
+                Built from stored observation history (or the last 30 days from Synoptic Data API)
+              </p>
+            </footer>
+          </>
+        )}
+
         {/* Forecast View */}
         {viewMode === 'forecast' && (
           <>
@@ -593,11 +916,19 @@ export default function WindPlot({
 
             {forecast && filteredForecasts.length > 0 && (
               <>
+                {forecast.forecastStation && (
+                  <ForecastStationNotice icao={icao} station={forecast.forecastStation} />
+                )}
+
                 {/* Forecast Charts: stacked on mobile, side-by-side on desktop */}
                 <div className="lg:grid lg:grid-cols-2 lg:gap-5 lg:items-stretch">
                   <div className="lg:min-w-0 lg:flex lg:flex-col">
                     <ForecastChart
                       forecasts={filteredForecasts}
+                      taf={displayTaf}
+                      previousRuns={forecastRuns}
+                      trendThresholdKt={settings.trendThresholdKt}
+                      headingReference={headingReference}
                       selectedIdx={selectedForecastIdx}
                       onSelectIdx={setSelectedForecastIdx}
                     />
@@ -605,7 +936,8 @@ export default function WindPlot({
                   <div className="lg:min-w-0 lg:flex lg:flex-col">
                     <ForecastDirectionChart
                       forecasts={filteredForecasts}
-                      runways={runways}
+                      runways={displayRunways}
+                      headingReference={headingReference}
                       selectedIdx={selectedForecastIdx}
                       onSelectIdx={setSelectedForecastIdx}
                     />
@@ -614,12 +946,21 @@ export default function WindPlot({
                 {runways.length > 0 && (
                   <ForecastWindTable
                     forecasts={filteredForecasts}
-                    runways={runways}
+                    taf={displayTaf}
+                    runways={displayRunways}
+                    headingReference={headingReference}
                     selectedIdx={selectedForecastIdx}
                     onSelectIdx={setSelectedForecastIdx}
                   />
                 )}
-                <NearbyAirports icao={icao} onSelect={handleAirportChange} showWind={false} />
+                <ForecastVerificationPanel icao={icao} />
+                <NearbyAirports
+                  icao={icao}
+                  onSelect={handleAirportChange}
+                  headingReference={headingReference}
+                  forecastRange={forecastRange}
+                  forecastTimestamp={filteredForecasts[selectedForecastIdx]?.timestamp ?? null}
+                />
               </>
             )}
 
@@ -634,6 +975,9 @@ export default function WindPlot({
 
             <footer className="text-center mt-8 pt-6 border-t border-[var(--border-color)]">
               <p className="text-xs text-[var(--text-tertiary)]">Forecast data from NOAA National Blend of Models (NBM)</p>
+              {taf?.icao === icao && (
+                <p className="text-xs text-[var(--text-tertiary)] font-mono mt-2 break-all">{taf.rawTaf}</p>
+              )}
               <button
                 onClick={() => {
                   setForecast(null);
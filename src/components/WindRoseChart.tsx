@@ -0,0 +1,174 @@
+'use client';
+
+import { useRef, useEffect, useCallback } from 'react';
+import { Runway } from '@/app/actions';
+import { HeadingReference } from '@/lib/magnetic-variation';
+import { RUNWAY_COLORS, groupRunways } from '@/lib/runway-groups';
+import { ROSE_SECTORS, ROSE_SPEED_BINS, ROSE_CALM_KT, WindRose } from '@/lib/climatology';
+
+interface WindRoseChartProps {
+  rose: WindRose;
+  runways: Runway[];
+  title: string;
+  headingReference?: HeadingReference;
+}
+
+// One color per speed bin, light to strong
+const BIN_COLORS = ['#1d9bf0', '#10b981', '#f59e0b', '#f91880'];
+
+// "3-9kt", "10-14kt", "20+kt"
+const binLabel = (i: number) =>
+  i === ROSE_SPEED_BINS.length - 1
+    ? `${ROSE_SPEED_BINS[i]}+kt`
+    : `${ROSE_SPEED_BINS[i]}-${ROSE_SPEED_BINS[i + 1] - 1}kt`;
+
+export default function WindRoseChart({
+  rose,
+  runways,
+  title,
+  headingReference = 'true',
+}: WindRoseChartProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const drawChart = useCallback(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const rect = canvas.getBoundingClientRect();
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = rect.width * dpr;
+    canvas.height = rect.height * dpr;
+    ctx.scale(dpr, dpr);
+
+    const width = rect.width;
+    const height = rect.height;
+    const centerX = width / 2;
+    const centerY = height / 2;
+    const maxRadius = Math.min(width, height) / 2 - 35;
+
+    ctx.clearRect(0, 0, width, height);
+
+    // Scale to the most frequent sector, in percent of all observations
+    const sectorPercents = rose.sectors.map((bins) =>
+      bins.map((n) => (rose.total ? (n / rose.total) * 100 : 0))
+    );
+    const maxPercent = Math.max(...sectorPercents.map((bins) => bins.reduce((a, b) => a + b, 0)), 0);
+    const ringStep = maxPercent > 20 ? 10 : maxPercent > 8 ? 5 : 2;
+    const scaleMax = Math.ceil(maxPercent / ringStep) * ringStep || ringStep;
+
+    // Percent rings
+    for (let pct = ringStep; pct <= scaleMax; pct += ringStep) {
+      const r = (pct / scaleMax) * maxRadius;
+      ctx.beginPath();
+      ctx.arc(centerX, centerY, r, 0, Math.PI * 2);
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.15)';
+      ctx.lineWidth = 1;
+      ctx.stroke();
+      ctx.font = '10px -apple-system, BlinkMacSystemFont, sans-serif';
+      ctx.fillStyle = '#8899a6';
+      ctx.textAlign = 'center';
+      ctx.fillText(`${pct}%`, centerX, centerY - r - 4);
+    }
+
+    // Direction lines and labels
+    ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'].forEach((label, i) => {
+      const rad = ((i * 45 - 90) * Math.PI) / 180;
+      ctx.beginPath();
+      ctx.moveTo(centerX, centerY);
+      ctx.lineTo(centerX + maxRadius * Math.cos(rad), centerY + maxRadius * Math.sin(rad));
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.1)';
+      ctx.lineWidth = 1;
+      ctx.stroke();
+      const labelR = maxRadius + 18;
+      ctx.font = 'bold 12px -apple-system, BlinkMacSystemFont, sans-serif';
+      ctx.fillStyle = '#1d9bf0';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(label, centerX + labelR * Math.cos(rad), centerY + labelR * Math.sin(rad));
+    });
+
+    // Stacked sector wedges, lightest winds innermost
+    const halfWidth = (Math.PI / ROSE_SECTORS) * 0.85;
+    sectorPercents.forEach((bins, sector) => {
+      const mid = ((sector * (360 / ROSE_SECTORS) - 90) * Math.PI) / 180;
+      let inner = 0;
+      bins.forEach((pct, bin) => {
+        if (pct <= 0) return;
+        const outer = inner + pct;
+        ctx.beginPath();
+        ctx.arc(centerX, centerY, (outer / scaleMax) * maxRadius, mid - halfWidth, mid + halfWidth);
+        ctx.arc(centerX, centerY, (inner / scaleMax) * maxRadius, mid + halfWidth, mid - halfWidth, true);
+        ctx.closePath();
+        ctx.fillStyle = BIN_COLORS[bin % BIN_COLORS.length];
+        ctx.globalAlpha = 0.75;
+        ctx.fill();
+        ctx.globalAlpha = 1;
+        inner = outer;
+      });
+    });
+
+    // Runway lines (grouped for parallel runways)
+    groupRunways(runways).forEach((group, i) => {
+      const color = RUNWAY_COLORS[i % RUNWAY_COLORS.length];
+      const hdgRad = ((group.trueHdg - 90) * Math.PI) / 180;
+      const oppRad = hdgRad + Math.PI;
+
+      ctx.save();
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 2;
+      ctx.setLineDash([8, 4]);
+      ctx.globalAlpha = 0.8;
+      ctx.beginPath();
+      ctx.moveTo(centerX + maxRadius * Math.cos(hdgRad), centerY + maxRadius * Math.sin(hdgRad));
+      ctx.lineTo(centerX + maxRadius * Math.cos(oppRad), centerY + maxRadius * Math.sin(oppRad));
+      ctx.stroke();
+
+      ctx.font = 'bold 11px -apple-system, BlinkMacSystemFont, sans-serif';
+      ctx.fillStyle = color;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.globalAlpha = 1;
+      ctx.setLineDash([]);
+      const labelOffset = maxRadius + 28;
+      ctx.fillText(group.highLabel, centerX + labelOffset * Math.cos(hdgRad), centerY + labelOffset * Math.sin(hdgRad));
+      ctx.fillText(group.lowLabel, centerX + labelOffset * Math.cos(oppRad), centerY + labelOffset * Math.sin(oppRad));
+      ctx.restore();
+    });
+  }, [rose, runways]);
+
+  useEffect(() => {
+    drawChart();
+    window.addEventListener('resize', drawChart);
+    return () => window.removeEventListener('resize', drawChart);
+  }, [drawChart]);
+
+  const calmPercent = rose.total ? Math.round((rose.calm / rose.total) * 100) : 0;
+
+  return (
+    <div className="chart-section h-full">
+      <div className="chart-title">
+        {title}
+        {headingReference === 'magnetic' && (
+          <span className="text-[var(--text-tertiary)] font-normal"> &middot; magnetic</span>
+        )}
+      </div>
+      <div className="h-[280px] relative">
+        <canvas ref={canvasRef} className="w-full h-full" />
+      </div>
+      <div className="legend">
+        {ROSE_SPEED_BINS.map((_, i) => (
+          <div key={i} className="legend-item">
+            <div className="legend-dot" style={{ backgroundColor: BIN_COLORS[i % BIN_COLORS.length] }}></div>
+            {binLabel(i)}
+          </div>
+        ))}
+        <div className="legend-item">
+          Calm (&lt;{ROSE_CALM_KT}kt) {calmPercent}%
+        </div>
+      </div>
+    </div>
+  );
+}
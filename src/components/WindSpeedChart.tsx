@@ -17,6 +17,9 @@ import {
 } from 'chart.js';
 import { WindDataPoint } from '@/lib/types';
 import { useHorizontalSwipeLock } from '@/lib/useHorizontalSwipeLock';
+import { HeadingReference, formatHeading } from '@/lib/magnetic-variation';
+import { formatQcFlags, isSuspect } from '@/lib/observation-qc';
+import { decimateObservations } from '@/lib/observation-buckets';
 
 ChartJS.register(
   CategoryScale,
@@ -99,8 +102,13 @@ const crosshairPlugin: Plugin<'line'> = {
   },
 };
 
+// Most points drawn; denser series (1-minute data) are decimated, keeping peaks
+const MAX_CHART_POINTS = 480;
+
 interface WindSpeedChartProps {
   observations: WindDataPoint[];
+  sourceLabel?: string; // Shown in the title when observations are not the usual 5-minute data
+  headingReference?: HeadingReference;
 }
 
 // Format direction as cardinal
@@ -110,35 +118,83 @@ const formatDirection = (deg: number | null): string => {
   return dirs[Math.round(deg / 22.5) % 16];
 };
 
-export default function WindSpeedChart({ observations }: WindSpeedChartProps) {
+export default function WindSpeedChart({
+  observations: allObservations,
+  sourceLabel,
+  headingReference = 'true',
+}: WindSpeedChartProps) {
   const chartContainerRef = useHorizontalSwipeLock<HTMLDivElement>();
+  const observations = useMemo(
+    () => decimateObservations(allObservations, MAX_CHART_POINTS),
+    [allObservations]
+  );
   const labels = observations.map((d) => d.time);
-  const windSpeeds = observations.map((d) => d.wspd);
-  const gustSpeeds = observations.map((d) => d.wgst);
+  // Observations that failed QC are left out of the lines and marked separately
+  const suspect = observations.map(isSuspect);
+  const hasSuspect = suspect.some(Boolean);
+  const afterGap = observations.map((d) => d.qc?.includes('gap') ?? false);
+  const windSpeeds = observations.map((d, i) => (suspect[i] ? null : d.wspd));
+  const gustSpeeds = observations.map((d, i) => (suspect[i] ? null : d.wgst));
+  const suspectSpeeds = observations.map((d, i) => (suspect[i] ? d.wspd ?? d.wgst : null));
   const windDirs = observations.map((d) => d.wdir);
 
+  // Aggregated buckets (multi-day ranges) carry min/max sustained wind for an envelope
+  const isBucketed = observations.some((d) => d.wspdMax !== undefined);
+  const windMins = observations.map((d) => d.wspdMin ?? null);
+  const windMaxes = observations.map((d) => d.wspdMax ?? null);
+
   // Interpolate gaps in wind data
   const { interpolated: interpolatedWindSpeeds, isInterpolated } = useMemo(
     () => interpolateWindGaps(windSpeeds),
     [windSpeeds]
   );
 
-  // Segment styling function - checks if either endpoint of a segment is interpolated
+  // Segment styling function - checks if either endpoint of a segment is interpolated.
+  // Segments across a long data gap are not drawn at all.
   const getSegmentStyle = (ctx: ScriptableLineSegmentContext, normalValue: string, interpolatedValue: string) => {
+    if (afterGap[ctx.p1DataIndex]) return 'transparent';
     const p0Interpolated = isInterpolated[ctx.p0DataIndex];
     const p1Interpolated = isInterpolated[ctx.p1DataIndex];
     return p0Interpolated || p1Interpolated ? interpolatedValue : normalValue;
   };
 
+  const envelopeDatasets = isBucketed
+    ? [
+        {
+          label: 'Wind max',
+          data: windMaxes,
+          borderColor: 'rgba(29, 155, 240, 0.35)',
+          backgroundColor: 'rgba(29, 155, 240, 0.18)',
+          fill: '+1',
+          tension: 0.3,
+          pointRadius: 0,
+          pointHoverRadius: 0,
+          borderWidth: 1,
+        },
+        {
+          label: 'Wind min',
+          data: windMins,
+          borderColor: 'rgba(29, 155, 240, 0.35)',
+          backgroundColor: 'transparent',
+          fill: false,
+          tension: 0.3,
+          pointRadius: 0,
+          pointHoverRadius: 0,
+          borderWidth: 1,
+        },
+      ]
+    : [];
+
   const data = {
     labels,
     datasets: [
+      ...envelopeDatasets,
       {
         label: 'Wind',
         data: interpolatedWindSpeeds,
         borderColor: '#1d9bf0',
         backgroundColor: 'rgba(29, 155, 240, 0.15)',
-        fill: true,
+        fill: !isBucketed,
         tension: 0.3,
         pointRadius: 0,
         pointHoverRadius: 6,
@@ -162,10 +218,28 @@ export default function WindSpeedChart({ observations }: WindSpeedChartProps) {
         backgroundColor: 'transparent',
         borderDash: [5, 5],
         tension: 0.3,
-        pointRadius: gustSpeeds.map((g) => (g ? 5 : 0)),
+        pointRadius: gustSpeeds.map((g) => (g ? (isBucketed ? 2.5 : 5) : 0)),
         pointBackgroundColor: '#f91880',
         borderWidth: 2,
+        segment: {
+          borderColor: (ctx: ScriptableLineSegmentContext) => (afterGap[ctx.p1DataIndex] ? 'transparent' : '#f91880'),
+        },
       },
+      ...(hasSuspect
+        ? [
+            {
+              label: 'Suspect',
+              data: suspectSpeeds,
+              borderColor: '#f97316',
+              backgroundColor: 'rgba(249, 115, 22, 0.3)',
+              showLine: false,
+              pointStyle: 'triangle' as const,
+              pointRadius: 5,
+              pointHoverRadius: 7,
+              borderWidth: 1.5,
+            },
+          ]
+        : []),
     ],
   };
 
@@ -199,22 +273,42 @@ export default function WindSpeedChart({ observations }: WindSpeedChartProps) {
         boxHeight: 10,
         boxPadding: 4,
         usePointStyle: true,
+        // The envelope is summarized on the 'Wind min' line as a range
+        filter: (item) => item.dataset.label !== 'Wind max',
         callbacks: {
           title: (items) => {
             if (!items.length) return '';
             const idx = items[0].dataIndex;
             const dir = windDirs[idx];
-            const dirStr = dir !== null ? `${dir}° (${formatDirection(dir)})` : '—';
+            const dirStr = dir !== null ? `${formatHeading(dir, headingReference)} (${formatDirection(dir)})` : '—';
             const lines = [`${items[0].label}`, `Direction: ${dirStr}`];
             if (isInterpolated[idx]) {
               lines.push('(Interpolated)');
             }
+            const flags = observations[idx]?.qc;
+            if (flags?.length) {
+              lines.push(`QC: ${formatQcFlags(flags)}`);
+            }
             return lines;
           },
           label: (context) => {
             const value = context.parsed.y;
             if (value === null) return '';
             const idx = context.dataIndex;
+            if (context.dataset.label === 'Wind min') {
+              return ` Range: ${Math.round(value)}–${Math.round(windMaxes[idx] ?? value)} kt`;
+            }
+            if (isBucketed && context.dataset.label === 'Wind') {
+              return ` Mean wind: ${Math.round(value)} kt`;
+            }
+            if (isBucketed && context.dataset.label === 'Gusts') {
+              return ` Peak gust: ${Math.round(value)} kt`;
+            }
+            if (context.dataset.label === 'Suspect') {
+              const o = observations[idx];
+              const gust = o.wgst !== null ? `, gust ${Math.round(o.wgst)}` : '';
+              return ` Suspect: ${Math.round(value)} kt${gust}`;
+            }
             const suffix = context.dataset.label === 'Wind' && isInterpolated[idx] ? ' (est.)' : '';
             return ` ${context.dataset.label}: ${Math.round(value)} kt${suffix}`;
           },
@@ -245,19 +339,41 @@ export default function WindSpeedChart({ observations }: WindSpeedChartProps) {
 
   return (
     <div className="chart-section w-full overflow-hidden h-full">
-      <div className="chart-title">Wind &amp; Gusts</div>
+      <div className="chart-title">
+        Wind &amp; Gusts
+        {sourceLabel && (
+          <span className="text-[var(--text-tertiary)] font-normal"> &middot; {sourceLabel}</span>
+        )}
+      </div>
       <div ref={chartContainerRef} className="relative h-[180px] lg:h-[280px] w-full">
         <Line data={data} options={options} plugins={[crosshairPlugin]} />
       </div>
       <div className="legend">
         <div className="legend-item">
           <div className="legend-dot" style={{ backgroundColor: '#1d9bf0' }}></div>
-          Wind
+          {isBucketed ? 'Mean wind' : 'Wind'}
         </div>
+        {isBucketed && (
+          <div className="legend-item">
+            <div className="legend-dot" style={{ backgroundColor: 'rgba(29, 155, 240, 0.35)' }}></div>
+            Min/max
+          </div>
+        )}
         <div className="legend-item">
           <div className="legend-dot" style={{ backgroundColor: '#f91880' }}></div>
-          Gusts
+          {isBucketed ? 'Peak gust' : 'Gusts'}
         </div>
+        {observations.length < allObservations.length && (
+          <div className="legend-item">
+            {allObservations.length.toLocaleString()} obs, peaks shown
+          </div>
+        )}
+        {hasSuspect && (
+          <div className="legend-item">
+            <div className="legend-dot" style={{ backgroundColor: '#f97316' }}></div>
+            Suspect (QC)
+          </div>
+        )}
       </div>
     </div>
   );
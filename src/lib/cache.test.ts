@@ -133,6 +133,15 @@ describe('getWindDataAgeMs', () => {
     expect(getWindDataAgeMs(data, NOW)).toBe(30 * 60 * 1000);
   });
 
+  it('uses the latest raw observation for aggregated data', () => {
+    // Bucket timestamps are bucket starts; the raw observation is newer
+    const data = createWindData([(NOW - 3 * 60 * 60 * 1000) / 1000]);
+    data.bucketMinutes = 180;
+    data.latestObservation = { ...data.observations[0], timestamp: (NOW - 5 * 60 * 1000) / 1000 };
+    expect(getWindDataAgeMs(data, NOW)).toBe(5 * 60 * 1000);
+    expect(isWindDataStale(data, NOW)).toBe(false);
+  });
+
   it('uses the most recent observation for age calculation', () => {
     const timestamps = [
       (NOW - 60 * 60 * 1000) / 1000, // 60 min ago
@@ -3,6 +3,15 @@ import { WindData } from './types';
 // Stale threshold: 70 minutes in milliseconds
 export const STALE_THRESHOLD_MS = 70 * 60 * 1000;
 
+/**
+ * Timestamp (seconds) of the most recent observation. Aggregated data carries
+ * the latest raw observation separately, since bucket timestamps are bucket starts.
+ */
+function getLatestObservationTimestamp(windData: WindData): number {
+  if (windData.latestObservation) return windData.latestObservation.timestamp;
+  return Math.max(...windData.observations.map((o) => o.timestamp));
+}
+
 /**
  * Check if wind data is stale (older than 70 minutes).
  * Returns true if data is null, has no observations, or the latest observation
@@ -13,9 +22,7 @@ export function isWindDataStale(
   now: number = Date.now()
 ): boolean {
   if (!windData?.observations?.length) return true;
-  const latestTimestamp = Math.max(
-    ...windData.observations.map((o) => o.timestamp)
-  );
+  const latestTimestamp = getLatestObservationTimestamp(windData);
   return now - latestTimestamp * 1000 > STALE_THRESHOLD_MS;
 }
 
@@ -28,8 +35,6 @@ export function getWindDataAgeMs(
   now: number = Date.now()
 ): number | null {
   if (!windData?.observations?.length) return null;
-  const latestTimestamp = Math.max(
-    ...windData.observations.map((o) => o.timestamp)
-  );
+  const latestTimestamp = getLatestObservationTimestamp(windData);
   return now - latestTimestamp * 1000;
 }
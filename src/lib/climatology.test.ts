@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { buildWindClimatology, getRoseSector, getSpeedBin } from './climatology';
+
+// 2026-01-15 00:00 UTC
+const BASE = Date.UTC(2026, 0, 15) / 1000;
+
+const obs = (hoursAfter: number, wdir: number | null, wspd: number | null, wgst: number | null = null) => ({
+  time: '',
+  timestamp: BASE + hoursAfter * 3600,
+  wdir,
+  wspd,
+  wgst,
+});
+
+const RUNWAYS = [
+  { trueHdg: 10, low: '01', high: '19' },
+  { trueHdg: 100, low: '10L', high: '28R' },
+  { trueHdg: 100, low: '10R', high: '28L' },
+];
+
+describe('wind rose bins', () => {
+  it('centres sectors on the compass points', () => {
+    expect(getRoseSector(0)).toBe(0);
+    expect(getRoseSector(11)).toBe(0);
+    expect(getRoseSector(12)).toBe(1);
+    expect(getRoseSector(355)).toBe(0);
+    expect(getRoseSector(270)).toBe(12);
+  });
+
+  it('bins speeds by lower edge', () => {
+    expect(getSpeedBin(3)).toBe(0);
+    expect(getSpeedBin(9)).toBe(0);
+    expect(getSpeedBin(10)).toBe(1);
+    expect(getSpeedBin(19)).toBe(2);
+    expect(getSpeedBin(35)).toBe(3);
+  });
+});
+
+describe('buildWindClimatology', () => {
+  const observations = [
+    obs(0, 270, 12, 22),
+    obs(1, 270, 8),
+    obs(13, 180, 16, 24),
+    obs(14, null, 2),
+    obs(15, null, 6), // Variable wind with speed: no rose sector or crosswind
+    obs(16, 90, null),
+    obs(24 * 31, 10, 4), // February
+  ];
+  const climatology = buildWindClimatology(observations, RUNWAYS, 'UTC');
+
+  it('builds annual, monthly and hourly roses', () => {
+    expect(climatology.count).toBe(6);
+    expect(climatology.from).toBe(BASE);
+    expect(climatology.to).toBe(BASE + 24 * 31 * 3600);
+    expect(climatology.annual).toMatchObject({ total: 5, calm: 1 });
+    expect(climatology.annual.sectors[12]).toEqual([1, 1, 0, 0]);
+    expect(climatology.annual.sectors[8]).toEqual([0, 0, 1, 0]);
+    expect(climatology.monthly[0].total).toBe(4);
+    expect(climatology.monthly[1].sectors[0]).toEqual([1, 0, 0, 0]);
+    expect(climatology.hourly[0].total).toBe(2);
+  });
+
+  it('reports crosswind exceedance per runway group', () => {
+    expect(climatology.runways.map((r) => r.runway)).toEqual(['01/19', '10/28 L/R']);
+    const [rwy01, rwy10] = climatology.runways;
+    expect(rwy01.count).toBe(5);
+    // 270 at 12G22 is a 12kt (22kt gust) crosswind on runway 01
+    expect(rwy01.exceedance[0]).toEqual({ thresholdKt: 10, sustained: 20, gust: 20 });
+    expect(rwy01.exceedance[1]).toEqual({ thresholdKt: 15, sustained: 0, gust: 20 });
+    // 180 at 16G24 is a 16kt (24kt gust) crosswind on runway 10
+    expect(rwy10.exceedance[2]).toEqual({ thresholdKt: 20, sustained: 0, gust: 20 });
+  });
+
+  it('profiles wind and gusts by local hour', () => {
+    const local = buildWindClimatology(observations, RUNWAYS, 'America/New_York');
+    // Midnight UTC is 19:00 in New York in January
+    expect(local.gustProfile[19]).toEqual({ hour: 19, count: 2, medianWind: 8, medianGust: 22, gustFrequency: 50 });
+    expect(climatology.gustProfile[0]).toMatchObject({ count: 2, medianGust: 22 });
+    expect(climatology.gustProfile[5]).toEqual({
+      hour: 5,
+      count: 0,
+      medianWind: null,
+      medianGust: null,
+      gustFrequency: null,
+    });
+  });
+});
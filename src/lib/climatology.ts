@@ -0,0 +1,194 @@
+// Wind climatology from long-term observations: wind roses by month and local hour,
+// crosswind exceedance per runway and gust profiles by hour of day
+
+import { WindDataPoint } from './types';
+import { calculateWindComponents } from './wind-variability';
+import { RunwayEnds, groupRunways } from './runway-groups';
+
+export const ROSE_SECTORS = 16;          // 22.5° sectors centred on N, NNE, NE, ...
+export const ROSE_CALM_KT = 3;           // Below this the wind counts as calm
+// Lower edges (kt) of the speed bins stacked in each sector
+export const ROSE_SPEED_BINS = [ROSE_CALM_KT, 10, 15, 20];
+export const CROSSWIND_THRESHOLDS_KT = [10, 15, 20];
+
+export interface WindRose {
+  total: number;          // Observations counted (calm included)
+  calm: number;
+  sectors: number[][];    // [sector][speed bin] observation counts
+}
+
+export interface RunwayCrosswindStats {
+  runway: string;         // e.g., "04/22" or "04/22 L/R" for parallel runways
+  trueHdg: number;
+  count: number;          // Observations with a usable wind
+  exceedance: {
+    thresholdKt: number;
+    sustained: number;    // Percent of observations with sustained crosswind above the threshold
+    gust: number;         // Same, using the gust where one was reported
+  }[];
+}
+
+export interface HourlyGustProfile {
+  hour: number;                 // Local hour of day, 0-23
+  count: number;
+  medianWind: number | null;
+  medianGust: number | null;    // Of observations that reported a gust
+  gustFrequency: number | null; // Percent of observations that reported a gust
+}
+
+export interface WindClimatology {
+  count: number;
+  from: number | null;          // Unix timestamps of the first and last observation
+  to: number | null;
+  annual: WindRose;
+  monthly: WindRose[];          // Index 0 is January
+  hourly: WindRose[];           // Index 0 is the local hour starting at midnight
+  runways: RunwayCrosswindStats[];
+  gustProfile: HourlyGustProfile[];
+}
+
+export function getRoseSector(wdir: number): number {
+  return Math.round((((wdir % 360) + 360) % 360) / (360 / ROSE_SECTORS)) % ROSE_SECTORS;
+}
+
+export function getSpeedBin(wspd: number): number {
+  let bin = 0;
+  for (let i = 1; i < ROSE_SPEED_BINS.length; i++) {
+    if (wspd >= ROSE_SPEED_BINS[i]) bin = i;
+  }
+  return bin;
+}
+
+const emptyRose = (): WindRose => ({
+  total: 0,
+  calm: 0,
+  sectors: Array.from({ length: ROSE_SECTORS }, () => ROSE_SPEED_BINS.map(() => 0)),
+});
+
+function addToRose(rose: WindRose, wspd: number, wdir: number | null): void {
+  if (wspd < ROSE_CALM_KT) {
+    rose.total++;
+    rose.calm++;
+  } else if (wdir !== null) {
+    rose.total++;
+    rose.sectors[getRoseSector(wdir)][getSpeedBin(wspd)]++;
+  }
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  const value = sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+  return Math.round(value * 10) / 10;
+}
+
+const percent = (part: number, whole: number) => Math.round((part / whole) * 1000) / 10;
+
+// Local month (0-11) and hour (0-23) of a timestamp, formatted once per UTC hour
+function createLocalCalendar(timezone: string): (timestamp: number) => { month: number; hour: number } {
+  const format = new Intl.DateTimeFormat('en-US', {
+    month: 'numeric',
+    hour: 'numeric',
+    hourCycle: 'h23',
+    timeZone: timezone,
+  });
+  const byHour = new Map<number, { month: number; hour: number }>();
+  return (timestamp) => {
+    const hourStart = Math.floor(timestamp / 3600) * 3600;
+    let local = byHour.get(hourStart);
+    if (!local) {
+      const parts = format.formatToParts(new Date(hourStart * 1000));
+      const part = (type: string) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+      local = { month: part('month') - 1, hour: part('hour') % 24 };
+      byHour.set(hourStart, local);
+    }
+    return local;
+  };
+}
+
+// Build the climatology for an airport. Directions are binned as given, so pass
+// magnetic directions for a magnetic rose; runway crosswinds use true headings.
+export function buildWindClimatology(
+  observations: WindDataPoint[],
+  runways: RunwayEnds[],
+  timezone: string,
+  runwayDirections: (number | null)[] = observations.map((o) => o.wdir)
+): WindClimatology {
+  const localTime = createLocalCalendar(timezone);
+  const annual = emptyRose();
+  const monthly = Array.from({ length: 12 }, emptyRose);
+  const hourly = Array.from({ length: 24 }, emptyRose);
+  const winds: number[][] = Array.from({ length: 24 }, () => []);
+  const gusts: number[][] = Array.from({ length: 24 }, () => []);
+
+  const groups = groupRunways(runways);
+  const crosswinds = groups.map(() => ({
+    count: 0,
+    sustained: CROSSWIND_THRESHOLDS_KT.map(() => 0),
+    gust: CROSSWIND_THRESHOLDS_KT.map(() => 0),
+  }));
+
+  let count = 0;
+  let from: number | null = null;
+  let to: number | null = null;
+
+  observations.forEach((o, i) => {
+    if (o.wspd === null) return;
+    count++;
+    from = from === null ? o.timestamp : Math.min(from, o.timestamp);
+    to = to === null ? o.timestamp : Math.max(to, o.timestamp);
+
+    const { month, hour } = localTime(o.timestamp);
+    addToRose(annual, o.wspd, o.wdir);
+    addToRose(monthly[month], o.wspd, o.wdir);
+    addToRose(hourly[hour], o.wspd, o.wdir);
+    winds[hour].push(o.wspd);
+    if (o.wgst !== null) gusts[hour].push(o.wgst);
+
+    // Calm winds have no crosswind; a missing direction with wind can't be resolved
+    const trueDir = runwayDirections[i];
+    if (o.wspd >= ROSE_CALM_KT && trueDir === null) return;
+    const gustSpeed = o.wgst !== null && o.wgst > o.wspd ? o.wgst : o.wspd;
+    groups.forEach((group, g) => {
+      const stats = crosswinds[g];
+      stats.count++;
+      if (trueDir === null) return;
+      const sustained = calculateWindComponents(trueDir, o.wspd as number, group.trueHdg).crosswind;
+      const gust = calculateWindComponents(trueDir, gustSpeed, group.trueHdg).crosswind;
+      CROSSWIND_THRESHOLDS_KT.forEach((threshold, t) => {
+        if (sustained > threshold) stats.sustained[t]++;
+        if (gust > threshold) stats.gust[t]++;
+      });
+    });
+  });
+
+  return {
+    count,
+    from,
+    to,
+    annual,
+    monthly,
+    hourly,
+    runways: groups.map((group, g) => {
+      const stats = crosswinds[g];
+      return {
+        runway: group.legendLabel,
+        trueHdg: group.trueHdg,
+        count: stats.count,
+        exceedance: CROSSWIND_THRESHOLDS_KT.map((thresholdKt, t) => ({
+          thresholdKt,
+          sustained: stats.count ? percent(stats.sustained[t], stats.count) : 0,
+          gust: stats.count ? percent(stats.gust[t], stats.count) : 0,
+        })),
+      };
+    }),
+    gustProfile: winds.map((hourWinds, hour) => ({
+      hour,
+      count: hourWinds.length,
+      medianWind: median(hourWinds),
+      medianGust: median(gusts[hour]),
+      gustFrequency: hourWinds.length ? percent(gusts[hour].length, hourWinds.length) : null,
+    })),
+  };
+}
@@ -0,0 +1,279 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  cachedLoad,
+  getCacheMetrics,
+  resetDataCache,
+  loadMetar,
+  loadMetars,
+  loadNbmIndex,
+  loadNbmRunIndex,
+  getNbmIndexStats,
+  loadNbmCoverage,
+  peekNbmCoverage,
+  loadStoredObservations,
+} from './data-access';
+import { closeObservationStore, readObservations, saveObservations } from './observation-store';
+import { registerProvider, unregisterProvider, MetarReport, WeatherProvider } from './providers';
+
+const report = (station: string): MetarReport => ({
+  station,
+  wdir: 210,
+  wspd: 10,
+  wgst: null,
+});
+
+beforeEach(() => {
+  resetDataCache();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+  unregisterProvider('test-metar');
+  unregisterProvider('test-nbm');
+  unregisterProvider('test-obs');
+});
+
+describe('cachedLoad', () => {
+  it('serves repeat requests from the cache until the TTL expires', async () => {
+    vi.useFakeTimers();
+    const load = vi.fn(async () => 'TAF KFRG');
+    await cachedLoad('taf', 'KFRG', load);
+    await cachedLoad('taf', 'KFRG', load);
+    expect(load).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(5 * 60 * 1000);
+    await cachedLoad('taf', 'KFRG', load);
+    expect(load).toHaveBeenCalledTimes(2);
+    expect(getCacheMetrics().taf).toMatchObject({ hits: 1, misses: 2, size: 1 });
+  });
+
+  it('coalesces concurrent identical requests', async () => {
+    let resolve: (value: string) => void = () => {};
+    const load = vi.fn(() => new Promise<string>((r) => { resolve = r; }));
+    const requests = Array.from({ length: 10 }, () => cachedLoad('taf', 'KFRG', load));
+    resolve('TAF KFRG');
+    expect(await Promise.all(requests)).toEqual(Array(10).fill('TAF KFRG'));
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(getCacheMetrics().taf).toMatchObject({ misses: 1, coalesced: 9, hitRate: 0.9 });
+  });
+
+  it('does not cache failed loads', async () => {
+    const load = vi.fn(async () => null);
+    await cachedLoad('taf', 'KFRG', load);
+    await cachedLoad('taf', 'KFRG', load);
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('bypasses the cache on forced refresh once the entry is a few seconds old', async () => {
+    vi.useFakeTimers();
+    const load = vi.fn(async () => 'fresh');
+    await cachedLoad('taf', 'KFRG', load);
+    await cachedLoad('taf', 'KFRG', load, { forceRefresh: true });
+    expect(load).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(10 * 1000);
+    await cachedLoad('taf', 'KFRG', load, { forceRefresh: true });
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('METAR loads', () => {
+  it('shares per-station entries between single and batch requests', async () => {
+    const getMetars = vi.fn(async (icaos: string[]) => icaos.map(report));
+    const provider: WeatherProvider = {
+      id: 'test-metar',
+      name: 'Test METARs',
+      metar: { getMetars, getTaf: async () => null },
+    };
+    registerProvider(provider);
+    vi.stubEnv('WEATHER_METAR_PROVIDER', 'test-metar');
+
+    await loadMetar('kfrg');
+    const batch = await loadMetars(['KFRG', 'KJFK', 'KLGA']);
+
+    expect(batch.map((r) => r.station).sort()).toEqual(['KFRG', 'KJFK', 'KLGA']);
+    expect(getMetars).toHaveBeenCalledTimes(2);
+    expect(getMetars).toHaveBeenLastCalledWith(['KJFK', 'KLGA']);
+
+    await loadMetars(['KJFK', 'KLGA']);
+    expect(getMetars).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('loadStoredObservations', () => {
+  afterEach(() => {
+    closeObservationStore();
+  });
+
+  it('fetches only the span after the newest stored observation', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-02-06T12:00:00Z'));
+    const nowSec = Date.now() / 1000;
+    const point = (minutesAgo: number) => ({
+      time: '',
+      timestamp: nowSec - minutesAgo * 60,
+      wspd: 10,
+      wgst: null,
+      wdir: 210,
+    });
+    const getObservations = vi.fn(async (_icao: string, hours: number) => ({
+      stationName: 'Republic',
+      observations: hours > 1 ? [point(170), point(90), point(50)] : [point(50), point(5)],
+    }));
+    registerProvider({ id: 'test-obs', name: 'Test observations', observations: { getObservations } });
+    vi.stubEnv('WEATHER_OBSERVATION_PROVIDER', 'test-obs');
+    vi.stubEnv(
+      'OBSERVATION_STORE_PATH',
+      path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'windplot-store-')), 'observations.db')
+    );
+
+    // Empty store: the whole window comes from upstream and is saved
+    await loadStoredObservations('KFRG', 3);
+    expect(getObservations).toHaveBeenLastCalledWith('KFRG', 3, {});
+    expect(readObservations('KFRG', 0)).toHaveLength(3);
+
+    // Store covers the window: only the last hour is fetched
+    vi.advanceTimersByTime(30 * 1000);
+    const series = await loadStoredObservations('KFRG', 3);
+    expect(getObservations).toHaveBeenLastCalledWith('KFRG', 1, {});
+    expect(series?.stationName).toBe('Republic');
+    expect(series?.observations.map((o) => Math.round((nowSec - o.timestamp) / 60))).toEqual([170, 90, 50, 5]);
+  });
+
+  it('backfills a hole inside the stored window', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-02-06T12:00:00Z'));
+    const nowSec = Date.now() / 1000;
+    const point = (minutesAgo: number) => ({
+      time: '',
+      timestamp: nowSec - minutesAgo * 60,
+      wspd: 10,
+      wgst: null,
+      wdir: 210,
+    });
+    const every5Min = (fromMinutesAgo: number, toMinutesAgo: number) =>
+      Array.from({ length: (fromMinutesAgo - toMinutesAgo) / 5 + 1 }, (_, i) => point(fromMinutesAgo - i * 5));
+    const getObservations = vi.fn(async (_icao: string, hours: number) => ({
+      stationName: 'Republic',
+      observations: every5Min(hours * 60, 0),
+    }));
+    registerProvider({ id: 'test-obs', name: 'Test observations', observations: { getObservations } });
+    vi.stubEnv('WEATHER_OBSERVATION_PROVIDER', 'test-obs');
+    vi.stubEnv(
+      'OBSERVATION_STORE_PATH',
+      path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'windplot-store-')), 'observations.db')
+    );
+
+    // Stored from 34h to 10h ago, then the last hour: a 9h hole inside a 24h window
+    saveObservations('KFRG', [...every5Min(34 * 60, 10 * 60), ...every5Min(60, 0)]);
+    const series = await loadStoredObservations('KFRG', 24);
+    expect(getObservations).toHaveBeenLastCalledWith('KFRG', 10, {});
+    const spacings = series!.observations.slice(1).map((o, i) => o.timestamp - series!.observations[i].timestamp);
+    expect(Math.max(...spacings)).toBe(5 * 60);
+  });
+});
+
+describe('loadNbmIndex', () => {
+  const bulletin = (cycle: string) => `
+KFRG   NBM V4.3 NBH GUIDANCE    ${cycle}  0000 UTC
+ UTC  01 02 03
+ WDR  34 33 34
+ WSP   1  1  2
+`;
+
+  it('indexes each NBM cycle once', async () => {
+    vi.useFakeTimers();
+    let text = bulletin('2/05/2026');
+    const getNbmBulletin = vi.fn(async () => text);
+    const getNbmCycleBulletin = vi.fn(async () => null);
+    registerProvider({ id: 'test-nbm', name: 'Test NBM', forecast: { getNbmBulletin, getNbmCycleBulletin } });
+    vi.stubEnv('WEATHER_FORECAST_PROVIDER', 'test-nbm');
+
+    const first = await loadNbmIndex('nbh');
+    expect(first?.stations.get('KFRG')?.wsp).toEqual([1, 1, 2]);
+    expect(await loadNbmIndex('nbh')).toBe(first);
+    expect(getNbmBulletin).toHaveBeenCalledTimes(1);
+
+    // Cache expiry refetches the bulletin but reuses the index for an unchanged cycle
+    vi.advanceTimersByTime(15 * 60 * 1000);
+    expect(await loadNbmIndex('nbh')).toBe(first);
+    expect(getNbmBulletin).toHaveBeenCalledTimes(2);
+
+    text = bulletin('2/06/2026');
+    vi.advanceTimersByTime(15 * 60 * 1000);
+    const next = await loadNbmIndex('nbh');
+    expect(next).not.toBe(first);
+    expect(getNbmIndexStats()).toMatchObject([
+      { productType: 'nbh', cycle: '2026-02-06T00:00:00.000Z', stations: 1 },
+    ]);
+  });
+
+  it('loads earlier cycles once and reuses the latest index for its own cycle', async () => {
+    const getNbmBulletin = vi.fn(async () => bulletin('2/06/2026'));
+    const getNbmCycleBulletin = vi.fn(async () => bulletin('2/05/2026'));
+    registerProvider({ id: 'test-nbm', name: 'Test NBM', forecast: { getNbmBulletin, getNbmCycleBulletin } });
+    vi.stubEnv('WEATHER_FORECAST_PROVIDER', 'test-nbm');
+
+    const latest = await loadNbmIndex('nbh');
+    expect(await loadNbmRunIndex('nbh', new Date('2026-02-06T00:00:00Z'))).toBe(latest);
+    expect(getNbmCycleBulletin).not.toHaveBeenCalled();
+
+    const previousCycle = new Date('2026-02-05T00:00:00Z');
+    const previous = await loadNbmRunIndex('nbh', previousCycle);
+    expect(previous?.cycle?.toISOString()).toBe('2026-02-05T00:00:00.000Z');
+    expect(await loadNbmRunIndex('nbh', previousCycle)).toBe(previous);
+    expect(getNbmCycleBulletin).toHaveBeenCalledTimes(1);
+    expect(getNbmCycleBulletin).toHaveBeenCalledWith('nbh', previousCycle);
+  });
+
+  it('catalogs which stations each bulletin covers', async () => {
+    const getNbmBulletin = vi.fn(async (productType: string) =>
+      productType === 'nbh'
+        ? bulletin('2/06/2026')
+        : bulletin('2/06/2026').replace('NBH', 'NBS') + bulletin('2/06/2026').replace('KFRG', 'KISP').replace('NBH', 'NBS')
+    );
+    const getNbmCycleBulletin = vi.fn(async () => null);
+    registerProvider({ id: 'test-nbm', name: 'Test NBM', forecast: { getNbmBulletin, getNbmCycleBulletin } });
+    vi.stubEnv('WEATHER_FORECAST_PROVIDER', 'test-nbm');
+
+    const coverage = await loadNbmCoverage();
+    expect(coverage.products).toEqual(['nbh', 'nbs']);
+    expect(coverage.stations.get('KFRG')).toEqual(['nbh', 'nbs']);
+    expect(coverage.stations.get('KISP')).toEqual(['nbs']);
+    expect(coverage.stations.has('KCDW')).toBe(false);
+
+    // Built once while the indexes are unchanged
+    expect(await loadNbmCoverage()).toBe(coverage);
+    expect(getNbmBulletin).toHaveBeenCalledTimes(2);
+  });
+
+  it('peeks at coverage without waiting, loading it in the background', async () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    let available = false;
+    const getNbmBulletin = vi.fn(async (productType: string) =>
+      available ? bulletin('2/06/2026').replace('NBH', productType.toUpperCase()) : null
+    );
+    const getNbmCycleBulletin = vi.fn(async () => null);
+    registerProvider({ id: 'test-nbm', name: 'Test NBM', forecast: { getNbmBulletin, getNbmCycleBulletin } });
+    vi.stubEnv('WEATHER_FORECAST_PROVIDER', 'test-nbm');
+
+    // Upstream down: one background attempt, not one per call
+    expect(peekNbmCoverage()).toBeNull();
+    expect(peekNbmCoverage()).toBeNull();
+    await loadNbmCoverage(); // Joins the background load
+    expect(getNbmBulletin).toHaveBeenCalledTimes(2);
+
+    available = true;
+    vi.advanceTimersByTime(5 * 60 * 1000);
+    expect(peekNbmCoverage()).toBeNull();
+    await loadNbmCoverage();
+    expect(getNbmBulletin).toHaveBeenCalledTimes(4);
+    expect(peekNbmCoverage()?.stations.has('KFRG')).toBe(true);
+    vi.restoreAllMocks();
+  });
+});
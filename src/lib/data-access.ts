@@ -0,0 +1,448 @@
+// Server-side data-access layer for upstream weather data
+// Every upstream read goes through a per-resource TTL/LRU cache with single-flight
+// de-duplication, so concurrent requests for the same station share one fetch
+
+import { createLruCache, LruCache } from './lru-cache';
+import {
+  getCapability,
+  getSelectedProviderId,
+  MetarReport,
+  ObservationSeries,
+  ObservationStationInfo,
+} from './providers';
+import {
+  NbmProductType,
+  NbmBulletinIndex,
+  indexNbmBulletin,
+  getNbmBulletinCycle,
+} from './nbm-parser';
+import { NbmCoverage, NBM_COVERAGE_PRODUCTS, buildNbmCoverage } from './nbm-coverage';
+import { WindDataPoint } from './types';
+import {
+  isObservationStoreEnabled,
+  mergeObservations,
+  readMetars,
+  readObservations,
+  saveObservations,
+} from './observation-store';
+
+// Value type held for each cached resource
+interface ResourceTypes {
+  observations: ObservationSeries;
+  stations: ObservationStationInfo[];
+  metar: MetarReport;
+  metarHistory: MetarReport[];
+  taf: string;
+  nbmIndex: NbmBulletinIndex;
+  nbmRun: NbmBulletinIndex;
+}
+
+export type DataResource = keyof ResourceTypes;
+
+const RESOURCE_CONFIG: Record<DataResource, { ttlMs: number; maxEntries: number }> = {
+  observations: { ttlMs: 60 * 1000, maxEntries: 200 },
+  stations: { ttlMs: 6 * 60 * 60 * 1000, maxEntries: 500 },
+  metar: { ttlMs: 60 * 1000, maxEntries: 1000 },
+  metarHistory: { ttlMs: 5 * 60 * 1000, maxEntries: 200 },
+  taf: { ttlMs: 5 * 60 * 1000, maxEntries: 500 },
+  nbmIndex: { ttlMs: 15 * 60 * 1000, maxEntries: 4 },
+  nbmRun: { ttlMs: 60 * 60 * 1000, maxEntries: 8 }, // Earlier cycles never change
+};
+
+// Forced refreshes still reuse entries fetched moments ago by another client
+const FORCE_REFRESH_MIN_AGE_MS = 10 * 1000;
+
+export interface CacheMetrics {
+  hits: number;
+  misses: number;
+  coalesced: number;  // Requests that joined an identical in-flight fetch
+  evictions: number;
+  size: number;
+  hitRate: number | null;
+}
+
+interface ResourceState<V> {
+  cache: LruCache<V>;
+  inFlight: Map<string, Promise<V | null>>;
+  hits: number;
+  misses: number;
+  coalesced: number;
+}
+
+type ResourceStates = { [R in DataResource]: ResourceState<ResourceTypes[R]> };
+
+function createStates(): ResourceStates {
+  const create = <R extends DataResource>(resource: R): ResourceState<ResourceTypes[R]> => ({
+    cache: createLruCache<ResourceTypes[R]>(RESOURCE_CONFIG[resource]),
+    inFlight: new Map(),
+    hits: 0,
+    misses: 0,
+    coalesced: 0,
+  });
+  return {
+    observations: create('observations'),
+    stations: create('stations'),
+    metar: create('metar'),
+    metarHistory: create('metarHistory'),
+    taf: create('taf'),
+    nbmIndex: create('nbmIndex'),
+    nbmRun: create('nbmRun'),
+  };
+}
+
+let states = createStates();
+
+export interface LoadOptions {
+  forceRefresh?: boolean;
+}
+
+// Read a resource through the cache, calling load() on a miss.
+// Concurrent misses for the same key share one load; null results are not cached.
+export async function cachedLoad<R extends DataResource>(
+  resource: R,
+  key: string,
+  load: () => Promise<ResourceTypes[R] | null>,
+  { forceRefresh = false }: LoadOptions = {}
+): Promise<ResourceTypes[R] | null> {
+  const state = states[resource] as ResourceState<ResourceTypes[R]>;
+
+  const cached = state.cache.get(key);
+  if (cached && (!forceRefresh || Date.now() - cached.storedAt < FORCE_REFRESH_MIN_AGE_MS)) {
+    state.hits++;
+    return cached.value;
+  }
+
+  const pending = state.inFlight.get(key);
+  if (pending) {
+    state.coalesced++;
+    return pending;
+  }
+
+  state.misses++;
+  const request = load()
+    .then((value) => {
+      if (value !== null) state.cache.set(key, value);
+      return value;
+    })
+    .finally(() => {
+      state.inFlight.delete(key);
+    });
+  state.inFlight.set(key, request);
+  return request;
+}
+
+export function getCacheMetrics(): Record<DataResource, CacheMetrics> {
+  const metrics = {} as Record<DataResource, CacheMetrics>;
+  for (const resource of Object.keys(states) as DataResource[]) {
+    const { cache, hits, misses, coalesced } = states[resource];
+    const lookups = hits + misses + coalesced;
+    metrics[resource] = {
+      hits,
+      misses,
+      coalesced,
+      evictions: cache.evictions,
+      size: cache.size,
+      hitRate: lookups ? Math.round(((hits + coalesced) / lookups) * 1000) / 1000 : null,
+    };
+  }
+  return metrics;
+}
+
+// Drop all cached data and counters
+export function resetDataCache(): void {
+  states = createStates();
+  latestNbmIndexes.clear();
+  latestNbmCoverage = null;
+  lastCoverageWarmAt = 0;
+}
+
+// Station observations for the last `hours`
+export async function loadObservations(
+  icao: string,
+  hours: number,
+  options: LoadOptions = {}
+): Promise<ObservationSeries | null> {
+  const source = getCapability('observations');
+  if (!source) return null;
+  const upperIcao = icao.toUpperCase();
+  return cachedLoad(
+    'observations',
+    `${getSelectedProviderId('observations')}:${upperIcao}:${hours}`,
+    () => source.getObservations(upperIcao, hours, options),
+    options
+  );
+}
+
+// Observing stations within radiusMiles of a point, as listed by the observation
+// provider; an empty list when the provider has no station search
+export async function loadObservationStations(
+  lat: number,
+  lon: number,
+  radiusMiles: number
+): Promise<ObservationStationInfo[] | null> {
+  const source = getCapability('observations');
+  if (!source?.findStations) return source ? [] : null;
+  const findStations = source.findStations.bind(source);
+  return cachedLoad(
+    'stations',
+    `${getSelectedProviderId('observations')}:${lat.toFixed(3)},${lon.toFixed(3)}:${radiusMiles}`,
+    () => findStations(lat, lon, radiusMiles)
+  );
+}
+
+// A stored series starting this close to the window start counts as covering it
+const STORE_COVERAGE_SLACK_SEC = 15 * 60;
+// Stored rows further apart than this, or than several of the station's usual reporting
+// intervals, leave a hole to backfill
+const STORE_MIN_GAP_SEC = 30 * 60;
+const STORE_GAP_INTERVALS = 3;
+
+// Start of the oldest span of the window the store is missing: the window start when the
+// store doesn't reach back far enough, the start of the first hole, or the newest row
+function findStoreHoleStart(stored: WindDataPoint[], since: number): number {
+  if (stored.length === 0 || stored[0].timestamp > since + STORE_COVERAGE_SLACK_SEC) return since;
+
+  const spacings = stored.slice(1).map((o, i) => o.timestamp - stored[i].timestamp);
+  const typical = [...spacings].sort((a, b) => a - b)[Math.floor(spacings.length / 2)] ?? 0;
+  const maxGap = Math.max(STORE_MIN_GAP_SEC, typical * STORE_GAP_INTERVALS);
+  const hole = spacings.findIndex((spacing) => spacing > maxGap);
+  return hole === -1 ? stored[stored.length - 1].timestamp : stored[hole].timestamp;
+}
+
+// Observations for the last `hours`, read from the local observation store when it is
+// enabled. Only the span from the oldest missing stretch onwards (after the newest stored
+// observation when nothing is missing) is fetched upstream, and what is fetched is saved.
+export async function loadStoredObservations(
+  icao: string,
+  hours: number,
+  options: LoadOptions = {}
+): Promise<ObservationSeries | null> {
+  if (!isObservationStoreEnabled()) return loadObservations(icao, hours, options);
+
+  const upperIcao = icao.toUpperCase();
+  const nowSec = Date.now() / 1000;
+  const since = nowSec - hours * 3600;
+  const stored = readObservations(upperIcao, since);
+
+  const holeStart = findStoreHoleStart(stored, since);
+  const fetchHours = Math.min(Math.max(Math.ceil((nowSec - holeStart) / 3600), 1), hours);
+
+  const series = await loadObservations(upperIcao, fetchHours, options);
+  if (series) saveObservations(upperIcao, series.observations);
+
+  const observations = mergeObservations(stored, series?.observations ?? []);
+  if (observations.length === 0) return series;
+  return { stationName: series?.stationName ?? null, observations };
+}
+
+// Latest METAR for a single station
+export async function loadMetar(icao: string): Promise<MetarReport | null> {
+  const source = getCapability('metar');
+  if (!source) return null;
+  const upperIcao = icao.toUpperCase();
+  return cachedLoad('metar', `${getSelectedProviderId('metar')}:${upperIcao}`, async () => {
+    const reports = await source.getMetars([upperIcao]);
+    return reports?.[0] ?? null;
+  });
+}
+
+// Latest METARs for several stations. Cached stations are served from memory and
+// the rest are fetched in one upstream call, then cached per station.
+export async function loadMetars(icaos: string[]): Promise<MetarReport[]> {
+  const source = getCapability('metar');
+  if (!source || icaos.length === 0) return [];
+  const providerId = getSelectedProviderId('metar');
+  const keyFor = (station: string) => `${providerId}:${station}`;
+  const state = states.metar;
+
+  const stations = [...new Set(icaos.map((s) => s.toUpperCase()))];
+  const reports: MetarReport[] = [];
+  const missing: string[] = [];
+  for (const station of stations) {
+    const cached = state.cache.get(keyFor(station));
+    if (cached) {
+      state.hits++;
+      reports.push(cached.value);
+    } else {
+      missing.push(station);
+    }
+  }
+  if (missing.length === 0) return reports;
+
+  const batchKey = `${providerId}:batch:${missing.sort().join(',')}`;
+  const fetched = await batchMetarLoads(batchKey, async () => {
+    const result = await source.getMetars(missing);
+    for (const report of result ?? []) state.cache.set(keyFor(report.station), report);
+    return result ?? [];
+  });
+  return [...reports, ...fetched];
+}
+
+// Single-flight for batch METAR fetches; results are cached per station instead
+const inFlightMetarBatches = new Map<string, Promise<MetarReport[]>>();
+
+function batchMetarLoads(
+  key: string,
+  load: () => Promise<MetarReport[]>
+): Promise<MetarReport[]> {
+  const pending = inFlightMetarBatches.get(key);
+  if (pending) {
+    states.metar.coalesced++;
+    return pending;
+  }
+  states.metar.misses++;
+  const request = load().finally(() => inFlightMetarBatches.delete(key));
+  inFlightMetarBatches.set(key, request);
+  return request;
+}
+
+// Hourly and special METARs for the last `hours`, oldest first, joined with METARs kept
+// in the local observation store when it is enabled (fetched reports win on the same time)
+export async function loadMetarHistory(
+  icao: string,
+  hours: number,
+  options: LoadOptions = {}
+): Promise<MetarReport[] | null> {
+  const source = getCapability('metar');
+  const getMetarHistory = source?.getMetarHistory?.bind(source);
+  const upperIcao = icao.toUpperCase();
+  const fetched = getMetarHistory
+    ? await cachedLoad(
+        'metarHistory',
+        `${getSelectedProviderId('metar')}:${upperIcao}:${hours}`,
+        () => getMetarHistory(upperIcao, hours),
+        options
+      )
+    : null;
+
+  if (!isObservationStoreEnabled()) return fetched;
+  const stored = readMetars(upperIcao, Date.now() / 1000 - hours * 3600);
+  if (stored.length === 0) return fetched;
+  const byTime = new Map(stored.map((r) => [r.obsTime, r]));
+  for (const report of fetched ?? []) byTime.set(report.obsTime, report);
+  return [...byTime.values()].sort((a, b) => (a.obsTime ?? 0) - (b.obsTime ?? 0));
+}
+
+// Raw TAF text for a station
+export async function loadTaf(icao: string): Promise<string | null> {
+  const source = getCapability('metar');
+  if (!source) return null;
+  const upperIcao = icao.toUpperCase();
+  return cachedLoad('taf', `${getSelectedProviderId('metar')}:${upperIcao}`, () =>
+    source.getTaf(upperIcao)
+  );
+}
+
+// Most recent index per provider/product, kept across cache expiry so a refetch
+// of the same NBM cycle reuses it instead of parsing the bulletin again
+const latestNbmIndexes = new Map<string, NbmBulletinIndex>();
+
+// Station-keyed index of the latest NBM bulletin for a product, built once per cycle
+export async function loadNbmIndex(productType: NbmProductType): Promise<NbmBulletinIndex | null> {
+  const source = getCapability('forecast');
+  if (!source) return null;
+  const key = `${getSelectedProviderId('forecast')}:${productType}`;
+
+  return cachedLoad('nbmIndex', key, async () => {
+    const text = await source.getNbmBulletin(productType);
+    if (!text) return null;
+
+    const previous = latestNbmIndexes.get(key);
+    const cycle = getNbmBulletinCycle(text);
+    if (previous?.cycle && cycle && previous.cycle.getTime() === cycle.getTime()) {
+      return previous;
+    }
+
+    const index = indexNbmBulletin(text, productType);
+    if (index.stations.size === 0) return null;
+    latestNbmIndexes.set(key, index);
+    return index;
+  });
+}
+
+// Station-keyed index of an earlier NBM cycle, for comparing runs
+export async function loadNbmRunIndex(
+  productType: NbmProductType,
+  cycle: Date
+): Promise<NbmBulletinIndex | null> {
+  const source = getCapability('forecast');
+  if (!source) return null;
+  const providerId = getSelectedProviderId('forecast');
+
+  // The latest index may already be this cycle
+  const latest = latestNbmIndexes.get(`${providerId}:${productType}`);
+  if (latest?.cycle?.getTime() === cycle.getTime()) return latest;
+
+  return cachedLoad('nbmRun', `${providerId}:${productType}:${cycle.toISOString()}`, async () => {
+    const text = await source.getNbmCycleBulletin(productType, cycle);
+    if (!text) return null;
+    const index = indexNbmBulletin(text, productType);
+    return index.stations.size > 0 ? index : null;
+  });
+}
+
+// Coverage catalog and the indexes it was built from
+let latestNbmCoverage: { indexes: NbmBulletinIndex[]; coverage: NbmCoverage } | null = null;
+
+// Which stations the NBM bulletins cover. Indexes already in memory are used even
+// after their cache entry expires, since station lists rarely change between cycles.
+export async function loadNbmCoverage(): Promise<NbmCoverage> {
+  const providerId = getSelectedProviderId('forecast');
+  const loaded = await Promise.all(
+    NBM_COVERAGE_PRODUCTS.map(
+      (productType) => latestNbmIndexes.get(`${providerId}:${productType}`) ?? loadNbmIndex(productType)
+    )
+  );
+  return coverageFor(loaded.filter((index): index is NbmBulletinIndex => index !== null));
+}
+
+// Catalog for a set of indexes, reused while the indexes are unchanged
+function coverageFor(indexes: NbmBulletinIndex[]): NbmCoverage {
+  const previous = latestNbmCoverage;
+  if (
+    previous &&
+    previous.indexes.length === indexes.length &&
+    previous.indexes.every((index, i) => index === indexes[i])
+  ) {
+    return previous.coverage;
+  }
+  const coverage = buildNbmCoverage(indexes);
+  latestNbmCoverage = { indexes, coverage };
+  return coverage;
+}
+
+// Shortest time between background coverage loads, so an unreachable upstream
+// isn't retried on every call
+const COVERAGE_WARM_INTERVAL_MS = 5 * 60 * 1000;
+let lastCoverageWarmAt = 0;
+
+// Coverage from indexes already in memory, without waiting on a bulletin download.
+// Null until every coverage bulletin is indexed; missing ones are loaded in the background.
+export function peekNbmCoverage(): NbmCoverage | null {
+  const providerId = getSelectedProviderId('forecast');
+  const indexes = NBM_COVERAGE_PRODUCTS.map((productType) => latestNbmIndexes.get(`${providerId}:${productType}`));
+  if (indexes.every((index): index is NbmBulletinIndex => index !== undefined)) return coverageFor(indexes);
+
+  if (Date.now() - lastCoverageWarmAt >= COVERAGE_WARM_INTERVAL_MS) {
+    lastCoverageWarmAt = Date.now();
+    loadNbmCoverage().catch((error) => console.error('NBM coverage load error:', error));
+  }
+  return null;
+}
+
+export interface NbmIndexStats {
+  productType: NbmProductType;
+  cycle: string | null;  // ISO timestamp
+  stations: number;
+  parseMs: number;
+}
+
+// Cycle, size and parse time of each NBM index held in memory
+export function getNbmIndexStats(): NbmIndexStats[] {
+  return [...latestNbmIndexes.values()].map((index) => ({
+    productType: index.productType,
+    cycle: index.cycle ? index.cycle.toISOString() : null,
+    stations: index.stations.size,
+    parseMs: Math.round(index.parseMs * 10) / 10,
+  }));
+}
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { getFlightCategory, formatCeiling, formatVisibilityMiles } from './flight-category';
+
+describe('getFlightCategory', () => {
+  it('classifies by ceiling', () => {
+    expect(getFlightCategory(null, 10)).toBe('VFR');
+    expect(getFlightCategory(3500, 10)).toBe('VFR');
+    expect(getFlightCategory(3000, 10)).toBe('MVFR');
+    expect(getFlightCategory(1000, 10)).toBe('MVFR');
+    expect(getFlightCategory(900, 10)).toBe('IFR');
+    expect(getFlightCategory(400, 10)).toBe('LIFR');
+  });
+
+  it('classifies by visibility', () => {
+    expect(getFlightCategory(null, 6)).toBe('VFR');
+    expect(getFlightCategory(null, 5)).toBe('MVFR');
+    expect(getFlightCategory(null, 3)).toBe('MVFR');
+    expect(getFlightCategory(null, 2.5)).toBe('IFR');
+    expect(getFlightCategory(null, 0.5)).toBe('LIFR');
+  });
+
+  it('takes the worse of ceiling and visibility', () => {
+    expect(getFlightCategory(2000, 0.8)).toBe('LIFR');
+    expect(getFlightCategory(700, 4)).toBe('IFR');
+  });
+
+  it('returns null when visibility or ceiling is missing', () => {
+    expect(getFlightCategory(5000, null)).toBeNull();
+    expect(getFlightCategory(undefined, 10)).toBeNull();
+  });
+});
+
+describe('formatting', () => {
+  it('formats ceiling and visibility', () => {
+    expect(formatCeiling(1200)).toBe('1,200 ft');
+    expect(formatCeiling(null)).toBe('Unlimited');
+    expect(formatCeiling(undefined)).toBe('Missing');
+    expect(formatVisibilityMiles(10)).toBe('10 SM');
+    expect(formatVisibilityMiles(2.5)).toBe('2.5 SM');
+  });
+});
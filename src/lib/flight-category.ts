@@ -0,0 +1,54 @@
+// FAA flight categories from ceiling and visibility
+// LIFR: ceiling < 500 ft or visibility < 1 SM
+// IFR:  ceiling 500 to < 1,000 ft or visibility 1 to < 3 SM
+// MVFR: ceiling 1,000 to 3,000 ft or visibility 3 to 5 SM
+// VFR:  ceiling > 3,000 ft and visibility > 5 SM
+
+export type FlightCategory = 'VFR' | 'MVFR' | 'IFR' | 'LIFR';
+
+export const FLIGHT_CATEGORY_COLORS: Record<FlightCategory, string> = {
+  VFR: '#22c55e',
+  MVFR: '#3b82f6',
+  IFR: '#ef4444',
+  LIFR: '#d946ef',
+};
+
+const SEVERITY: FlightCategory[] = ['VFR', 'MVFR', 'IFR', 'LIFR'];
+
+function ceilingCategory(ceilingFt: number | null): FlightCategory {
+  if (ceilingFt === null) return 'VFR'; // No ceiling
+  if (ceilingFt < 500) return 'LIFR';
+  if (ceilingFt < 1000) return 'IFR';
+  if (ceilingFt <= 3000) return 'MVFR';
+  return 'VFR';
+}
+
+function visibilityCategory(visibilityMi: number): FlightCategory {
+  if (visibilityMi < 1) return 'LIFR';
+  if (visibilityMi < 3) return 'IFR';
+  if (visibilityMi <= 5) return 'MVFR';
+  return 'VFR';
+}
+
+// Worse of the ceiling and visibility categories, or null (unknown) when either is missing.
+// ceilingFt: null means no ceiling (unlimited), undefined means missing; visibilityMi: null means unknown.
+export function getFlightCategory(
+  ceilingFt: number | null | undefined,
+  visibilityMi: number | null
+): FlightCategory | null {
+  if (ceilingFt === undefined || visibilityMi === null) return null;
+  const byCeiling = ceilingCategory(ceilingFt);
+  const byVisibility = visibilityCategory(visibilityMi);
+  return SEVERITY.indexOf(byCeiling) > SEVERITY.indexOf(byVisibility) ? byCeiling : byVisibility;
+}
+
+// "1,200 ft", "Unlimited" or "Missing"
+export function formatCeiling(ceilingFt: number | null | undefined): string {
+  if (ceilingFt === undefined) return 'Missing';
+  return ceilingFt === null ? 'Unlimited' : `${ceilingFt.toLocaleString('en-US')} ft`;
+}
+
+// "10 SM", "2.5 SM", "0.3 SM"
+export function formatVisibilityMiles(visibilityMi: number): string {
+  return `${Number.isInteger(visibilityMi) ? visibilityMi : visibilityMi.toFixed(1)} SM`;
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { archiveForecastRun, readForecastArchive, resetForecastArchiveState } from './forecast-archive';
+
+const DAY = 24 * 60 * 60;
+
+const run = (generatedAt: number) => ({
+  productType: 'nbh' as const,
+  generatedAt,
+  forecasts: [{ timestamp: generatedAt + 3600, wspd: 10, wgst: 18 }],
+});
+
+beforeEach(() => {
+  resetForecastArchiveState();
+  vi.stubEnv('FORECAST_ARCHIVE_DIR', fs.mkdtempSync(path.join(os.tmpdir(), 'windplot-archive-')));
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('forecast archive', () => {
+  it('keeps each run once, oldest first', async () => {
+    const now = 100 * DAY * 1000;
+    archiveForecastRun('kfrg', run(100 * DAY - 3600), now);
+    archiveForecastRun('KFRG', run(100 * DAY - 7200), now);
+    await archiveForecastRun('KFRG', run(100 * DAY - 3600), now);
+    resetForecastArchiveState();
+    await archiveForecastRun('KFRG', run(100 * DAY - 3600), now);
+
+    expect((await readForecastArchive('KFRG')).map((r) => r.generatedAt)).toEqual([100 * DAY - 7200, 100 * DAY - 3600]);
+    expect(await readForecastArchive('KJFK')).toEqual([]);
+  });
+
+  it('drops runs past the retention period', async () => {
+    await archiveForecastRun('KFRG', run(DAY), DAY * 1000);
+    await archiveForecastRun('KFRG', run(40 * DAY), 40 * DAY * 1000);
+    expect((await readForecastArchive('KFRG')).map((r) => r.generatedAt)).toEqual([40 * DAY]);
+  });
+
+  it('is disabled without a configured directory', async () => {
+    vi.stubEnv('FORECAST_ARCHIVE_DIR', '');
+    const mkdir = vi.spyOn(fs.promises, 'mkdir');
+    await archiveForecastRun('KFRG', run(DAY), DAY * 1000);
+    expect(mkdir).not.toHaveBeenCalled();
+    expect(await readForecastArchive('KFRG')).toEqual([]);
+  });
+
+  it('stops writing after the directory turns out to be unwritable', async () => {
+    const blocker = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'windplot-archive-')), 'file');
+    fs.writeFileSync(blocker, '');
+    vi.stubEnv('FORECAST_ARCHIVE_DIR', path.join(blocker, 'archive'));
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await archiveForecastRun('KFRG', run(DAY), DAY * 1000);
+    await archiveForecastRun('KFRG', run(2 * DAY), 2 * DAY * 1000);
+    expect(error.mock.calls.filter(([message]) => message === 'Forecast archive write error:')).toHaveLength(1);
+  });
+});
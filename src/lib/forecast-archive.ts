@@ -0,0 +1,90 @@
+// Archive of issued NBM forecasts per airport, kept on disk for verification.
+// One JSON file per airport in FORECAST_ARCHIVE_DIR; archiving is off when it is unset.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { NbmProductType } from './nbm-parser';
+import { ForecastRun } from './types';
+
+// Runs older than this are dropped when the archive is written
+const RETENTION_SEC = 30 * 24 * 60 * 60;
+
+export interface ArchivedForecastRun extends ForecastRun {
+  productType: NbmProductType;
+}
+
+interface ForecastArchiveFile {
+  icao: string;
+  runs: ArchivedForecastRun[];
+}
+
+// Absolute path of the archive directory, or null when archiving is disabled
+export function getForecastArchiveDir(): string | null {
+  const configured = process.env.FORECAST_ARCHIVE_DIR?.trim();
+  return configured ? path.resolve(process.cwd(), configured) : null;
+}
+
+const getArchivePath = (dir: string, icao: string) => path.join(dir, `${icao.toUpperCase()}.json`);
+
+// Runs already on disk (or queued), so repeated forecast requests don't rewrite the archive
+const archivedRunKeys = new Set<string>();
+// Directory a write failed in; read-only deployments stop trying after the first error
+let unwritableDir: string | null = null;
+// Writes run one at a time off the request path; reads wait for the queue
+let writeQueue: Promise<void> = Promise.resolve();
+
+const runKey = (icao: string, run: ArchivedForecastRun) =>
+  `${icao.toUpperCase()}:${run.productType}:${run.generatedAt}`;
+
+async function readRuns(dir: string, icao: string): Promise<ArchivedForecastRun[]> {
+  try {
+    const file = JSON.parse(await fs.promises.readFile(getArchivePath(dir, icao), 'utf8')) as ForecastArchiveFile;
+    return file.runs ?? [];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') console.error('Forecast archive read error:', error);
+    return [];
+  }
+}
+
+// Archived runs for an airport, oldest first
+export async function readForecastArchive(icao: string): Promise<ArchivedForecastRun[]> {
+  const dir = getForecastArchiveDir();
+  if (!dir) return [];
+  await writeQueue;
+  return readRuns(dir, icao);
+}
+
+// Queue a run for an airport's archive (once per product and cycle), dropping expired
+// runs. Resolves once written; callers on the request path don't need to wait.
+export function archiveForecastRun(icao: string, run: ArchivedForecastRun, now: number = Date.now()): Promise<void> {
+  const dir = getForecastArchiveDir();
+  const key = runKey(icao, run);
+  if (!dir || dir === unwritableDir || archivedRunKeys.has(key)) return writeQueue;
+  archivedRunKeys.add(key);
+
+  writeQueue = writeQueue.then(async () => {
+    try {
+      const cutoff = now / 1000 - RETENTION_SEC;
+      const runs = (await readRuns(dir, icao)).filter((r) => r.generatedAt >= cutoff);
+      if (!runs.some((r) => runKey(icao, r) === key)) {
+        runs.push(run);
+        runs.sort((a, b) => a.generatedAt - b.generatedAt);
+      }
+
+      await fs.promises.mkdir(dir, { recursive: true });
+      const file: ForecastArchiveFile = { icao: icao.toUpperCase(), runs };
+      await fs.promises.writeFile(getArchivePath(dir, icao), JSON.stringify(file) + '\n');
+    } catch (error) {
+      console.error('Forecast archive write error:', error);
+      archivedRunKeys.delete(key);
+      unwritableDir = dir;
+    }
+  });
+  return writeQueue;
+}
+
+// Forget which runs were written and any failed directory (tests)
+export function resetForecastArchiveState(): void {
+  archivedRunKeys.clear();
+  unwritableDir = null;
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import {
+  alignForecastRun,
+  getForecastChanges,
+  formatForecastChange,
+  getChangeTrend,
+} from './forecast-trend';
+import { ForecastDataPoint, ForecastRun } from './types';
+
+const forecast = (timestamp: number, wspd: number | null, wgst: number | null): ForecastDataPoint => ({
+  time: '',
+  timestamp,
+  wspd,
+  wgst,
+  wdir: 270,
+});
+
+const latest = [forecast(3600, 10, 18), forecast(7200, 12, 20), forecast(10800, 8, null)];
+
+const previous: ForecastRun = {
+  generatedAt: 0,
+  forecasts: [
+    { timestamp: 0, wspd: 5, wgst: 9 },
+    { timestamp: 3600, wspd: 9, wgst: 17 },
+    { timestamp: 7200, wspd: 6, wgst: 22 },
+  ],
+};
+
+describe('alignForecastRun', () => {
+  it('matches earlier runs by forecast hour', () => {
+    expect(alignForecastRun(previous, latest)).toEqual({
+      wspd: [9, 6, null],
+      wgst: [17, 22, null],
+    });
+  });
+});
+
+describe('getForecastChanges', () => {
+  it('flags hours that changed by at least the threshold', () => {
+    expect(getForecastChanges(latest, previous, 5)).toEqual([null, { wspd: 6, wgst: -2 }, null]);
+  });
+
+  it('uses gusts as well as wind', () => {
+    expect(getForecastChanges(latest, previous, 2)).toEqual([
+      null,
+      { wspd: 6, wgst: -2 },
+      null,
+    ]);
+    expect(getForecastChanges(latest, previous, 1)[0]).toEqual({ wspd: 1, wgst: 1 });
+  });
+
+  it('flags a gust change on its own', () => {
+    const steadyWind: ForecastRun = {
+      generatedAt: 0,
+      forecasts: [{ timestamp: 3600, wspd: 10, wgst: 12 }],
+    };
+    expect(getForecastChanges([forecast(3600, 10, 18)], steadyWind, 4)).toEqual([{ wspd: 0, wgst: 6 }]);
+    expect(getForecastChanges([forecast(3600, 10, 14)], steadyWind, 4)).toEqual([null]);
+  });
+});
+
+describe('formatting', () => {
+  it('describes the change and its direction', () => {
+    expect(formatForecastChange({ wspd: 6, wgst: -2 })).toBe('+6 kt wind, -2 kt gusts');
+    expect(formatForecastChange({ wspd: -4, wgst: null })).toBe('-4 kt wind');
+    expect(getChangeTrend({ wspd: 6, wgst: -2 })).toBe('windier');
+    expect(getChangeTrend({ wspd: 1, wgst: -7 })).toBe('calmer');
+  });
+});
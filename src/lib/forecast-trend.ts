@@ -0,0 +1,59 @@
+// NBM run-to-run trend
+// Compares the latest forecast with earlier NBM cycles to show whether it is
+// trending windier or calmer
+
+import { ForecastDataPoint, ForecastRun } from './types';
+
+export const DEFAULT_TREND_THRESHOLD_KT = 5;
+
+// Change since the previous run at one forecast hour (latest minus previous)
+export interface ForecastChange {
+  wspd: number | null;
+  wgst: number | null;
+}
+
+// Wind and gusts of an earlier run at each forecast hour (null where the run has no such hour)
+export function alignForecastRun(
+  run: ForecastRun,
+  forecasts: ForecastDataPoint[]
+): { wspd: (number | null)[]; wgst: (number | null)[] } {
+  const byTimestamp = new Map(run.forecasts.map((p) => [p.timestamp, p]));
+  const points = forecasts.map((f) => byTimestamp.get(f.timestamp));
+  return {
+    wspd: points.map((p) => p?.wspd ?? null),
+    wgst: points.map((p) => p?.wgst ?? null),
+  };
+}
+
+// Hours where wind or gusts changed by at least thresholdKt since the previous run.
+// Aligned with forecasts; null for hours that did not change enough or are not in both runs.
+export function getForecastChanges(
+  forecasts: ForecastDataPoint[],
+  previous: ForecastRun,
+  thresholdKt: number
+): (ForecastChange | null)[] {
+  const { wspd, wgst } = alignForecastRun(previous, forecasts);
+  const delta = (latest: number | null, earlier: number | null) =>
+    latest !== null && earlier !== null ? latest - earlier : null;
+
+  return forecasts.map((f, i) => {
+    const change = { wspd: delta(f.wspd, wspd[i]), wgst: delta(f.wgst, wgst[i]) };
+    const flagged = [change.wspd, change.wgst].some((d) => d !== null && Math.abs(d) >= thresholdKt);
+    return flagged ? change : null;
+  });
+}
+
+// "+6 kt wind, -2 kt gusts"
+export function formatForecastChange(change: ForecastChange): string {
+  const signed = (d: number) => `${d > 0 ? '+' : ''}${d} kt`;
+  const parts: string[] = [];
+  if (change.wspd !== null) parts.push(`${signed(change.wspd)} wind`);
+  if (change.wgst !== null) parts.push(`${signed(change.wgst)} gusts`);
+  return parts.join(', ');
+}
+
+// Overall direction of a flagged change, by the larger of the wind and gust changes
+export function getChangeTrend(change: ForecastChange): 'windier' | 'calmer' {
+  const largest = [change.wspd ?? 0, change.wgst ?? 0].reduce((a, b) => (Math.abs(b) > Math.abs(a) ? b : a));
+  return largest >= 0 ? 'windier' : 'calmer';
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import {
+  pairForecastsWithObservations,
+  scorePairs,
+  scoreByLeadTime,
+  describeGustBias,
+  VerificationPair,
+} from './forecast-verification';
+import { ForecastRun, WindDataPoint } from './types';
+
+const HOUR = 3600;
+
+const obs = (timestamp: number, wspd: number | null, wgst: number | null = null): WindDataPoint => ({
+  time: '',
+  timestamp,
+  wspd,
+  wgst,
+  wdir: 270,
+});
+
+const run: ForecastRun = {
+  generatedAt: 0,
+  forecasts: [
+    { timestamp: HOUR, wspd: 10, wgst: 18 },
+    { timestamp: 2 * HOUR, wspd: 12, wgst: 20 },
+    { timestamp: 3 * HOUR, wspd: 8, wgst: null },
+    { timestamp: 10 * HOUR, wspd: 5, wgst: null }, // No observations
+  ],
+};
+
+describe('pairForecastsWithObservations', () => {
+  it('pairs each forecast hour with the nearest wind and the peak gust around it', () => {
+    const observations = [
+      obs(HOUR - 600, 7, 20),
+      obs(HOUR + 300, 9, 24),
+      obs(6 * HOUR, 30, 40), // Not near any forecast hour
+      obs(2 * HOUR + 1200, 14),
+      obs(3 * HOUR, null),
+      obs(3 * HOUR + 60, 6, 15),
+    ];
+    expect(pairForecastsWithObservations([run], observations)).toEqual([
+      { timestamp: HOUR, leadHours: 1, forecastWspd: 10, observedWspd: 9, forecastGust: 18, observedGust: 24 },
+      { timestamp: 2 * HOUR, leadHours: 2, forecastWspd: 12, observedWspd: 14, forecastGust: 20, observedGust: null },
+      { timestamp: 3 * HOUR, leadHours: 3, forecastWspd: 8, observedWspd: 6, forecastGust: null, observedGust: 15 },
+    ]);
+  });
+
+  it('returns nothing without observations', () => {
+    expect(pairForecastsWithObservations([run], [])).toEqual([]);
+  });
+});
+
+const pair = (leadHours: number, forecastWspd: number, observedWspd: number, forecastGust: number | null, observedGust: number | null): VerificationPair => ({
+  leadHours,
+  forecastWspd,
+  observedWspd,
+  forecastGust,
+  observedGust,
+});
+
+describe('scorePairs', () => {
+  it('computes bias, MAE and gust hit rate', () => {
+    const stats = scorePairs('All', [
+      pair(1, 10, 12, 15, 22),  // Gust miss, -7
+      pair(2, 8, 6, 14, 16),    // Gust hit, -2
+      pair(3, 5, 5, null, 18),  // No forecast gust: miss
+      pair(4, 9, 11, 16, null), // No observed gust
+    ]);
+    expect(stats).toEqual({
+      label: 'All',
+      count: 4,
+      windBias: -0.5,
+      windMae: 1.5,
+      gustCount: 3,
+      gustBias: -4.5,
+      gustHitRate: 0.33,
+    });
+  });
+
+  it('has no scores without pairs', () => {
+    expect(scorePairs('All', [])).toMatchObject({ count: 0, windBias: null, gustHitRate: null });
+  });
+});
+
+describe('scoreByLeadTime', () => {
+  it('bins pairs by lead time and skips empty bins', () => {
+    const { overall, leadTimes } = scoreByLeadTime([
+      pair(1, 10, 8, null, null),
+      pair(6, 10, 10, null, null),
+      pair(30, 10, 15, null, null),
+    ]);
+    expect(overall.count).toBe(3);
+    expect(leadTimes.map((s) => [s.label, s.count, s.windBias])).toEqual([
+      ['1–6h', 2, 1],
+      ['25–48h', 1, -5],
+    ]);
+  });
+});
+
+describe('describeGustBias', () => {
+  it('reads the gust bias once there are enough gusts', () => {
+    const stats = scorePairs('All', Array.from({ length: 5 }, () => pair(1, 10, 10, 15, 20)));
+    expect(describeGustBias(stats)).toBe('NBM under-forecasts gusts here by 5 kt on average');
+    expect(describeGustBias({ ...stats, gustCount: 2 })).toBeNull();
+    expect(describeGustBias({ ...stats, gustBias: 1 })).toBe('NBM gust forecasts have been close to observed gusts here');
+  });
+});
@@ -0,0 +1,142 @@
+// NBM forecast verification
+// Pairs archived NBM forecast hours with observed winds and scores them per lead time
+
+import { ForecastRun, WindDataPoint } from './types';
+
+// Observations within this window of a forecast hour are paired with it
+const PAIR_WINDOW_SEC = 30 * 60;
+
+// A forecast gust within this many knots of the observed gust counts as a hit
+export const GUST_HIT_TOLERANCE_KT = 5;
+
+// Lead-time bins, by the last lead hour they include
+export const LEAD_TIME_BINS: { label: string; maxHours: number }[] = [
+  { label: '1–6h', maxHours: 6 },
+  { label: '7–12h', maxHours: 12 },
+  { label: '13–24h', maxHours: 24 },
+  { label: '25–48h', maxHours: 48 },
+  { label: '49–72h', maxHours: 72 },
+  { label: '3–7d', maxHours: Infinity },
+];
+
+// One forecast hour paired with what was observed
+export interface VerificationPair {
+  leadHours: number;
+  forecastWspd: number;
+  observedWspd: number;
+  forecastGust: number | null;
+  observedGust: number | null;  // Highest reported gust in the window, null if none reported
+}
+
+export interface VerificationStats {
+  label: string;
+  count: number;              // Paired hours
+  windBias: number | null;    // Mean forecast minus observed wind, kt
+  windMae: number | null;     // Mean absolute wind error, kt
+  gustCount: number;          // Paired hours with an observed gust
+  gustBias: number | null;    // Mean forecast minus observed gust, kt (negative = under-forecast)
+  gustHitRate: number | null; // Share of observed gusts forecast within GUST_HIT_TOLERANCE_KT
+}
+
+export interface ForecastVerification {
+  icao: string;
+  runs: number;               // Archived NBM runs scored
+  pairs: number;
+  from: number | null;        // First and last verified hour (Unix timestamps)
+  to: number | null;
+  overall: VerificationStats;
+  leadTimes: VerificationStats[];  // Only bins with pairs
+}
+
+// Pair every forecast hour that has observations around it
+export function pairForecastsWithObservations(
+  runs: ForecastRun[],
+  observations: WindDataPoint[]
+): (VerificationPair & { timestamp: number })[] {
+  const sorted = observations
+    .filter((o) => o.wspd !== null)
+    .sort((a, b) => a.timestamp - b.timestamp);
+  if (sorted.length === 0) return [];
+
+  const pairs: (VerificationPair & { timestamp: number })[] = [];
+  for (const run of runs) {
+    for (const point of run.forecasts) {
+      if (point.wspd === null || point.timestamp <= run.generatedAt) continue;
+      const window = observationsBetween(sorted, point.timestamp - PAIR_WINDOW_SEC, point.timestamp + PAIR_WINDOW_SEC);
+      if (window.length === 0) continue;
+
+      const nearest = window.reduce((best, o) =>
+        Math.abs(o.timestamp - point.timestamp) < Math.abs(best.timestamp - point.timestamp) ? o : best
+      );
+      const gusts = window.map((o) => o.wgst).filter((g): g is number => g !== null);
+      pairs.push({
+        timestamp: point.timestamp,
+        leadHours: Math.round((point.timestamp - run.generatedAt) / 3600),
+        forecastWspd: point.wspd,
+        observedWspd: nearest.wspd!,
+        forecastGust: point.wgst,
+        observedGust: gusts.length ? Math.max(...gusts) : null,
+      });
+    }
+  }
+  return pairs;
+}
+
+// Observations with from <= timestamp <= to, from a list sorted by timestamp
+function observationsBetween(sorted: WindDataPoint[], from: number, to: number): WindDataPoint[] {
+  let lo = 0;
+  let hi = sorted.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (sorted[mid].timestamp < from) lo = mid + 1;
+    else hi = mid;
+  }
+  const result: WindDataPoint[] = [];
+  for (let i = lo; i < sorted.length && sorted[i].timestamp <= to; i++) result.push(sorted[i]);
+  return result;
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+const mean = (values: number[]) => (values.length ? round1(values.reduce((a, b) => a + b, 0) / values.length) : null);
+
+// Bias, MAE and gust hit rate over a set of pairs
+export function scorePairs(label: string, pairs: VerificationPair[]): VerificationStats {
+  const windErrors = pairs.map((p) => p.forecastWspd - p.observedWspd);
+  const gustPairs = pairs.filter((p) => p.observedGust !== null);
+  const gustErrors = gustPairs
+    .filter((p) => p.forecastGust !== null)
+    .map((p) => p.forecastGust! - p.observedGust!);
+  const gustHits = gustPairs.filter(
+    (p) => p.forecastGust !== null && Math.abs(p.forecastGust - p.observedGust!) <= GUST_HIT_TOLERANCE_KT
+  ).length;
+
+  return {
+    label,
+    count: pairs.length,
+    windBias: mean(windErrors),
+    windMae: mean(windErrors.map(Math.abs)),
+    gustCount: gustPairs.length,
+    gustBias: mean(gustErrors),
+    gustHitRate: gustPairs.length ? Math.round((gustHits / gustPairs.length) * 100) / 100 : null,
+  };
+}
+
+// Score pairs overall and per lead-time bin
+export function scoreByLeadTime(pairs: VerificationPair[]): { overall: VerificationStats; leadTimes: VerificationStats[] } {
+  const leadTimes: VerificationStats[] = [];
+  let minHours = 0;
+  for (const bin of LEAD_TIME_BINS) {
+    const binPairs = pairs.filter((p) => p.leadHours > minHours && p.leadHours <= bin.maxHours);
+    if (binPairs.length > 0) leadTimes.push(scorePairs(bin.label, binPairs));
+    minHours = bin.maxHours;
+  }
+  return { overall: scorePairs('All', pairs), leadTimes };
+}
+
+// One-line reading of the gust scores, e.g. "NBM under-forecasts gusts here by 4.5 kt on average"
+export function describeGustBias(stats: VerificationStats): string | null {
+  if (stats.gustBias === null || stats.gustCount < 5) return null;
+  if (Math.abs(stats.gustBias) < 2) return 'NBM gust forecasts have been close to observed gusts here';
+  const direction = stats.gustBias < 0 ? 'under-forecasts' : 'over-forecasts';
+  return `NBM ${direction} gusts here by ${Math.abs(stats.gustBias)} kt on average`;
+}
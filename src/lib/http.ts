@@ -0,0 +1,53 @@
+// Shared upstream fetch helpers for server-side weather providers
+
+import { getFixtureMode, replayResponse, recordResponse } from './upstream-fixtures';
+
+// Fetch configuration
+const FETCH_TIMEOUT_MS = 5000;
+const MAX_RETRIES = 3;
+
+// Fetch with timeout and retry logic, honouring record/replay fixture mode
+export async function fetchWithTimeoutAndRetry(
+  url: string,
+  options: RequestInit = {},
+  retries: number = MAX_RETRIES
+): Promise<Response> {
+  const mode = getFixtureMode();
+  if (mode === 'replay') return replayResponse(url);
+
+  const response = await fetchLive(url, options, retries);
+  return mode === 'record' ? recordResponse(url, response) : response;
+}
+
+async function fetchLive(
+  url: string,
+  options: RequestInit,
+  retries: number
+): Promise<Response> {
+  let lastError: Error | null = null;
+
+  for (let attempt = 0; attempt < retries; attempt++) {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+
+    try {
+      const response = await fetch(url, {
+        ...options,
+        signal: controller.signal,
+      });
+      clearTimeout(timeoutId);
+      return response;
+    } catch (error) {
+      clearTimeout(timeoutId);
+      lastError = error instanceof Error ? error : new Error(String(error));
+
+      // Don't retry on abort (timeout) for the last attempt
+      if (attempt < retries - 1) {
+        // Exponential backoff: 500ms, 1000ms, 2000ms
+        await new Promise((resolve) => setTimeout(resolve, 500 * Math.pow(2, attempt)));
+      }
+    }
+  }
+
+  throw lastError || new Error('Fetch failed after retries');
+}
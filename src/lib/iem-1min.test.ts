@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseIem1MinCsv, toIemStationId } from './iem-1min';
+import { iemProvider } from './providers/iem';
+
+const CSV = `station,station_name,valid(UTC),sknt,drct,gust_sknt
+FRG,FARMINGDALE,2026-10-19 12:01,12,210,19
+FRG,FARMINGDALE,2026-10-19 12:00,11,200,M
+TEB,TETERBORO,2026-10-19 12:00,5,180,M
+FRG,FARMINGDALE,2026-10-19 12:02,M,M,M
+`;
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+});
+
+describe('toIemStationId', () => {
+  it('drops the K prefix of US ICAO identifiers', () => {
+    expect(toIemStationId('kfrg')).toBe('FRG');
+    expect(toIemStationId('PHNL')).toBe('PHNL');
+    expect(toIemStationId('N38')).toBe('N38');
+  });
+});
+
+describe('parseIem1MinCsv', () => {
+  it('maps rows for the station to wind points, oldest first', () => {
+    const series = parseIem1MinCsv(CSV, 'KFRG');
+    const start = Date.UTC(2026, 9, 19, 12, 0) / 1000;
+    expect(series.stationName).toBe('FARMINGDALE');
+    expect(series.observations).toEqual([
+      { time: '12:00', timestamp: start, wspd: 11, wgst: null, wdir: 200 },
+      { time: '12:01', timestamp: start + 60, wspd: 12, wgst: 19, wdir: 210 },
+      { time: '12:02', timestamp: start + 120, wspd: null, wgst: null, wdir: null },
+    ]);
+  });
+
+  it('returns nothing without the required columns', () => {
+    expect(parseIem1MinCsv('station,tmpf\nFRG,50\n').observations).toEqual([]);
+    expect(parseIem1MinCsv('').observations).toEqual([]);
+  });
+});
+
+describe('iemProvider', () => {
+  it('reads matching files from the configured directory', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'windplot-iem-'));
+    fs.writeFileSync(path.join(dir, 'FRG_202610.csv'), CSV);
+    fs.writeFileSync(path.join(dir, 'TEB_202610.csv'), CSV);
+    vi.stubEnv('IEM_1MIN_DIR', dir);
+    vi.useFakeTimers();
+    vi.setSystemTime(Date.UTC(2026, 9, 19, 12, 30));
+
+    const series = await iemProvider.observations!.getObservations('KFRG', 1);
+    expect(series?.stationName).toBe('FARMINGDALE');
+    expect(series?.observations.map((o) => o.time)).toEqual(['12:00', '12:01', '12:02']);
+    expect(await iemProvider.observations!.getObservations('KCDW', 1)).toBeNull();
+  });
+
+  it('has nothing for a window after the downloaded data ends', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'windplot-iem-'));
+    fs.writeFileSync(path.join(dir, 'FRG_202610.csv'), CSV);
+    vi.stubEnv('IEM_1MIN_DIR', dir);
+    vi.useFakeTimers();
+    vi.setSystemTime(Date.UTC(2026, 9, 20));
+
+    expect(await iemProvider.observations!.getObservations('KFRG', 1)).toBeNull();
+    expect(await iemProvider.observations!.getObservations('KFRG', 24)).toMatchObject({
+      observations: [{ time: '12:00' }, { time: '12:01' }, { time: '12:02' }],
+    });
+  });
+});
@@ -0,0 +1,72 @@
+// Iowa Environmental Mesonet 1-minute ASOS CSV (asos1min.py downloads)
+// Header row with station, station_name, valid(UTC), sknt, drct and gust_sknt among
+// other columns; "M" marks a missing value
+
+import { WindDataPoint } from './types';
+
+export interface Iem1MinSeries {
+  stationName: string | null;
+  observations: WindDataPoint[];
+}
+
+// IEM identifies US ASOS stations by FAA ID ("FRG" for KFRG)
+export function toIemStationId(icao: string): string {
+  const upper = icao.toUpperCase();
+  return upper.length === 4 && upper.startsWith('K') ? upper.slice(1) : upper;
+}
+
+function parseValue(raw: string | undefined): number | null {
+  if (raw === undefined) return null;
+  const trimmed = raw.trim();
+  if (trimmed === '' || trimmed === 'M') return null;
+  const value = parseFloat(trimmed);
+  return Number.isFinite(value) ? value : null;
+}
+
+// "2026-10-19 12:34" (UTC) -> Unix seconds
+function parseValid(raw: string | undefined): number | null {
+  const match = raw?.trim().match(/^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2})/);
+  if (!match) return null;
+  const [, y, mo, d, h, mi] = match.map(Number);
+  return Date.UTC(y, mo - 1, d, h, mi) / 1000;
+}
+
+// Parse one CSV file. Rows for other stations are skipped when `icao` is given;
+// times are labelled in UTC ("HH:MM"). Returns observations oldest first.
+export function parseIem1MinCsv(csv: string, icao?: string): Iem1MinSeries {
+  const lines = csv.split(/\r?\n/).filter((line) => line.trim() !== '' && !line.startsWith('#'));
+  if (lines.length === 0) return { stationName: null, observations: [] };
+
+  const header = lines[0].split(',').map((h) => h.trim().toLowerCase());
+  const column = (...names: string[]) => header.findIndex((h) => names.includes(h));
+  const stationCol = column('station');
+  const nameCol = column('station_name');
+  const validCol = column('valid(utc)', 'valid');
+  const speedCol = column('sknt');
+  const dirCol = column('drct');
+  const gustCol = column('gust_sknt', 'gust');
+  if (validCol === -1 || speedCol === -1) return { stationName: null, observations: [] };
+
+  const wanted = icao ? [icao.toUpperCase(), toIemStationId(icao)] : null;
+  let stationName: string | null = null;
+  const observations: WindDataPoint[] = [];
+
+  for (const line of lines.slice(1)) {
+    const fields = line.split(',');
+    if (wanted && stationCol !== -1 && !wanted.includes(fields[stationCol]?.trim().toUpperCase())) continue;
+    const timestamp = parseValid(fields[validCol]);
+    if (timestamp === null) continue;
+
+    if (stationName === null && nameCol !== -1) stationName = fields[nameCol]?.trim() || null;
+    observations.push({
+      time: new Date(timestamp * 1000).toISOString().substring(11, 16),
+      timestamp,
+      wspd: parseValue(fields[speedCol]),
+      wgst: gustCol === -1 ? null : parseValue(fields[gustCol]),
+      wdir: dirCol === -1 ? null : parseValue(fields[dirCol]),
+    });
+  }
+
+  observations.sort((a, b) => a.timestamp - b.timestamp);
+  return { stationName, observations };
+}
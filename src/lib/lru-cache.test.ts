@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { createLruCache } from './lru-cache';
+
+describe('createLruCache', () => {
+  it('expires entries after the TTL', () => {
+    let now = 0;
+    const cache = createLruCache<string>({ maxEntries: 10, ttlMs: 1000, now: () => now });
+    cache.set('a', 'x');
+    now = 999;
+    expect(cache.get('a')?.value).toBe('x');
+    now = 1000;
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.size).toBe(0);
+  });
+
+  it('evicts the least recently used entry', () => {
+    const cache = createLruCache<number>({ maxEntries: 2, ttlMs: 60000 });
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.get('a');
+    cache.set('c', 3);
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('a')?.value).toBe(1);
+    expect(cache.get('c')?.value).toBe(3);
+    expect(cache.evictions).toBe(1);
+  });
+});
@@ -0,0 +1,68 @@
+// In-memory LRU cache with a per-cache TTL
+// Map iteration order doubles as recency order: reads move an entry to the end,
+// and the first entry is the least recently used
+
+export interface LruCacheOptions {
+  maxEntries: number;
+  ttlMs: number;
+  now?: () => number; // Clock override for tests
+}
+
+export interface LruCacheEntry<V> {
+  value: V;
+  storedAt: number; // Epoch ms
+}
+
+export interface LruCache<V> {
+  get(key: string): LruCacheEntry<V> | undefined;
+  set(key: string, value: V): void;
+  delete(key: string): void;
+  clear(): void;
+  readonly size: number;
+  readonly evictions: number; // Entries dropped to stay under maxEntries
+}
+
+export function createLruCache<V>({ maxEntries, ttlMs, now = () => Date.now() }: LruCacheOptions): LruCache<V> {
+  const entries = new Map<string, LruCacheEntry<V>>();
+  let evictions = 0;
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      if (now() - entry.storedAt >= ttlMs) {
+        entries.delete(key);
+        return undefined;
+      }
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry;
+    },
+
+    set(key, value) {
+      entries.delete(key);
+      entries.set(key, { value, storedAt: now() });
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value as string;
+        entries.delete(oldest);
+        evictions++;
+      }
+    },
+
+    delete(key) {
+      entries.delete(key);
+    },
+
+    clear() {
+      entries.clear();
+    },
+
+    get size() {
+      return entries.size;
+    },
+
+    get evictions() {
+      return evictions;
+    },
+  };
+}
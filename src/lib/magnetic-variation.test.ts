@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getMagneticDeclination,
+  toDecimalYear,
+  convertHeading,
+  convertWindDirections,
+  formatDeclination,
+  formatHeading,
+} from './magnetic-variation';
+
+const MID_2025 = new Date('2025-06-01T00:00:00Z');
+
+describe('toDecimalYear', () => {
+  it('converts dates to decimal years', () => {
+    expect(toDecimalYear(new Date('2025-01-01T00:00:00Z'))).toBe(2025);
+    expect(toDecimalYear(new Date('2026-07-02T12:00:00Z'))).toBeCloseTo(2026.5, 2);
+  });
+});
+
+describe('getMagneticDeclination', () => {
+  // Reference values from the NOAA WMM2025 calculator
+  it.each([
+    ['KJFK', 40.64, -73.78, -12.61],
+    ['KSFO', 37.62, -122.38, 12.92],
+    ['PANC', 61.17, -150.0, 14.33],
+    ['PHNL', 21.32, -157.92, 9.33],
+    ['KMIA', 25.8, -80.3, -7.21],
+    ['YSSY', -33.9, 151.2, 12.81],
+  ])('computes declination at %s', (_, lat, lon, expected) => {
+    expect(getMagneticDeclination(lat, lon, MID_2025)).toBeCloseTo(expected, 1);
+  });
+
+  it('applies secular variation over time', () => {
+    const later = getMagneticDeclination(40.64, -73.78, new Date('2026-10-19T00:00:00Z'));
+    expect(later).toBeCloseTo(-12.55, 1);
+  });
+
+  it('clamps dates outside the model validity window', () => {
+    const atEnd = getMagneticDeclination(40.64, -73.78, new Date('2029-11-01T00:00:00Z'));
+    const farFuture = getMagneticDeclination(40.64, -73.78, new Date('2040-01-01T00:00:00Z'));
+    expect(farFuture).toBeCloseTo(atEnd, 1);
+  });
+});
+
+describe('convertHeading', () => {
+  it('leaves true headings unchanged', () => {
+    expect(convertHeading(210, -13, 'true')).toBe(210);
+  });
+
+  it('subtracts east declination and adds west declination', () => {
+    expect(convertHeading(210, -13, 'magnetic')).toBe(223);
+    expect(convertHeading(210, 13, 'magnetic')).toBe(197);
+  });
+
+  it('wraps through north', () => {
+    expect(convertHeading(355, -13, 'magnetic')).toBe(8);
+    expect(convertHeading(5, 13, 'magnetic')).toBe(352);
+  });
+});
+
+describe('convertWindDirections', () => {
+  it('converts directions and keeps missing ones', () => {
+    const points = [{ wdir: 210, wspd: 10 }, { wdir: null, wspd: 3 }];
+    expect(convertWindDirections(points, -13, 'magnetic')).toEqual([
+      { wdir: 223, wspd: 10 },
+      { wdir: null, wspd: 3 },
+    ]);
+    expect(convertWindDirections(points, -13, 'true')).toBe(points);
+  });
+});
+
+describe('formatting', () => {
+  it('formats declination with hemisphere', () => {
+    expect(formatDeclination(-12.6)).toBe('13°W');
+    expect(formatDeclination(1.4)).toBe('1°E');
+    expect(formatDeclination(0.2)).toBe('0°');
+  });
+
+  it('formats headings with a magnetic suffix', () => {
+    expect(formatHeading(222.6, 'magnetic')).toBe('223°M');
+    expect(formatHeading(210, 'true')).toBe('210°');
+  });
+});
@@ -0,0 +1,257 @@
+// World Magnetic Model (WMM2025) declination
+// Offline spherical harmonic evaluation of the NOAA/NCEI World Magnetic Model,
+// used to convert true headings (NASR runways, METAR/TAF/NBM winds) to magnetic
+// headings as heard on ATIS and from tower
+
+export type HeadingReference = 'true' | 'magnetic';
+
+// WMM2025 epoch and validity window (decimal years)
+const WMM_EPOCH = 2025.0;
+const WMM_VALID_FROM = 2024.87;
+const WMM_VALID_TO = 2029.87;
+
+const WMM_MAX_DEGREE = 12;
+
+// WGS-84 ellipsoid and geomagnetic reference radius (km)
+const WGS84_A = 6378.137;
+const WGS84_B = 6356.7523142;
+const GEOMAGNETIC_RADIUS = 6371.2;
+
+// WMM2025 Gauss coefficients (public domain, NOAA/NCEI):
+// [n, m, g (nT), h (nT), secular g (nT/yr), secular h (nT/yr)]
+const WMM2025_COEFFICIENTS: [number, number, number, number, number, number][] = [
+  [1, 0, -29351.8, 0, 12, 0],
+  [1, 1, -1410.8, 4545.4, 9.7, -21.5],
+  [2, 0, -2556.6, 0, -11.6, 0],
+  [2, 1, 2951.1, -3133.6, -5.2, -27.7],
+  [2, 2, 1649.3, -815.1, -8, -12.1],
+  [3, 0, 1361, 0, -1.3, 0],
+  [3, 1, -2404.1, -56.6, -4.2, 4],
+  [3, 2, 1243.8, 237.5, 0.4, -0.3],
+  [3, 3, 453.6, -549.5, -15.6, -4.1],
+  [4, 0, 895, 0, -1.6, 0],
+  [4, 1, 799.5, 278.6, -2.4, -1.1],
+  [4, 2, 55.7, -133.9, -6, 4.1],
+  [4, 3, -281.1, 212, 5.6, 1.6],
+  [4, 4, 12.1, -375.6, -7, -4.4],
+  [5, 0, -233.2, 0, 0.6, 0],
+  [5, 1, 368.9, 45.4, 1.4, -0.5],
+  [5, 2, 187.2, 220.2, 0, 2.2],
+  [5, 3, -138.7, -122.9, 0.6, 0.4],
+  [5, 4, -142, 43, 2.2, 1.7],
+  [5, 5, 20.9, 106.1, 0.9, 1.9],
+  [6, 0, 64.4, 0, -0.2, 0],
+  [6, 1, 63.8, -18.4, -0.4, 0.3],
+  [6, 2, 76.9, 16.8, 0.9, -1.6],
+  [6, 3, -115.7, 48.8, 1.2, -0.4],
+  [6, 4, -40.9, -59.8, -0.9, 0.9],
+  [6, 5, 14.9, 10.9, 0.3, 0.7],
+  [6, 6, -60.7, 72.7, 0.9, 0.9],
+  [7, 0, 79.5, 0, 0, 0],
+  [7, 1, -77, -48.9, -0.1, 0.6],
+  [7, 2, -8.8, -14.4, -0.1, 0.5],
+  [7, 3, 59.3, -1, 0.5, -0.8],
+  [7, 4, 15.8, 23.4, -0.1, 0],
+  [7, 5, 2.5, -7.4, -0.8, -1],
+  [7, 6, -11.1, -25.1, -0.8, 0.6],
+  [7, 7, 14.2, -2.3, 0.8, -0.2],
+  [8, 0, 23.2, 0, -0.1, 0],
+  [8, 1, 10.8, 7.1, 0.2, -0.2],
+  [8, 2, -17.5, -12.6, 0, 0.5],
+  [8, 3, 2, 11.4, 0.5, -0.4],
+  [8, 4, -21.7, -9.7, -0.1, 0.4],
+  [8, 5, 16.9, 12.7, 0.3, -0.5],
+  [8, 6, 15, 0.7, 0.2, -0.6],
+  [8, 7, -16.8, -5.2, 0, 0.3],
+  [8, 8, 0.9, 3.9, 0.2, 0.2],
+  [9, 0, 4.6, 0, 0, 0],
+  [9, 1, 7.8, -24.8, -0.1, -0.3],
+  [9, 2, 3, 12.2, 0.1, 0.3],
+  [9, 3, -0.2, 8.3, 0.3, -0.3],
+  [9, 4, -2.5, -3.3, -0.3, 0.3],
+  [9, 5, -13.1, -5.2, 0, 0.2],
+  [9, 6, 2.4, 7.2, 0.3, -0.1],
+  [9, 7, 8.6, -0.6, -0.1, -0.2],
+  [9, 8, -8.7, 0.8, 0.1, 0.4],
+  [9, 9, -12.9, 10, -0.1, 0.1],
+  [10, 0, -1.3, 0, 0.1, 0],
+  [10, 1, -6.4, 3.3, 0, 0],
+  [10, 2, 0.2, 0, 0.1, 0],
+  [10, 3, 2, 2.4, 0.1, -0.2],
+  [10, 4, -1, 5.3, 0, 0.1],
+  [10, 5, -0.6, -9.1, -0.3, -0.1],
+  [10, 6, -0.9, 0.4, 0, 0.1],
+  [10, 7, 1.5, -4.2, -0.1, 0],
+  [10, 8, 0.9, -3.8, -0.1, -0.1],
+  [10, 9, -2.7, 0.9, 0, 0.2],
+  [10, 10, -3.9, -9.1, 0, 0],
+  [11, 0, 2.9, 0, 0, 0],
+  [11, 1, -1.5, 0, 0, 0],
+  [11, 2, -2.5, 2.9, 0, 0.1],
+  [11, 3, 2.4, -0.6, 0, 0],
+  [11, 4, -0.6, 0.2, 0, 0.1],
+  [11, 5, -0.1, 0.5, -0.1, 0],
+  [11, 6, -0.6, -0.3, 0, 0],
+  [11, 7, -0.1, -1.2, 0, 0.1],
+  [11, 8, 1.1, -1.7, -0.1, 0],
+  [11, 9, -1, -2.9, -0.1, 0],
+  [11, 10, -0.2, -1.8, -0.1, 0],
+  [11, 11, 2.6, -2.3, -0.1, 0],
+  [12, 0, -2, 0, 0, 0],
+  [12, 1, -0.2, -1.3, 0, 0],
+  [12, 2, 0.3, 0.7, 0, 0],
+  [12, 3, 1.2, 1, 0, -0.1],
+  [12, 4, -1.3, -1.4, 0, 0.1],
+  [12, 5, 0.6, 0, 0, 0],
+  [12, 6, 0.6, 0.6, 0.1, 0],
+  [12, 7, 0.5, -0.1, 0, 0],
+  [12, 8, -0.1, 0.8, 0, 0],
+  [12, 9, -0.4, 0.1, 0, 0],
+  [12, 10, -0.2, -1, -0.1, 0],
+  [12, 11, -1.3, 0.1, 0, 0],
+  [12, 12, -0.7, 0.2, -0.1, -0.1],
+];
+
+type Matrix = number[][];
+
+function createMatrix(): Matrix {
+  return Array.from({ length: WMM_MAX_DEGREE + 1 }, () => new Array(WMM_MAX_DEGREE + 1).fill(0));
+}
+
+// Schmidt semi-normalization factors, computed once
+const SCHMIDT_FACTORS: Matrix = (() => {
+  const s = createMatrix();
+  s[0][0] = 1;
+  for (let n = 1; n <= WMM_MAX_DEGREE; n++) {
+    s[n][0] = (s[n - 1][0] * (2 * n - 1)) / n;
+    for (let m = 1; m <= n; m++) {
+      const delta = m === 1 ? 2 : 1;
+      s[n][m] = s[n][m - 1] * Math.sqrt(((n - m + 1) * delta) / (n + m));
+    }
+  }
+  return s;
+})();
+
+// Convert a date to a decimal year (e.g. 2026-07-02 -> ~2026.5)
+export function toDecimalYear(date: Date): number {
+  const year = date.getUTCFullYear();
+  const start = Date.UTC(year, 0, 1);
+  const end = Date.UTC(year + 1, 0, 1);
+  return year + (date.getTime() - start) / (end - start);
+}
+
+// Magnetic declination in degrees (east positive, west negative) at a geodetic
+// position and date. Altitude is in km above the WGS-84 ellipsoid.
+// Dates outside the WMM2025 validity window are clamped to it.
+export function getMagneticDeclination(
+  lat: number,
+  lon: number,
+  date: Date = new Date(),
+  altitudeKm: number = 0
+): number {
+  const decimalYear = Math.min(Math.max(toDecimalYear(date), WMM_VALID_FROM), WMM_VALID_TO);
+  const dt = decimalYear - WMM_EPOCH;
+
+  // Time-adjusted coefficients
+  const g = createMatrix();
+  const h = createMatrix();
+  for (const [n, m, gnm, hnm, dgnm, dhnm] of WMM2025_COEFFICIENTS) {
+    g[n][m] = gnm + dt * dgnm;
+    h[n][m] = hnm + dt * dhnm;
+  }
+
+  // Geodetic -> geocentric spherical coordinates
+  const latRad = (lat * Math.PI) / 180;
+  const lonRad = (lon * Math.PI) / 180;
+  const sinLat = Math.sin(latRad);
+  const cosLat = Math.cos(latRad);
+  const a2 = WGS84_A * WGS84_A;
+  const b2 = WGS84_B * WGS84_B;
+  const q = Math.sqrt(a2 - (a2 - b2) * sinLat * sinLat);
+  const q1 = altitudeKm * q;
+  const q2 = ((q1 + a2) / (q1 + b2)) ** 2;
+  const cosTheta = sinLat / Math.sqrt(q2 * cosLat * cosLat + sinLat * sinLat);
+  const sinTheta = Math.sqrt(1 - cosTheta * cosTheta);
+  const r = Math.sqrt(
+    altitudeKm * altitudeKm + 2 * q1 + (a2 * a2 - (a2 * a2 - b2 * b2) * sinLat * sinLat) / (q * q)
+  );
+  const d = Math.sqrt(a2 * cosLat * cosLat + b2 * sinLat * sinLat);
+  const cosRot = (altitudeKm + d) / r;
+  const sinRot = ((a2 - b2) * cosLat * sinLat) / (d * r);
+
+  // Associated Legendre functions (Gauss-normalized) and their theta derivatives
+  const p = createMatrix();
+  const dp = createMatrix();
+  p[0][0] = 1;
+  for (let n = 1; n <= WMM_MAX_DEGREE; n++) {
+    for (let m = 0; m <= n; m++) {
+      if (n === m) {
+        p[n][m] = sinTheta * p[n - 1][m - 1];
+        dp[n][m] = sinTheta * dp[n - 1][m - 1] + cosTheta * p[n - 1][m - 1];
+      } else if (n === 1 && m === 0) {
+        p[n][m] = cosTheta * p[n - 1][m];
+        dp[n][m] = cosTheta * dp[n - 1][m] - sinTheta * p[n - 1][m];
+      } else {
+        const k = ((n - 1) ** 2 - m * m) / ((2 * n - 1) * (2 * n - 3));
+        p[n][m] = cosTheta * p[n - 1][m] - k * p[n - 2][m];
+        dp[n][m] = cosTheta * dp[n - 1][m] - sinTheta * p[n - 1][m] - k * dp[n - 2][m];
+      }
+    }
+  }
+
+  // Field components in the geocentric frame
+  let bRadial = 0;
+  let bTheta = 0;
+  let bPhi = 0;
+  for (let n = 1; n <= WMM_MAX_DEGREE; n++) {
+    const ratio = (GEOMAGNETIC_RADIUS / r) ** (n + 2);
+    for (let m = 0; m <= n; m++) {
+      const cosM = Math.cos(m * lonRad);
+      const sinM = Math.sin(m * lonRad);
+      const pnm = SCHMIDT_FACTORS[n][m] * p[n][m];
+      const dpnm = SCHMIDT_FACTORS[n][m] * dp[n][m];
+      const gh = g[n][m] * cosM + h[n][m] * sinM;
+      bRadial += ratio * (n + 1) * gh * pnm;
+      bTheta -= ratio * gh * dpnm;
+      bPhi += ratio * m * (g[n][m] * sinM - h[n][m] * cosM) * pnm;
+    }
+  }
+  // At the geographic poles the east component is undefined
+  bPhi = sinTheta === 0 ? 0 : bPhi / sinTheta;
+
+  // Rotate into the geodetic frame: north (x) and east (y)
+  const x = -bTheta * cosRot - bRadial * sinRot;
+  const y = bPhi;
+  return (Math.atan2(y, x) * 180) / Math.PI;
+}
+
+// Convert a true heading to the requested reference (magnetic = true - east declination)
+export function convertHeading(trueHeading: number, declination: number, reference: HeadingReference): number {
+  if (reference === 'true') return trueHeading;
+  return (((trueHeading - declination) % 360) + 360) % 360;
+}
+
+// Convert the wind direction of every point to the requested reference
+export function convertWindDirections<T extends { wdir: number | null }>(
+  points: T[],
+  declination: number,
+  reference: HeadingReference
+): T[] {
+  if (reference === 'true') return points;
+  return points.map((p) => ({
+    ...p,
+    wdir: p.wdir === null ? null : convertHeading(p.wdir, declination, reference),
+  }));
+}
+
+// Format a declination for display: "13°W", "2°E"
+export function formatDeclination(declination: number): string {
+  const rounded = Math.round(Math.abs(declination));
+  if (rounded === 0) return '0°';
+  return `${rounded}°${declination < 0 ? 'W' : 'E'}`;
+}
+
+// Format a heading for display in the selected reference: "213°", "226°M"
+export function formatHeading(heading: number, reference: HeadingReference): string {
+  return `${Math.round(heading)}°${reference === 'magnetic' ? 'M' : ''}`;
+}
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { METAR_QC_OPTIONS, metarsToObservations } from './metar-history';
+import { qcObservations } from './observation-qc';
+import { MetarReport } from './providers';
+
+const report = (obsTime: number | undefined, rawOb: string, wspd = 10): MetarReport => ({
+  station: 'KFRG',
+  wdir: 200,
+  wspd,
+  wgst: null,
+  obsTime,
+  rawOb,
+});
+
+const HOUR = 3600;
+
+describe('metarsToObservations', () => {
+  it('orders reports by time, keeping the last report for a time', () => {
+    const observations = metarsToObservations([
+      report(2 * HOUR, 'METAR KFRG 010200Z 20012KT 10SM OVC008 M02/M04 A2992', 12),
+      report(HOUR, 'METAR KFRG 010100Z 20010KT 10SM CLR 00/M05 A2990'),
+      report(undefined, 'METAR KFRG 010130Z 20010KT'),
+      report(2 * HOUR, 'METAR KFRG 010200Z COR 20014KT 10SM OVC008 M02/M04 A2992', 14),
+    ]);
+    expect(observations).toMatchObject([
+      { time: '01:00', wspd: 10, wdir: 200, temp: 32, dewpoint: 23, altimeter: 29.9, ceiling: null },
+      { time: '02:00', wspd: 14, temp: 28.4, ceiling: 800, visibility: 10 },
+    ]);
+  });
+
+  it('leaves hourly spacing unflagged but marks a missed report as a gap', () => {
+    const observations = metarsToObservations(
+      [0, 1, 2, 4].map((h) => report(h * HOUR, `METAR KFRG 01${String(h).padStart(2, '0')}00Z 20010KT`))
+    );
+    expect(qcObservations(observations, METAR_QC_OPTIONS).map((o) => o.qc)).toEqual([
+      undefined,
+      undefined,
+      undefined,
+      ['gap'],
+    ]);
+  });
+});
@@ -0,0 +1,42 @@
+// METAR history as an observation series, for stations without higher-rate observations
+// (no Synoptic token, or a station Synoptic doesn't carry). Routine reports are hourly,
+// with specials in between when conditions change.
+
+import { parseMetar } from './metar-parser';
+import { QcOptions } from './observation-qc';
+import { MetarReport } from './providers/types';
+import { WindDataPoint } from './types';
+
+export const METAR_HISTORY_LABEL = 'METAR (hourly)';
+
+// QC thresholds for hourly reports: a missed routine report is a gap, and a direction
+// only counts as stuck once it has held over several reports
+export const METAR_QC_OPTIONS: QcOptions = { gapMinutes: 90, stuckMinutes: 360 };
+
+const celsiusToFahrenheit = (c: number) => Math.round(((c * 9) / 5 + 32) * 10) / 10;
+
+// Convert reports to wind points, oldest first. Reports without an observation time
+// are dropped and a correction replaces the earlier report for the same time.
+// Variable winds carry no direction; times are labelled in UTC ("HH:MM").
+export function metarsToObservations(reports: MetarReport[]): WindDataPoint[] {
+  const byTime = new Map<number, WindDataPoint>();
+  for (const report of reports) {
+    if (report.obsTime === undefined) continue;
+    const decoded = report.rawOb ? parseMetar(report.rawOb) : null;
+    byTime.set(report.obsTime, {
+      time: new Date(report.obsTime * 1000).toISOString().substring(11, 16),
+      timestamp: report.obsTime,
+      wspd: report.wspd,
+      wgst: report.wgst,
+      wdir: typeof report.wdir === 'number' ? report.wdir : null,
+      ...(decoded && {
+        temp: decoded.temperature === null ? null : celsiusToFahrenheit(decoded.temperature),
+        dewpoint: decoded.dewpoint === null ? null : celsiusToFahrenheit(decoded.dewpoint),
+        altimeter: decoded.altimeterInHg,
+        visibility: decoded.visibility?.miles ?? null,
+        ceiling: decoded.ceilingFeet,
+      }),
+    });
+  }
+  return [...byTime.values()].sort((a, b) => a.timestamp - b.timestamp);
+}
@@ -0,0 +1,356 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseMetar,
+  parseWindGroup,
+  parseVisibilityGroup,
+  parseWeatherGroup,
+  parseCloudGroup,
+  parseRvrGroup,
+  formatVisibility,
+  formatMetarSummary,
+} from './metar-parser';
+
+// Fixture reports (real-world format)
+const BASIC_METAR =
+  'METAR KFRG 051753Z 21010G18KT 10SM FEW050 BKN250 12/M02 A3012 RMK AO2 SLP201 T01221017';
+
+const VARIABLE_SECTOR_METAR =
+  'KTEB 051751Z 21010KT 180V240 10SM SCT045 08/M06 A3004 RMK AO2 SLP172 T00781061';
+
+const VRB_METAR = 'KCDW 051753Z VRB05KT 10SM CLR 15/03 A3001 RMK AO2';
+
+const CALM_METAR = 'KMMU 051755Z AUTO 00000KT 10SM CLR 02/M01 A3020 RMK AO2';
+
+const IFR_SPECI =
+  'SPECI KEWR 051822Z 04015G28KT 1 1/2SM R04R/2400V4000FT/D -RA BR BKN008 OVC015 06/05 A2968 RMK AO2 PK WND 05032/1805 WSHFT 1744 FROPA P0012 $';
+
+const LOW_VIS_METAR =
+  'KJFK 051851Z 36008KT M1/4SM R04R/M0600FT FG VV002 03/03 A2990 RMK AO2';
+
+const THUNDER_METAR =
+  'KFRG 051953Z 27012G25KT 3SM +TSRA VCSH SCT030CB BKN050 OVC080 22/19 A2985 RMK AO2 PK WND 28035/33 TSB37';
+
+const ICAO_METAR = 'EGLL 051750Z 24012KT 9999 FEW035 11/06 Q1018 NOSIG';
+
+const CAVOK_METAR = 'LFPG 051800Z 27015MPS CAVOK 14/07 Q1009';
+
+const AO1_METAR = 'K1N1 051755Z AUTO 31006KT 7SM SCT120 M05/M11 A3025 RMK AO1';
+
+const COR_METAR = 'METAR KFRG 051753Z COR 21010KT 10SM FEW050 12/M02 A3012 RMK AO2';
+
+describe('parseMetar', () => {
+  describe('header', () => {
+    it('returns null for empty input', () => {
+      expect(parseMetar('')).toBeNull();
+    });
+
+    it('returns null when no station identifier is present', () => {
+      expect(parseMetar('not a metar')).toBeNull();
+    });
+
+    it('parses station and observation time', () => {
+      const result = parseMetar(BASIC_METAR);
+      expect(result).not.toBeNull();
+      expect(result!.station).toBe('KFRG');
+      expect(result!.day).toBe(5);
+      expect(result!.hour).toBe(17);
+      expect(result!.minute).toBe(53);
+    });
+
+    it('defaults report type to METAR', () => {
+      expect(parseMetar(VRB_METAR)!.type).toBe('METAR');
+    });
+
+    it('recognizes SPECI reports', () => {
+      expect(parseMetar(IFR_SPECI)!.type).toBe('SPECI');
+    });
+
+    it('flags AUTO and COR modifiers', () => {
+      expect(parseMetar(CALM_METAR)!.auto).toBe(true);
+      expect(parseMetar(COR_METAR)!.corrected).toBe(true);
+      expect(parseMetar(BASIC_METAR)!.auto).toBe(false);
+    });
+
+    it('accepts stations with digits (K1N1)', () => {
+      expect(parseMetar(AO1_METAR)!.station).toBe('K1N1');
+    });
+  });
+
+  describe('wind', () => {
+    it('parses direction, speed and gust', () => {
+      const wind = parseMetar(BASIC_METAR)!.wind;
+      expect(wind).toEqual({
+        direction: 210,
+        variable: false,
+        speed: 10,
+        gust: 18,
+        variableFrom: null,
+        variableTo: null,
+      });
+    });
+
+    it('parses the dddVddd variable sector', () => {
+      const wind = parseMetar(VARIABLE_SECTOR_METAR)!.wind;
+      expect(wind!.direction).toBe(210);
+      expect(wind!.variableFrom).toBe(180);
+      expect(wind!.variableTo).toBe(240);
+    });
+
+    it('parses VRB as variable with no direction', () => {
+      const wind = parseMetar(VRB_METAR)!.wind;
+      expect(wind!.variable).toBe(true);
+      expect(wind!.direction).toBeNull();
+      expect(wind!.speed).toBe(5);
+    });
+
+    it('parses calm wind', () => {
+      const wind = parseMetar(CALM_METAR)!.wind;
+      expect(wind!.direction).toBe(0);
+      expect(wind!.speed).toBe(0);
+      expect(wind!.gust).toBeNull();
+    });
+
+    it('converts MPS to knots', () => {
+      const wind = parseMetar(CAVOK_METAR)!.wind;
+      expect(wind!.speed).toBe(29);
+    });
+
+    it('handles missing wind groups', () => {
+      const wind = parseWindGroup('/////KT');
+      expect(wind).not.toBeNull();
+      expect(wind!.direction).toBeNull();
+      expect(wind!.speed).toBeNull();
+    });
+
+    it('rejects non-wind tokens', () => {
+      expect(parseWindGroup('10SM')).toBeNull();
+      expect(parseWindGroup('A3012')).toBeNull();
+    });
+  });
+
+  describe('visibility', () => {
+    it('parses whole statute miles', () => {
+      expect(parseMetar(BASIC_METAR)!.visibility).toEqual({
+        miles: 10,
+        lessThan: false,
+        greaterThan: false,
+      });
+    });
+
+    it('parses whole plus fraction split across tokens', () => {
+      expect(parseMetar(IFR_SPECI)!.visibility!.miles).toBe(1.5);
+    });
+
+    it('parses M (less than) prefix', () => {
+      const vis = parseMetar(LOW_VIS_METAR)!.visibility!;
+      expect(vis.miles).toBe(0.25);
+      expect(vis.lessThan).toBe(true);
+    });
+
+    it('parses ICAO meters and treats 9999 as greater than', () => {
+      const vis = parseMetar(ICAO_METAR)!.visibility!;
+      expect(vis.greaterThan).toBe(true);
+      expect(vis.miles).toBeCloseTo(6.21, 1);
+      expect(parseVisibilityGroup('0800')!.miles).toBeCloseTo(0.5, 1);
+    });
+
+    it('treats CAVOK as clear sky and good visibility', () => {
+      const result = parseMetar(CAVOK_METAR)!;
+      expect(result.cavok).toBe(true);
+      expect(result.skyClear).toBe(true);
+      expect(result.visibility!.greaterThan).toBe(true);
+    });
+  });
+
+  describe('runway visual range', () => {
+    it('parses a variable RVR with trend', () => {
+      expect(parseMetar(IFR_SPECI)!.rvr).toEqual([
+        {
+          runway: '04R',
+          lowFeet: 2400,
+          highFeet: 4000,
+          lowQualifier: null,
+          highQualifier: null,
+          trend: 'D',
+        },
+      ]);
+    });
+
+    it('parses M qualifier', () => {
+      const rvr = parseMetar(LOW_VIS_METAR)!.rvr[0];
+      expect(rvr.lowFeet).toBe(600);
+      expect(rvr.lowQualifier).toBe('M');
+    });
+
+    it('converts meter RVR to feet', () => {
+      expect(parseRvrGroup('R06/0600N')!.lowFeet).toBe(1969);
+    });
+  });
+
+  describe('weather phenomena', () => {
+    it('parses intensity and phenomena', () => {
+      const weather = parseMetar(IFR_SPECI)!.weather;
+      expect(weather.map((w) => w.raw)).toEqual(['-RA', 'BR']);
+      expect(weather[0].intensity).toBe('light');
+      expect(weather[0].phenomena).toEqual(['RA']);
+      expect(weather[1].intensity).toBe('moderate');
+    });
+
+    it('parses descriptors and vicinity', () => {
+      const weather = parseMetar(THUNDER_METAR)!.weather;
+      expect(weather[0]).toMatchObject({ intensity: 'heavy', descriptor: 'TS', phenomena: ['RA'] });
+      expect(weather[1]).toMatchObject({ intensity: 'vicinity', descriptor: 'SH', phenomena: [] });
+    });
+
+    it('accepts a bare thunderstorm group', () => {
+      expect(parseWeatherGroup('TS')).toMatchObject({ descriptor: 'TS', phenomena: [] });
+      expect(parseWeatherGroup('VCTS')).toMatchObject({ intensity: 'vicinity', descriptor: 'TS' });
+    });
+
+    it('parses recent weather', () => {
+      expect(parseWeatherGroup('RERA')).toMatchObject({ recent: true, phenomena: ['RA'] });
+    });
+
+    it('rejects unknown codes', () => {
+      expect(parseWeatherGroup('NOSIG')).toBeNull();
+      expect(parseWeatherGroup('XX')).toBeNull();
+    });
+  });
+
+  describe('cloud layers', () => {
+    it('parses layers in order with bases in feet', () => {
+      expect(parseMetar(BASIC_METAR)!.clouds).toEqual([
+        { cover: 'FEW', baseFeet: 5000, type: null },
+        { cover: 'BKN', baseFeet: 25000, type: null },
+      ]);
+    });
+
+    it('parses convective cloud types', () => {
+      expect(parseMetar(THUNDER_METAR)!.clouds[0]).toEqual({
+        cover: 'SCT',
+        baseFeet: 3000,
+        type: 'CB',
+      });
+    });
+
+    it('parses vertical visibility', () => {
+      expect(parseMetar(LOW_VIS_METAR)!.clouds).toEqual([
+        { cover: 'VV', baseFeet: 200, type: null },
+      ]);
+    });
+
+    it('handles unknown base heights', () => {
+      expect(parseCloudGroup('FEW///')!.baseFeet).toBeNull();
+    });
+
+    it('computes the ceiling from the lowest BKN/OVC/VV layer', () => {
+      expect(parseMetar(BASIC_METAR)!.ceilingFeet).toBe(25000);
+      expect(parseMetar(IFR_SPECI)!.ceilingFeet).toBe(800);
+      expect(parseMetar(LOW_VIS_METAR)!.ceilingFeet).toBe(200);
+      expect(parseMetar(VARIABLE_SECTOR_METAR)!.ceilingFeet).toBeNull();
+    });
+
+    it('flags clear sky', () => {
+      expect(parseMetar(VRB_METAR)!.skyClear).toBe(true);
+      expect(parseMetar(BASIC_METAR)!.skyClear).toBe(false);
+    });
+  });
+
+  describe('temperature and altimeter', () => {
+    it('parses negative dewpoint', () => {
+      const result = parseMetar(CALM_METAR)!;
+      expect(result.temperature).toBe(2);
+      expect(result.dewpoint).toBe(-1);
+    });
+
+    it('prefers the precise T group from remarks', () => {
+      const result = parseMetar(BASIC_METAR)!;
+      expect(result.temperature).toBe(12.2);
+      expect(result.dewpoint).toBe(-1.7);
+    });
+
+    it('parses altimeter in inHg', () => {
+      expect(parseMetar(BASIC_METAR)!.altimeterInHg).toBe(30.12);
+    });
+
+    it('converts QNH in hPa to inHg', () => {
+      expect(parseMetar(ICAO_METAR)!.altimeterInHg).toBeCloseTo(30.06, 2);
+    });
+  });
+
+  describe('remarks', () => {
+    it('returns null remarks when RMK is absent', () => {
+      expect(parseMetar(ICAO_METAR)!.remarks).toBeNull();
+    });
+
+    it('parses AO1 and AO2 sensor flags', () => {
+      expect(parseMetar(BASIC_METAR)!.remarks!.stationType).toBe('AO2');
+      expect(parseMetar(AO1_METAR)!.remarks!.stationType).toBe('AO1');
+    });
+
+    it('parses peak wind with hour and minute', () => {
+      expect(parseMetar(IFR_SPECI)!.remarks!.peakWind).toEqual({
+        direction: 50,
+        speed: 32,
+        hour: 18,
+        minute: 5,
+      });
+    });
+
+    it('parses peak wind with minutes only', () => {
+      expect(parseMetar(THUNDER_METAR)!.remarks!.peakWind).toEqual({
+        direction: 280,
+        speed: 35,
+        hour: null,
+        minute: 33,
+      });
+    });
+
+    it('parses wind shift with frontal passage', () => {
+      expect(parseMetar(IFR_SPECI)!.remarks!.windShift).toEqual({
+        hour: 17,
+        minute: 44,
+        frontalPassage: true,
+      });
+    });
+
+    it('parses sea level pressure', () => {
+      expect(parseMetar(BASIC_METAR)!.remarks!.seaLevelPressureHpa).toBe(1020.1);
+    });
+
+    it('flags the maintenance indicator', () => {
+      expect(parseMetar(IFR_SPECI)!.remarks!.maintenanceRequired).toBe(true);
+      expect(parseMetar(BASIC_METAR)!.remarks!.maintenanceRequired).toBe(false);
+    });
+
+    it('does not treat remark groups as body groups', () => {
+      // P0012 and TSB37 must not be picked up as weather or visibility
+      const result = parseMetar(IFR_SPECI)!;
+      expect(result.weather).toHaveLength(2);
+    });
+  });
+});
+
+describe('formatVisibility', () => {
+  it('formats fractions', () => {
+    expect(formatVisibility({ miles: 1.5, lessThan: false, greaterThan: false })).toBe('1 1/2SM');
+    expect(formatVisibility({ miles: 0.25, lessThan: true, greaterThan: false })).toBe('<1/4SM');
+  });
+
+  it('formats whole miles', () => {
+    expect(formatVisibility({ miles: 10, lessThan: false, greaterThan: false })).toBe('10SM');
+  });
+});
+
+describe('formatMetarSummary', () => {
+  it('summarizes visibility, clouds, temperature and altimeter', () => {
+    expect(formatMetarSummary(parseMetar(BASIC_METAR)!)).toBe(
+      '10SM · FEW050 BKN250 · 12/-2°C · A30.12'
+    );
+  });
+
+  it('includes weather and reports clear sky', () => {
+    expect(formatMetarSummary(parseMetar(IFR_SPECI)!)).toContain('-RA BR');
+    expect(formatMetarSummary(parseMetar(VRB_METAR)!)).toContain('CLR');
+  });
+});
@@ -0,0 +1,534 @@
+// METAR/SPECI Decoder
+// Decodes raw METAR and SPECI reports (US/ICAO format) into structured fields
+// Covers the body groups pilots care about plus the most useful remarks
+
+export type MetarReportType = 'METAR' | 'SPECI';
+
+export interface MetarWind {
+  direction: number | null;     // Degrees true, null when VRB
+  variable: boolean;            // VRB direction
+  speed: number | null;         // Knots (null when missing)
+  gust: number | null;          // Knots
+  variableFrom: number | null;  // dddVddd sector start (degrees true)
+  variableTo: number | null;    // dddVddd sector end (degrees true)
+}
+
+export interface MetarVisibility {
+  miles: number;                // Statute miles
+  lessThan: boolean;            // M prefix (e.g., M1/4SM)
+  greaterThan: boolean;         // P prefix or 9999/CAVOK
+}
+
+export interface MetarRvr {
+  runway: string;
+  lowFeet: number;
+  highFeet: number | null;      // Set when reported as a variable range
+  lowQualifier: 'M' | 'P' | null;
+  highQualifier: 'M' | 'P' | null;
+  trend: 'U' | 'D' | 'N' | null;
+}
+
+export type MetarWeatherIntensity = 'light' | 'moderate' | 'heavy' | 'vicinity';
+
+export interface MetarWeather {
+  raw: string;
+  intensity: MetarWeatherIntensity;
+  descriptor: string | null;    // MI, PR, BC, DR, BL, SH, TS, FZ
+  phenomena: string[];          // RA, SN, BR, FG, ...
+  recent: boolean;              // RE prefix
+}
+
+export type MetarCloudCover = 'FEW' | 'SCT' | 'BKN' | 'OVC' | 'VV';
+
+export interface MetarCloudLayer {
+  cover: MetarCloudCover;
+  baseFeet: number | null;      // AGL, null when reported as ///
+  type: 'CB' | 'TCU' | null;
+}
+
+export interface MetarPeakWind {
+  direction: number;
+  speed: number;
+  hour: number | null;          // Null when only minutes past the hour are given
+  minute: number;
+}
+
+export interface MetarWindShift {
+  hour: number | null;
+  minute: number;
+  frontalPassage: boolean;
+}
+
+export interface MetarRemarks {
+  raw: string;
+  stationType: 'AO1' | 'AO2' | null;
+  peakWind: MetarPeakWind | null;
+  windShift: MetarWindShift | null;
+  seaLevelPressureHpa: number | null;
+  maintenanceRequired: boolean; // $ indicator
+}
+
+export interface DecodedMetar {
+  type: MetarReportType;
+  station: string;
+  day: number | null;           // Observation day of month (UTC)
+  hour: number | null;          // Observation hour (UTC)
+  minute: number | null;        // Observation minute (UTC)
+  auto: boolean;
+  corrected: boolean;
+  wind: MetarWind | null;
+  visibility: MetarVisibility | null;
+  cavok: boolean;
+  rvr: MetarRvr[];
+  weather: MetarWeather[];
+  clouds: MetarCloudLayer[];
+  skyClear: boolean;            // CLR/SKC/NSC/NCD
+  ceilingFeet: number | null;   // Lowest BKN/OVC/VV layer
+  temperature: number | null;   // Celsius
+  dewpoint: number | null;      // Celsius
+  altimeterInHg: number | null;
+  remarks: MetarRemarks | null;
+}
+
+const METERS_PER_MILE = 1609.344;
+const HPA_PER_INHG = 33.8639;
+const KT_PER_MPS = 1.943844;
+
+const WEATHER_DESCRIPTORS = ['MI', 'PR', 'BC', 'DR', 'BL', 'SH', 'TS', 'FZ'];
+const WEATHER_PHENOMENA = [
+  'DZ', 'RA', 'SN', 'SG', 'IC', 'PL', 'GR', 'GS', 'UP',
+  'BR', 'FG', 'FU', 'VA', 'DU', 'SA', 'HZ', 'PY',
+  'PO', 'SQ', 'FC', 'SS', 'DS',
+];
+
+const WIND_PATTERN = /^(\d{3}|VRB|\/{3})(\d{2,3}|\/{2})(?:G(\d{2,3}))?(KT|MPS)$/;
+const WIND_SECTOR_PATTERN = /^(\d{3})V(\d{3})$/;
+const CLOUD_PATTERN = /^(FEW|SCT|BKN|OVC|VV)(\d{3}|\/{3})(CB|TCU|\/{3})?$/;
+const TEMP_PATTERN = /^(M?\d{2}|\/\/)\/(M?\d{2}|\/\/)?$/;
+const RVR_PATTERN = /^R(\d{2}[LRC]?)\/([MP])?(\d{4})(?:V([MP])?(\d{4}))?(FT)?\/?([UDN])?$/;
+
+// Parse a signed METAR temperature ("M05" = -5)
+function parseSignedTemp(value: string | undefined): number | null {
+  if (!value || value.startsWith('/')) return null;
+  const num = parseInt(value.replace('M', ''), 10);
+  if (isNaN(num)) return null;
+  return value.startsWith('M') ? -num : num;
+}
+
+// Parse a fraction or whole number ("1/2" -> 0.5, "3" -> 3)
+function parseFraction(value: string): number | null {
+  const [num, den] = value.split('/');
+  if (den === undefined) {
+    const whole = parseInt(num, 10);
+    return isNaN(whole) ? null : whole;
+  }
+  const n = parseInt(num, 10);
+  const d = parseInt(den, 10);
+  if (isNaN(n) || isNaN(d) || d === 0) return null;
+  return n / d;
+}
+
+// Parse a wind group: "21010G18KT", "VRB03KT", "00000KT", "/////KT"
+export function parseWindGroup(token: string): MetarWind | null {
+  const match = token.match(WIND_PATTERN);
+  if (!match) return null;
+
+  const [, dirStr, spdStr, gstStr, unit] = match;
+  const toKnots = (v: number) => (unit === 'MPS' ? Math.round(v * KT_PER_MPS) : v);
+
+  const variable = dirStr === 'VRB';
+  const direction = variable || dirStr.startsWith('/') ? null : parseInt(dirStr, 10);
+  const speed = spdStr.startsWith('/') ? null : toKnots(parseInt(spdStr, 10));
+  const gust = gstStr ? toKnots(parseInt(gstStr, 10)) : null;
+
+  return {
+    direction,
+    variable,
+    speed,
+    gust,
+    variableFrom: null,
+    variableTo: null,
+  };
+}
+
+// Parse a variable wind sector group: "180V240"
+export function parseWindSectorGroup(token: string): { from: number; to: number } | null {
+  const match = token.match(WIND_SECTOR_PATTERN);
+  if (!match) return null;
+  return { from: parseInt(match[1], 10), to: parseInt(match[2], 10) };
+}
+
+// Parse a visibility group: "10SM", "1/2SM", "M1/4SM", "P6SM", "9999", "0800"
+// A leading whole number ("1" in "1 1/2SM") is passed separately as wholePart
+export function parseVisibilityGroup(token: string, wholePart?: string): MetarVisibility | null {
+  const smMatch = token.match(/^([MP])?(\d+(?:\/\d+)?)SM$/);
+  if (smMatch) {
+    const value = parseFraction(smMatch[2]);
+    if (value === null) return null;
+    const whole = wholePart ? parseInt(wholePart, 10) : 0;
+    return {
+      miles: whole + value,
+      lessThan: smMatch[1] === 'M',
+      greaterThan: smMatch[1] === 'P',
+    };
+  }
+
+  // ICAO meters: 4 digits, 9999 means 10km or more
+  const meterMatch = token.match(/^(\d{4})(NDV)?$/);
+  if (meterMatch) {
+    const meters = parseInt(meterMatch[1], 10);
+    return {
+      miles: Math.round((meters / METERS_PER_MILE) * 100) / 100,
+      lessThan: false,
+      greaterThan: meters === 9999,
+    };
+  }
+
+  return null;
+}
+
+// Parse a runway visual range group: "R28L/2400FT", "R06/1000V2400FT/U", "R24/P6000FT"
+export function parseRvrGroup(token: string): MetarRvr | null {
+  const match = token.match(RVR_PATTERN);
+  if (!match) return null;
+
+  const [, runway, lowQual, lowStr, highQual, highStr, feetUnit, trend] = match;
+  // Values without FT are ICAO meters
+  const toFeet = (v: number) => (feetUnit ? v : Math.round(v * 3.28084));
+
+  return {
+    runway,
+    lowFeet: toFeet(parseInt(lowStr, 10)),
+    highFeet: highStr ? toFeet(parseInt(highStr, 10)) : null,
+    lowQualifier: (lowQual as 'M' | 'P' | undefined) ?? null,
+    highQualifier: (highQual as 'M' | 'P' | undefined) ?? null,
+    trend: (trend as 'U' | 'D' | 'N' | undefined) ?? null,
+  };
+}
+
+// Parse a present weather group: "-RA", "+TSRA", "VCSH", "FZFG", "BR", "RERA"
+export function parseWeatherGroup(token: string): MetarWeather | null {
+  let rest = token;
+  let recent = false;
+  if (rest.startsWith('RE') && rest.length > 2) {
+    recent = true;
+    rest = rest.slice(2);
+  }
+
+  let intensity: MetarWeatherIntensity = 'moderate';
+  if (rest.startsWith('-')) {
+    intensity = 'light';
+    rest = rest.slice(1);
+  } else if (rest.startsWith('+')) {
+    intensity = 'heavy';
+    rest = rest.slice(1);
+  } else if (rest.startsWith('VC')) {
+    intensity = 'vicinity';
+    rest = rest.slice(2);
+  }
+
+  let descriptor: string | null = null;
+  const maybeDescriptor = rest.slice(0, 2);
+  if (WEATHER_DESCRIPTORS.includes(maybeDescriptor)) {
+    descriptor = maybeDescriptor;
+    rest = rest.slice(2);
+  }
+
+  const phenomena: string[] = [];
+  while (rest.length > 0) {
+    const code = rest.slice(0, 2);
+    if (!WEATHER_PHENOMENA.includes(code)) return null;
+    phenomena.push(code);
+    rest = rest.slice(2);
+  }
+
+  // A bare descriptor is only valid for thunderstorms ("TS", "VCTS") and vicinity showers ("VCSH")
+  if (phenomena.length === 0) {
+    const bareAllowed = descriptor === 'TS' || (descriptor === 'SH' && intensity === 'vicinity');
+    if (!bareAllowed) return null;
+  }
+
+  return { raw: token, intensity, descriptor, phenomena, recent };
+}
+
+// Parse a cloud layer group: "BKN050", "OVC008CB", "VV002", "FEW///"
+export function parseCloudGroup(token: string): MetarCloudLayer | null {
+  const match = token.match(CLOUD_PATTERN);
+  if (!match) return null;
+  const [, cover, baseStr, type] = match;
+  return {
+    cover: cover as MetarCloudCover,
+    baseFeet: baseStr.startsWith('/') ? null : parseInt(baseStr, 10) * 100,
+    type: type === 'CB' || type === 'TCU' ? type : null,
+  };
+}
+
+// Lowest broken, overcast or obscured layer
+export function getCeilingFeet(clouds: MetarCloudLayer[]): number | null {
+  let ceiling: number | null = null;
+  for (const layer of clouds) {
+    if (layer.cover !== 'BKN' && layer.cover !== 'OVC' && layer.cover !== 'VV') continue;
+    if (layer.baseFeet === null) continue;
+    if (ceiling === null || layer.baseFeet < ceiling) ceiling = layer.baseFeet;
+  }
+  return ceiling;
+}
+
+// Parse a "hhmm" or "mm" remark time
+function parseRemarkTime(value: string): { hour: number | null; minute: number } {
+  if (value.length === 4) {
+    return { hour: parseInt(value.slice(0, 2), 10), minute: parseInt(value.slice(2), 10) };
+  }
+  return { hour: null, minute: parseInt(value, 10) };
+}
+
+// Parse the remarks section (text after RMK)
+export function parseRemarks(raw: string): MetarRemarks {
+  const remarks: MetarRemarks = {
+    raw,
+    stationType: null,
+    peakWind: null,
+    windShift: null,
+    seaLevelPressureHpa: null,
+    maintenanceRequired: false,
+  };
+
+  const stationTypeMatch = raw.match(/\bAO([12])A?\b/);
+  if (stationTypeMatch) {
+    remarks.stationType = stationTypeMatch[1] === '1' ? 'AO1' : 'AO2';
+  }
+
+  // PK WND dddff(f)/(hh)mm
+  const peakMatch = raw.match(/\bPK WND (\d{3})(\d{2,3})\/(\d{2}|\d{4})\b/);
+  if (peakMatch) {
+    remarks.peakWind = {
+      direction: parseInt(peakMatch[1], 10),
+      speed: parseInt(peakMatch[2], 10),
+      ...parseRemarkTime(peakMatch[3]),
+    };
+  }
+
+  // WSHFT (hh)mm [FROPA]
+  const shiftMatch = raw.match(/\bWSHFT (\d{2}|\d{4})( FROPA)?\b/);
+  if (shiftMatch) {
+    remarks.windShift = {
+      ...parseRemarkTime(shiftMatch[1]),
+      frontalPassage: Boolean(shiftMatch[2]),
+    };
+  }
+
+  // SLPppp: tenths of hPa, leading 9 or 10 omitted
+  const slpMatch = raw.match(/\bSLP(\d{3})\b/);
+  if (slpMatch) {
+    const tenths = parseInt(slpMatch[1], 10);
+    const base = tenths >= 500 ? 900 : 1000;
+    remarks.seaLevelPressureHpa = Math.round((base + tenths / 10) * 10) / 10;
+  }
+
+  remarks.maintenanceRequired = /(^|\s)\$(\s|$)/.test(raw);
+
+  return remarks;
+}
+
+// Decode a raw METAR or SPECI report
+// Returns null when the report does not start with a recognizable station identifier
+export function parseMetar(rawOb: string): DecodedMetar | null {
+  const text = rawOb.trim().replace(/=$/, '');
+  if (!text) return null;
+
+  // Split off remarks before tokenizing the body
+  const rmkIdx = text.search(/\sRMK(\s|$)/);
+  const body = rmkIdx >= 0 ? text.slice(0, rmkIdx) : text;
+  const rmkText = rmkIdx >= 0 ? text.slice(rmkIdx).replace(/^\s*RMK\s*/, '').trim() : null;
+
+  const tokens = body.split(/\s+/).filter(Boolean);
+  let i = 0;
+
+  let type: MetarReportType = 'METAR';
+  if (tokens[i] === 'METAR' || tokens[i] === 'SPECI') {
+    type = tokens[i] as MetarReportType;
+    i++;
+  }
+
+  const station = tokens[i];
+  if (!station || !/^[A-Z][A-Z0-9]{3}$/.test(station)) return null;
+  i++;
+
+  const decoded: DecodedMetar = {
+    type,
+    station,
+    day: null,
+    hour: null,
+    minute: null,
+    auto: false,
+    corrected: false,
+    wind: null,
+    visibility: null,
+    cavok: false,
+    rvr: [],
+    weather: [],
+    clouds: [],
+    skyClear: false,
+    ceilingFeet: null,
+    temperature: null,
+    dewpoint: null,
+    altimeterInHg: null,
+    remarks: null,
+  };
+
+  const timeMatch = tokens[i]?.match(/^(\d{2})(\d{2})(\d{2})Z$/);
+  if (timeMatch) {
+    decoded.day = parseInt(timeMatch[1], 10);
+    decoded.hour = parseInt(timeMatch[2], 10);
+    decoded.minute = parseInt(timeMatch[3], 10);
+    i++;
+  }
+
+  for (; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (token === 'AUTO') {
+      decoded.auto = true;
+      continue;
+    }
+    if (token === 'COR') {
+      decoded.corrected = true;
+      continue;
+    }
+
+    if (!decoded.wind) {
+      const wind = parseWindGroup(token);
+      if (wind) {
+        decoded.wind = wind;
+        continue;
+      }
+    }
+
+    const sector = parseWindSectorGroup(token);
+    if (sector && decoded.wind) {
+      decoded.wind.variableFrom = sector.from;
+      decoded.wind.variableTo = sector.to;
+      continue;
+    }
+
+    if (token === 'CAVOK') {
+      decoded.cavok = true;
+      decoded.skyClear = true;
+      decoded.visibility = { miles: 6, lessThan: false, greaterThan: true };
+      continue;
+    }
+
+    if (!decoded.visibility) {
+      // Whole + fraction split across two tokens: "1 1/2SM"
+      if (/^\d$/.test(token) && /^\d\/\d{1,2}SM$/.test(tokens[i + 1] ?? '')) {
+        decoded.visibility = parseVisibilityGroup(tokens[i + 1], token);
+        i++;
+        continue;
+      }
+      const visibility = parseVisibilityGroup(token);
+      if (visibility) {
+        decoded.visibility = visibility;
+        continue;
+      }
+    }
+
+    const rvr = parseRvrGroup(token);
+    if (rvr) {
+      decoded.rvr.push(rvr);
+      continue;
+    }
+
+    if (token === 'CLR' || token === 'SKC' || token === 'NSC' || token === 'NCD') {
+      decoded.skyClear = true;
+      continue;
+    }
+
+    const cloud = parseCloudGroup(token);
+    if (cloud) {
+      decoded.clouds.push(cloud);
+      continue;
+    }
+
+    const tempMatch = token.match(TEMP_PATTERN);
+    if (tempMatch) {
+      decoded.temperature = parseSignedTemp(tempMatch[1]);
+      decoded.dewpoint = parseSignedTemp(tempMatch[2]);
+      continue;
+    }
+
+    const altMatch = token.match(/^([AQ])(\d{4})$/);
+    if (altMatch) {
+      const value = parseInt(altMatch[2], 10);
+      decoded.altimeterInHg = altMatch[1] === 'A'
+        ? value / 100
+        : Math.round((value / HPA_PER_INHG) * 100) / 100;
+      continue;
+    }
+
+    const weather = parseWeatherGroup(token);
+    if (weather) {
+      decoded.weather.push(weather);
+      continue;
+    }
+    // Unrecognized body groups (NOSIG, trend groups, etc.) are ignored
+  }
+
+  decoded.ceilingFeet = getCeilingFeet(decoded.clouds);
+
+  if (rmkText !== null) {
+    decoded.remarks = parseRemarks(rmkText);
+
+    // T group carries temperature/dewpoint to tenths of a degree: T01560044
+    const preciseTemp = rmkText.match(/\bT([01])(\d{3})(?:([01])(\d{3}))?\b/);
+    if (preciseTemp) {
+      const sign = (s: string) => (s === '1' ? -1 : 1);
+      decoded.temperature = sign(preciseTemp[1]) * parseInt(preciseTemp[2], 10) / 10;
+      if (preciseTemp[3]) {
+        decoded.dewpoint = sign(preciseTemp[3]) * parseInt(preciseTemp[4], 10) / 10;
+      }
+    }
+  }
+
+  return decoded;
+}
+
+// Format visibility for display: "10SM", "1 1/2SM", "<1/4SM"
+export function formatVisibility(visibility: MetarVisibility): string {
+  const whole = Math.floor(visibility.miles);
+  const frac = visibility.miles - whole;
+  const fractions: [number, string][] = [
+    [0.125, '1/8'], [0.25, '1/4'], [0.375, '3/8'], [0.5, '1/2'],
+    [0.625, '5/8'], [0.75, '3/4'], [0.875, '7/8'],
+  ];
+  const fracStr = fractions.find(([v]) => Math.abs(v - frac) < 0.02)?.[1];
+  let value: string;
+  if (!fracStr) {
+    value = String(Math.round(visibility.miles * 10) / 10);
+  } else {
+    value = whole > 0 ? `${whole} ${fracStr}` : fracStr;
+  }
+  const prefix = visibility.lessThan ? '<' : visibility.greaterThan ? '>' : '';
+  return `${prefix}${value}SM`;
+}
+
+// Short human-readable summary of the decoded report (visibility, sky, temp, altimeter)
+export function formatMetarSummary(decoded: DecodedMetar): string {
+  const parts: string[] = [];
+  if (decoded.visibility) parts.push(formatVisibility(decoded.visibility));
+  if (decoded.weather.length) parts.push(decoded.weather.map((w) => w.raw).join(' '));
+  if (decoded.clouds.length) {
+    parts.push(
+      decoded.clouds
+        .map((c) => `${c.cover}${c.baseFeet !== null ? String(c.baseFeet / 100).padStart(3, '0') : '///'}${c.type ?? ''}`)
+        .join(' ')
+    );
+  } else if (decoded.skyClear) {
+    parts.push(decoded.cavok ? 'CAVOK' : 'CLR');
+  }
+  if (decoded.temperature !== null) {
+    const dew = decoded.dewpoint !== null ? `/${Math.round(decoded.dewpoint)}` : '';
+    parts.push(`${Math.round(decoded.temperature)}${dew}°C`);
+  }
+  if (decoded.altimeterInHg !== null) parts.push(`A${decoded.altimeterInHg.toFixed(2)}`);
+  return parts.join(' · ');
+}
@@ -0,0 +1,30 @@
+// Catalog of which stations appear in the NBM bulletins, so airports without
+// their own guidance can be flagged and fall back to a nearby station
+
+import { NbmBulletinIndex, NbmProductType } from './nbm-parser';
+
+// Bulletins the catalog is built from (NBE covers the same stations as NBS)
+export const NBM_COVERAGE_PRODUCTS: NbmProductType[] = ['nbh', 'nbs'];
+
+export interface NbmCoverage {
+  products: NbmProductType[];              // Bulletins the catalog was built from
+  stations: Map<string, NbmProductType[]>; // Station ID -> products that include it
+}
+
+export function buildNbmCoverage(indexes: NbmBulletinIndex[]): NbmCoverage {
+  const stations = new Map<string, NbmProductType[]>();
+  for (const index of indexes) {
+    for (const id of index.stations.keys()) {
+      const products = stations.get(id);
+      if (products) products.push(index.productType);
+      else stations.set(id, [index.productType]);
+    }
+  }
+  return { products: indexes.map((index) => index.productType), stations };
+}
+
+// Whether a station is in any bulletin; null when no bulletin has been indexed
+export function hasNbmCoverage(coverage: NbmCoverage, icao: string): boolean | null {
+  if (coverage.products.length === 0) return null;
+  return coverage.stations.has(icao.toUpperCase());
+}
@@ -0,0 +1,106 @@
+// NBM text bulletin row schema
+// Describes every element row found in the NBH, NBS and NBE products so the parser
+// can decode them generically. Values are converted to `units` by multiplying the
+// bulletin value by `factor`; -99 and NG always mean missing.
+
+export interface NbmElementSpec {
+  prefix: string;        // Three-letter row label, e.g. "WDR"
+  name: string;
+  units: string;         // Units after conversion
+  factor?: number;       // Bulletin value * factor = value in units (default 1)
+  sentinels?: number[];  // Extra bulletin values that decode to null (e.g. unlimited ceiling)
+  fixedWidth?: boolean;  // 3-character fields that can run together ("-88210220")
+}
+
+// Sentinels for "no ceiling" / "no cloud base"
+const UNLIMITED = [888, -88];
+
+export const NBM_ELEMENTS: NbmElementSpec[] = [
+  // Temperature and moisture
+  { prefix: 'TXN', name: 'Max/min temperature', units: '°F' },
+  { prefix: 'XND', name: 'Max/min temperature std dev', units: '°F' },
+  { prefix: 'TMP', name: 'Temperature', units: '°F' },
+  { prefix: 'TSD', name: 'Temperature std dev', units: '°F' },
+  { prefix: 'DPT', name: 'Dew point', units: '°F' },
+  { prefix: 'DSD', name: 'Dew point std dev', units: '°F' },
+
+  // Sky and wind
+  { prefix: 'SKY', name: 'Sky cover', units: '%' },
+  { prefix: 'SSD', name: 'Sky cover std dev', units: '%' },
+  { prefix: 'WDR', name: 'Wind direction', units: 'deg', factor: 10 },
+  { prefix: 'WSP', name: 'Wind speed', units: 'kt' },
+  { prefix: 'WSD', name: 'Wind speed std dev', units: 'kt' },
+  { prefix: 'GST', name: 'Wind gust', units: 'kt' },
+  { prefix: 'GSD', name: 'Wind gust std dev', units: 'kt' },
+
+  // Precipitation probability and amount
+  { prefix: 'P01', name: '1-hour precipitation probability', units: '%' },
+  { prefix: 'P06', name: '6-hour precipitation probability', units: '%' },
+  { prefix: 'P12', name: '12-hour precipitation probability', units: '%' },
+  { prefix: 'Q01', name: '1-hour precipitation amount', units: 'in', factor: 0.01 },
+  { prefix: 'Q06', name: '6-hour precipitation amount', units: 'in', factor: 0.01 },
+  { prefix: 'Q12', name: '12-hour precipitation amount', units: 'in', factor: 0.01 },
+  { prefix: 'Q24', name: '24-hour precipitation amount', units: 'in', factor: 0.01 },
+  { prefix: 'DUR', name: 'Precipitation duration', units: 'h' },
+
+  // Thunderstorms
+  { prefix: 'T01', name: '1-hour thunderstorm probability', units: '%' },
+  { prefix: 'T03', name: '3-hour thunderstorm probability', units: '%' },
+  { prefix: 'T06', name: '6-hour thunderstorm probability', units: '%' },
+  { prefix: 'T12', name: '12-hour thunderstorm probability', units: '%' },
+
+  // Precipitation type (conditional on precipitation occurring)
+  { prefix: 'PZR', name: 'Freezing rain probability', units: '%' },
+  { prefix: 'PSN', name: 'Snow probability', units: '%' },
+  { prefix: 'PPL', name: 'Sleet probability', units: '%' },
+  { prefix: 'PRA', name: 'Rain probability', units: '%' },
+
+  // Snow and ice
+  { prefix: 'S01', name: '1-hour snow amount', units: 'in', factor: 0.1 },
+  { prefix: 'S06', name: '6-hour snow amount', units: 'in', factor: 0.1 },
+  { prefix: 'S12', name: '12-hour snow amount', units: 'in', factor: 0.1 },
+  { prefix: 'S24', name: '24-hour snow amount', units: 'in', factor: 0.1 },
+  { prefix: 'SLV', name: 'Snow level', units: 'ft', factor: 100, fixedWidth: true },
+  { prefix: 'I01', name: '1-hour ice amount', units: 'in', factor: 0.01 },
+  { prefix: 'I06', name: '6-hour ice amount', units: 'in', factor: 0.01 },
+  { prefix: 'I12', name: '12-hour ice amount', units: 'in', factor: 0.01 },
+
+  // Ceiling, cloud base and visibility
+  { prefix: 'CIG', name: 'Ceiling', units: 'ft', factor: 100, sentinels: UNLIMITED, fixedWidth: true },
+  { prefix: 'IFC', name: 'IFR ceiling probability', units: '%' },
+  { prefix: 'LCB', name: 'Lowest cloud base', units: 'ft', factor: 100, sentinels: UNLIMITED, fixedWidth: true },
+  { prefix: 'VIS', name: 'Visibility', units: 'mi', factor: 0.1, fixedWidth: true },
+  { prefix: 'IFV', name: 'IFR visibility probability', units: '%' },
+
+  // Boundary layer, fire weather, radiation and marine
+  { prefix: 'MHT', name: 'Mixing height', units: 'ft', factor: 100, fixedWidth: true },
+  { prefix: 'TWD', name: 'Transport wind direction', units: 'deg', factor: 10 },
+  { prefix: 'TWS', name: 'Transport wind speed', units: 'kt' },
+  { prefix: 'HID', name: 'Haines index', units: '' },
+  { prefix: 'SOL', name: 'Solar radiation', units: 'W/m²', factor: 10 },
+  { prefix: 'SWH', name: 'Significant wave height', units: 'ft' },
+];
+
+const ELEMENTS_BY_PREFIX = new Map(NBM_ELEMENTS.map((spec) => [spec.prefix, spec]));
+
+// Schema entry for a row label, or undefined for rows we don't recognise
+export function getNbmElementSpec(prefix: string): NbmElementSpec | undefined {
+  return ELEMENTS_BY_PREFIX.get(prefix);
+}
+
+// Whether a bulletin field holds no value (blank, -99 or NG), as opposed to a sentinel
+export function isNbmMissing(field: string | undefined): boolean {
+  const num = parseInt(field ?? '');
+  return isNaN(num) || num === -99 || field === 'NG';
+}
+
+// Convert a bulletin field to the element's units (null for missing and sentinels)
+export function decodeNbmValue(spec: NbmElementSpec | undefined, field: string): number | null {
+  if (isNbmMissing(field)) return null;
+  const num = parseInt(field);
+  if (!spec) return num;
+  if (spec.sentinels?.includes(num)) return null;
+  const factor = spec.factor ?? 1;
+  // Round away floating point noise from fractional factors (0.1 * 3 = 0.30000000000000004)
+  return factor === 1 ? num : Math.round(num * factor * 100) / 100;
+}
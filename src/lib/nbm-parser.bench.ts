@@ -0,0 +1,40 @@
+import { bench, describe } from 'vitest';
+import { indexNbmBulletin, parseNbmBulletin } from './nbm-parser';
+
+// Synthetic NBH bulletin about the size of a real cycle (~2,000 stations)
+const STATION_COUNT = 2000;
+const row = (name: string, value: (i: number) => number) =>
+  ` ${name} ${Array.from({ length: 25 }, (_, i) => String(value(i)).padStart(3)).join('')}`;
+
+const stationIds = Array.from({ length: STATION_COUNT }, (_, i) => `K${i.toString(36).toUpperCase().padStart(3, '0')}`);
+const bulletin = stationIds
+  .map((id) => [
+    `${id}   NBM V4.3 NBH GUIDANCE    2/05/2026  0000 UTC`,
+    row('UTC', (i) => (i + 1) % 24),
+    row('TMP', (i) => 20 + i),
+    row('DPT', (i) => 10 + i),
+    row('SKY', (i) => i * 4),
+    row('WDR', (i) => (i % 36) + 1),
+    row('WSP', (i) => i % 15),
+    row('GST', (i) => (i % 15) + 5),
+    row('P01', () => 0),
+    ` CIG${'-88'.repeat(25)}`,
+    ` VIS${'100'.repeat(25)}`,
+    '',
+  ].join('\n'))
+  .join('\n');
+
+describe('NBM bulletin parsing', () => {
+  bench('index whole bulletin (once per cycle)', () => {
+    indexNbmBulletin(bulletin, 'nbh');
+  });
+
+  bench('regex lookup of one station (previous per-request path)', () => {
+    parseNbmBulletin(bulletin, stationIds[STATION_COUNT - 1]);
+  });
+
+  const index = indexNbmBulletin(bulletin, 'nbh');
+  bench('indexed lookup of one station', () => {
+    index.stations.get(stationIds[STATION_COUNT - 1]);
+  });
+});
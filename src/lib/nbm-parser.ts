@@ -1,8 +1,11 @@
 // NBM Text Bulletin Parser
 // Parses NOAA National Blend of Models (NBM) text bulletins
-// Supports both NBH (hourly, 24h) and NBS (3-hourly, 72h) products
+// Supports NBH (hourly, 24h), NBS (3-hourly, 72h) and NBE (12-hourly, ~8 days) products
 
-export type NbmProductType = 'nbh' | 'nbs';
+import { getUpstreamBaseUrl } from './upstream';
+import { getNbmElementSpec, decodeNbmValue, isNbmMissing } from './nbm-elements';
+
+export type NbmProductType = 'nbh' | 'nbs' | 'nbe';
 
 export interface NbmParsedData {
   station: string;
@@ -14,13 +17,30 @@ export interface NbmParsedData {
   tmp: (number | null)[];  // Temperature in F
   dpt: (number | null)[];  // Dew point in F
   sky: (number | null)[];  // Sky cover %
-  cig: (number | null)[];  // Ceiling in feet (null = unlimited)
+  cig: (number | null | undefined)[];  // Ceiling in feet (null = unlimited, undefined = missing)
   vis: (number | null)[];  // Visibility in miles
   pop: (number | null)[];  // Probability of precipitation %
+  elements: Record<string, (number | null)[]>;  // Every row in NBM_ELEMENTS, keyed by prefix, in its units
+  rawRows: Record<string, string[]>;             // Rows missing from NBM_ELEMENTS, one raw field per column
+}
+
+// Time and date rows that are not forecast elements
+const NON_ELEMENT_ROWS = new Set(['UTC', 'FHR', 'DAY']);
+
+// First element present out of several alternatives, e.g. ['T01', 'T03', 'T12'] for
+// thunder, since the accumulation period differs between products
+export function pickNbmElement(
+  elements: Record<string, (number | null)[]>,
+  prefixes: string[]
+): (number | null)[] {
+  for (const prefix of prefixes) {
+    if (elements[prefix]?.length) return elements[prefix];
+  }
+  return [];
 }
 
 // Parse NBM text bulletin for a specific station
-// productType: 'nbh' for hourly (24h) or 'nbs' for 3-hourly (72h)
+// productType: 'nbh' for hourly (24h), 'nbs' for 3-hourly (72h) or 'nbe' for 12-hourly (~8 days)
 export function parseNbmBulletin(text: string, station: string, productType: NbmProductType = 'nbh'): NbmParsedData | null {
   // Find station section - format: " KFRG   NBM V4.3 NBH GUIDANCE" or "NBM V4.3 NBS GUIDANCE"
   // Use [ \t]* instead of \s* to avoid matching across newlines
@@ -40,45 +60,96 @@ export function parseNbmBulletin(text: string, station: string, productType: Nbm
   const stationSection = text.slice(startIdx, endIdx);
   const lines = stationSection.split('\n').filter(l => l.trim());
 
-  if (lines.length < 3) return null;
+  return parseStationSection(lines, station);
+}
 
-  // Parse header line: "KFRG   NBH GFS MOS GUIDANCE   2/05/2026  0700 UTC"
-  const headerLine = lines[0];
-  const dateMatch = headerLine.match(/(\d{1,2})\/(\d{2})\/(\d{4})\s+(\d{2})(\d{2})\s*UTC/);
-  if (!dateMatch) return null;
+// NBM bulletin parsed once into a station-keyed index
+export interface NbmBulletinIndex {
+  productType: NbmProductType;
+  cycle: Date | null;         // Bulletin issuance time (UTC), from the first station
+  stations: Map<string, NbmParsedData>;
+  parseMs: number;            // Time spent building the index
+}
+
+// Parse every station in a bulletin in a single pass over its lines
+export function indexNbmBulletin(text: string, productType: NbmProductType = 'nbh'): NbmBulletinIndex {
+  const started = performance.now();
+  const productName = productType.toUpperCase();
+  const headerPattern = new RegExp(`^[ \\t]*([A-Z0-9]{4,6})\\s+(?:NBM.*${productName}|${productName})`);
+  const stations = new Map<string, NbmParsedData>();
 
-  const [, month, day, year, hour, minute] = dateMatch;
-  const baseTime = new Date(Date.UTC(
+  let station: string | null = null;
+  let section: string[] = [];
+  const flush = () => {
+    if (!station) return;
+    const parsed = parseStationSection(section, station);
+    if (parsed) stations.set(station, parsed);
+  };
+
+  for (const line of text.split('\n')) {
+    const header = headerPattern.exec(line);
+    if (header) {
+      flush();
+      station = header[1];
+      section = [line];
+    } else if (station && line.trim()) {
+      section.push(line);
+    }
+  }
+  flush();
+
+  const first = stations.values().next().value;
+  return {
+    productType,
+    cycle: first ? first.baseTime : null,
+    stations,
+    parseMs: performance.now() - started,
+  };
+}
+
+// Issuance time of a bulletin from its first station header, without parsing it
+export function getNbmBulletinCycle(text: string): Date | null {
+  const header = text.match(/(\d{1,2})\/(\d{2})\/(\d{4})\s+(\d{2})(\d{2})\s*UTC/);
+  if (!header) return null;
+  const [, month, day, year, hour, minute] = header;
+  return new Date(Date.UTC(
     parseInt(year),
     parseInt(month) - 1,
     parseInt(day),
     parseInt(hour),
     parseInt(minute)
   ));
+}
+
+// Parse one station section (header line first, blank lines removed)
+function parseStationSection(lines: string[], station: string): NbmParsedData | null {
+  if (lines.length < 3) return null;
+
+  // Parse header line: "KFRG   NBH GFS MOS GUIDANCE   2/05/2026  0700 UTC"
+  const baseTime = getNbmBulletinCycle(lines[0]);
+  if (!baseTime) return null;
 
-  // Parse time row - find line starting with UTC (NBH) or FHR (NBS)
+  // Parse time row - prefer FHR (forecast hours) and fall back to UTC clock hours
   // NBH format: "UTC  08 09 10 11 12 13 14 15 16 17 18 19 20 21 22 23 00 01 02 03 04 05 06 07 08"
   // NBS format: "FHR  06 09 12 15 18 21 24 27 30 33 36 39 42 45 48 51 54 57 60 63 66 69 72"
+  // NBE format: "FHR     36    48|   60    72|   84    96|  108   120|  132   144|..."
   let forecastHours: number[] = [];
   let isForecastHourRelative = false;
 
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (line.startsWith('FHR')) {
-      // NBS uses forecast hours relative to base time
-      isForecastHourRelative = true;
-      const hourMatches = line.match(/\d{2,3}/g);
-      if (hourMatches) {
-        forecastHours = hourMatches.map(h => parseInt(h));
-      }
-      break;
-    } else if (line.startsWith('UTC')) {
-      // NBH uses UTC hours
-      const hourMatches = line.match(/\d{2}/g);
-      if (hourMatches) {
-        forecastHours = hourMatches.map(h => parseInt(h));
-      }
-      break;
+  const fhrLine = lines.slice(1).find((l) => l.trim().startsWith('FHR'));
+  const utcLine = lines.slice(1).find((l) => l.trim().startsWith('UTC'));
+  if (fhrLine) {
+    // NBS/NBE use forecast hours relative to base time
+    isForecastHourRelative = true;
+    const hourMatches = fhrLine.trim().slice(3).match(/\d{1,3}/g);
+    if (hourMatches) {
+      forecastHours = hourMatches.map(h => parseInt(h));
+    }
+  } else if (utcLine) {
+    // NBH uses UTC hours
+    const hourMatches = utcLine.trim().slice(3).match(/\d{2}/g);
+    if (hourMatches) {
+      forecastHours = hourMatches.map(h => parseInt(h));
     }
   }
 
@@ -115,115 +186,125 @@ export function parseNbmBulletin(text: string, station: string, productType: Nbm
     }
   }
 
-  // Helper to parse a data row (space-separated values)
-  const parseRow = (prefix: string): (number | null)[] => {
-    for (const line of lines) {
-      if (line.startsWith(prefix) || line.startsWith(` ${prefix}`)) {
-        const values = line.slice(4).trim().split(/\s+/);
-        return values.map(v => {
-          const num = parseInt(v);
-          if (isNaN(num) || num === -99 || v === 'NG') return null;
-          return num;
-        });
-      }
+  // Column boundaries from the time row: each column ends where its hour label ends.
+  // Real bulletins right-align every row to these, so sparse rows (e.g. P06 in NBH)
+  // and fields that run together can be read column by column.
+  const timeLine = (fhrLine ?? utcLine)!;
+  const timeLabelEnd = timeLine.length - timeLine.trimStart().length + 3;
+  const columnEnds = [...timeLine.slice(timeLabelEnd).matchAll(/\d+/g)].map(
+    (m) => timeLabelEnd + m.index + m[0].length
+  );
+
+  // Split a data row into one field per column (NBE days are split by '|')
+  const splitRow = (line: string, dataStart: number, fixedWidth: boolean): string[] => {
+    const dataSection = line.slice(dataStart).replace(/\|/g, ' ').trim();
+    const tokens = dataSection ? dataSection.split(/\s+/) : [];
+    if (tokens.length >= forecastHours.length) return tokens;
+
+    // Sparse or run-together row: read each column up to where its time label ends
+    if (columnEnds.length === forecastHours.length) {
+      let columnStart = dataStart;
+      return columnEnds.map((columnEnd) => {
+        const field = line.slice(columnStart, columnEnd).replace(/\|/g, ' ').trim();
+        columnStart = columnEnd;
+        return field;
+      });
     }
-    return [];
-  };
 
-  // Helper to parse fixed-width data row (3-char fields, no spaces)
-  // Used for CIG and VIS which can have values like "-88" that run together
-  const parseFixedWidthRow = (prefix: string, width: number = 3): (number | null)[] => {
-    for (const line of lines) {
-      if (line.startsWith(prefix) || line.startsWith(` ${prefix}`)) {
-        const dataSection = line.slice(4).trimStart();
-        // Check if this looks like fixed-width (no spaces between numbers)
-        if (!dataSection.includes(' ') || /[-\d]{3}[-\d]{3}/.test(dataSection)) {
-          // Parse as fixed-width
-          const values: (number | null)[] = [];
-          for (let i = 0; i < dataSection.length; i += width) {
-            const chunk = dataSection.slice(i, i + width).trim();
-            if (!chunk) continue;
-            const num = parseInt(chunk);
-            if (isNaN(num) || num === -99 || chunk === 'NG') {
-              values.push(null);
-            } else {
-              values.push(num);
-            }
-          }
-          return values;
-        } else {
-          // Fall back to space-separated
-          const values = dataSection.split(/\s+/);
-          return values.map(v => {
-            const num = parseInt(v);
-            if (isNaN(num) || num === -99 || v === 'NG') return null;
-            return num;
-          });
-        }
+    // Unaligned row: fixed-width 3-char fields with no spaces between them, e.g. "-88210220"
+    if (fixedWidth && (!dataSection.includes(' ') || /[-\d]{3}[-\d]{3}/.test(dataSection))) {
+      const fields: string[] = [];
+      for (let i = 0; i < dataSection.length; i += 3) {
+        const chunk = dataSection.slice(i, i + 3).trim();
+        if (chunk) fields.push(chunk);
       }
+      return fields;
     }
-    return [];
+    return tokens;
   };
 
-  // Parse all data rows
-  const wdrRaw = parseRow('WDR');
-  const wsp = parseRow('WSP');
-  const gst = parseRow('GST');
-  const tmp = parseRow('TMP');
-  const dpt = parseRow('DPT');
-  const sky = parseRow('SKY');
-  const cigRaw = parseFixedWidthRow('CIG');
-  const visRaw = parseFixedWidthRow('VIS');
-  // P01 for NBH (1-hour precip), P06 for NBS (6-hour precip)
-  let pop = parseRow('P01');
-  if (pop.length === 0) {
-    pop = parseRow('P06');
-  }
-
-  // Convert wind direction from tens of degrees to degrees
-  const wdr = wdrRaw.map(v => v !== null ? v * 10 : null);
-
-  // Convert ceiling from hundreds of feet to feet, 888 = unlimited
-  const cig = cigRaw.map(v => {
-    if (v === null) return null;
-    if (v === 888 || v === -88) return null; // Unlimited ceiling
-    return v * 100;
-  });
+  // Decode every element row, keeping rows missing from the schema as raw fields
+  const elements: Record<string, (number | null)[]> = {};
+  const rawRows: Record<string, string[]> = {};
+  let cigFields: string[] = [];
+  for (const line of lines.slice(1)) {
+    const trimmed = line.trimStart();
+    const prefix = trimmed.slice(0, 3);
+    if (!/^[A-Z][A-Z0-9]{2}$/.test(prefix) || NON_ELEMENT_ROWS.has(prefix)) continue;
+    if (prefix in elements || prefix in rawRows) continue;
 
-  // Convert visibility from tenths of miles to miles
-  const vis = visRaw.map(v => v !== null ? v / 10 : null);
+    const spec = getNbmElementSpec(prefix);
+    const fields = splitRow(line, line.length - trimmed.length + 3, spec?.fixedWidth ?? false);
+    if (spec) {
+      elements[prefix] = fields.map((field) => decodeNbmValue(spec, field));
+      if (prefix === 'CIG') cigFields = fields;
+    } else {
+      rawRows[prefix] = fields;
+    }
+  }
 
   return {
     station,
     baseTime,
     times,
-    wdr,
-    wsp,
-    gst,
-    tmp,
-    dpt,
-    sky,
-    cig,
-    vis,
-    pop,
+    wdr: elements.WDR ?? [],
+    wsp: elements.WSP ?? [],
+    gst: elements.GST ?? [],
+    tmp: elements.TMP ?? [],
+    dpt: elements.DPT ?? [],
+    sky: elements.SKY ?? [],
+    // Both "unlimited" and missing decode to null; keep missing ceilings apart
+    cig: (elements.CIG ?? []).map((value, i) => (isNbmMissing(cigFields[i]) ? undefined : value)),
+    vis: elements.VIS ?? [],
+    // P01 for NBH (1-hour precip), P06 for NBS (6-hour precip), P12 for NBE (12-hour precip)
+    pop: pickNbmElement(elements, ['P01', 'P06', 'P12']),
+    elements,
+    rawRows,
   };
 }
 
+// Bulletin file and issuance interval (hours) for each product
+const NBM_PRODUCTS: Record<NbmProductType, { file: string; cycleHours: number }> = {
+  nbh: { file: 'blend_nbhtx', cycleHours: 1 },
+  nbs: { file: 'blend_nbstx', cycleHours: 1 },
+  nbe: { file: 'blend_nbetx', cycleHours: 6 },
+};
+
+// Latest cycle expected to be published (NBM text lags its cycle by about an hour).
+// cyclesBack steps to earlier cycles when the latest is not available yet.
+export function getNbmCycle(
+  productType: NbmProductType = 'nbh',
+  now: Date = new Date(),
+  cyclesBack: number = 0
+): Date {
+  const { cycleHours } = NBM_PRODUCTS[productType];
+  const cycleMs = cycleHours * 60 * 60 * 1000;
+  const available = now.getTime() - 60 * 60 * 1000;
+  return new Date(Math.floor(available / cycleMs) * cycleMs - cyclesBack * cycleMs);
+}
+
+// Cycles issued before `cycle`, newest first
+export function getPreviousNbmCycles(productType: NbmProductType, cycle: Date, count: number): Date[] {
+  const cycleMs = NBM_PRODUCTS[productType].cycleHours * 60 * 60 * 1000;
+  return Array.from({ length: count }, (_, i) => new Date(cycle.getTime() - (i + 1) * cycleMs));
+}
+
 // Get current NBM bulletin URL
-// productType: 'nbh' for hourly (24h) or 'nbs' for 3-hourly (72h)
-export function getNbmBulletinUrl(productType: NbmProductType = 'nbh'): string {
-  const now = new Date();
-  // NBM is updated hourly, use the previous hour to ensure data is available
-  const hour = (now.getUTCHours() - 1 + 24) % 24;
-  const hourStr = hour.toString().padStart(2, '0');
+// productType: 'nbh' for hourly (24h), 'nbs' for 3-hourly (72h) or 'nbe' for 12-hourly (~8 days)
+export function getNbmBulletinUrl(productType: NbmProductType = 'nbh', cyclesBack: number = 0): string {
+  return getNbmCycleBulletinUrl(productType, getNbmCycle(productType, new Date(), cyclesBack));
+}
+
+// NBM bulletin URL for a specific cycle
+export function getNbmCycleBulletinUrl(productType: NbmProductType, cycle: Date): string {
+  const hourStr = cycle.getUTCHours().toString().padStart(2, '0');
 
   // Format date as YYYYMMDD
-  const year = now.getUTCFullYear();
-  const month = (now.getUTCMonth() + 1).toString().padStart(2, '0');
-  const day = now.getUTCDate().toString().padStart(2, '0');
+  const year = cycle.getUTCFullYear();
+  const month = (cycle.getUTCMonth() + 1).toString().padStart(2, '0');
+  const day = cycle.getUTCDate().toString().padStart(2, '0');
   const dateStr = `${year}${month}${day}`;
 
-  // blend_nbhtx for hourly, blend_nbstx for short-range (3-hourly)
-  const productFile = productType === 'nbh' ? 'blend_nbhtx' : 'blend_nbstx';
-  return `https://nomads.ncep.noaa.gov/pub/data/nccf/com/blend/prod/blend.${dateStr}/${hourStr}/text/${productFile}.t${hourStr}z`;
+  const productFile = NBM_PRODUCTS[productType].file;
+  return `${getUpstreamBaseUrl('nomads')}/pub/data/nccf/com/blend/prod/blend.${dateStr}/${hourStr}/text/${productFile}.t${hourStr}z`;
 }
@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getBucketMinutes,
+  vectorMeanDirection,
+  bucketObservations,
+  decimateObservations,
+  formatBucketSize,
+} from './observation-buckets';
+import { WindDataPoint } from './types';
+
+const BASE = 1700000000 - (1700000000 % 3600); // Top of an hour
+
+function obs(offsetMinutes: number, wspd: number | null, wgst: number | null, wdir: number | null): WindDataPoint {
+  return { time: '00:00', timestamp: BASE + offsetMinutes * 60, wspd, wgst, wdir };
+}
+
+describe('getBucketMinutes', () => {
+  it('returns raw data up to a day', () => {
+    expect(getBucketMinutes(1)).toBe(0);
+    expect(getBucketMinutes(24)).toBe(0);
+  });
+
+  it('widens buckets with the range', () => {
+    expect(getBucketMinutes(72)).toBe(15);
+    expect(getBucketMinutes(168)).toBe(60);
+    expect(getBucketMinutes(720)).toBe(180);
+  });
+});
+
+describe('vectorMeanDirection', () => {
+  it('averages across north without jumping to south', () => {
+    expect(vectorMeanDirection([{ wdir: 350, wspd: 10 }, { wdir: 10, wspd: 10 }])).toBe(360);
+  });
+
+  it('weights directions by speed', () => {
+    const dir = vectorMeanDirection([{ wdir: 270, wspd: 30 }, { wdir: 180, wspd: 10 }])!;
+    expect(dir).toBeGreaterThan(250);
+    expect(dir).toBeLessThan(270);
+  });
+
+  it('ignores calm and missing directions', () => {
+    expect(vectorMeanDirection([{ wdir: 0, wspd: 0 }, { wdir: null, wspd: 5 }, { wdir: 90, wspd: 5 }])).toBe(90);
+    expect(vectorMeanDirection([{ wdir: 0, wspd: 0 }])).toBeNull();
+  });
+
+  it('returns null when directions cancel out', () => {
+    expect(vectorMeanDirection([{ wdir: 90, wspd: 10 }, { wdir: 270, wspd: 10 }])).toBeNull();
+  });
+});
+
+describe('bucketObservations', () => {
+  const label = (start: number) => `L${start - BASE}`;
+
+  it('returns observations untouched without a bucket size', () => {
+    const points = [obs(0, 5, null, 180)];
+    expect(bucketObservations(points, 0, label)).toBe(points);
+  });
+
+  it('aggregates mean wind, max gust, min/max and count per bucket', () => {
+    const points = [
+      obs(0, 8, null, 200),
+      obs(5, 12, 20, 220),
+      obs(10, 10, 18, 210),
+      obs(15, 4, null, 90),
+    ];
+    const buckets = bucketObservations(points, 15, label);
+
+    expect(buckets).toHaveLength(2);
+    expect(buckets[0]).toMatchObject({
+      time: 'L0',
+      timestamp: BASE,
+      wspd: 10,
+      wgst: 20,
+      wspdMin: 8,
+      wspdMax: 12,
+      count: 3,
+    });
+    expect(buckets[0].wdir).toBeCloseTo(211, -1);
+    expect(buckets[1]).toMatchObject({ time: 'L900', wspd: 4, wgst: null, wdir: 90, count: 1 });
+  });
+
+  it('omits empty buckets and keeps buckets in time order', () => {
+    const points = [obs(130, 6, null, 300), obs(0, 5, null, 180)];
+    const buckets = bucketObservations(points, 60, label);
+    expect(buckets.map((b) => b.timestamp)).toEqual([BASE, BASE + 7200]);
+  });
+
+  it('handles buckets with no wind data', () => {
+    const [bucket] = bucketObservations([obs(0, null, null, null)], 60, label);
+    expect(bucket).toMatchObject({ wspd: null, wgst: null, wdir: null, wspdMin: null, wspdMax: null });
+  });
+
+  it('averages temperatures and altimeter and keeps the lowest visibility and ceiling', () => {
+    const points = [
+      { ...obs(0, 8, null, 200), temp: 54, dewpoint: 45, altimeter: 30.12, visibility: 10, ceiling: null },
+      { ...obs(5, 9, null, 210), temp: 55, dewpoint: 44, altimeter: 30.11, visibility: 4, ceiling: 2500 },
+      { ...obs(10, 9, null, 210), temp: null, dewpoint: null, altimeter: null, visibility: 7, ceiling: 3000 },
+    ];
+    const [bucket] = bucketObservations(points, 15, label);
+    expect(bucket).toMatchObject({ temp: 54.5, dewpoint: 44.5, altimeter: 30.12, visibility: 4, ceiling: 2500 });
+    expect(bucket).not.toHaveProperty('pressureTendency');
+  });
+
+  it('leaves station variables off when no observation reported them', () => {
+    const [bucket] = bucketObservations([obs(0, 5, null, 180)], 60, label);
+    expect(bucket).not.toHaveProperty('temp');
+    expect(bucket).not.toHaveProperty('ceiling');
+  });
+});
+
+describe('decimateObservations', () => {
+  it('leaves series within the limit untouched', () => {
+    const points = [obs(0, 5, null, 180), obs(1, 6, null, 180)];
+    expect(decimateObservations(points, 2)).toBe(points);
+  });
+
+  it('keeps the strongest observation of each run and carries gaps over', () => {
+    const points = [
+      obs(0, 5, null, 180),
+      obs(1, 9, 15, 190),
+      obs(2, 12, null, 200),
+      { ...obs(40, 4, null, 180), qc: ['gap' as const] },
+      obs(41, 6, null, 180),
+      obs(42, 5, null, 180),
+    ];
+    const decimated = decimateObservations(points, 2);
+    expect(decimated).toHaveLength(2);
+    expect(decimated[0]).toBe(points[1]);
+    expect(decimated[1]).toMatchObject({ timestamp: points[4].timestamp, qc: ['gap'] });
+  });
+
+  it('prefers observations that passed QC over a stronger flagged one', () => {
+    const points = [
+      obs(0, 8, 14, 180),
+      { ...obs(1, 40, 45, 180), qc: ['spike' as const] },
+      { ...obs(2, 6, null, 180), qc: ['provider' as const] },
+      { ...obs(3, 30, null, 180), qc: ['provider' as const] },
+    ];
+    const decimated = decimateObservations(points, 2);
+    expect(decimated[0]).toBe(points[0]);
+    expect(decimated[1]).toBe(points[3]);
+  });
+});
+
+describe('formatBucketSize', () => {
+  it('formats minutes and hours', () => {
+    expect(formatBucketSize(15)).toBe('15-min');
+    expect(formatBucketSize(60)).toBe('1h');
+    expect(formatBucketSize(180)).toBe('3h');
+  });
+});
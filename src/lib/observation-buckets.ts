@@ -0,0 +1,139 @@
+// Observation downsampling for multi-day ranges
+// Aggregates 5-minute observations into fixed-width buckets so week/month views
+// send a few hundred points to the charts instead of thousands
+
+import { WindDataPoint } from './types';
+import { isSuspect } from './observation-qc';
+
+// Bucket width by requested range; ranges up to a day are returned raw
+export function getBucketMinutes(hours: number): number {
+  if (hours <= 24) return 0;
+  if (hours <= 72) return 15;
+  if (hours <= 168) return 60;
+  return 180;
+}
+
+// Speed-weighted vector mean of wind directions. Calm observations carry no
+// direction; if every observation is calm-weighted the unweighted mean is used.
+export function vectorMeanDirection(
+  samples: { wdir: number | null; wspd: number | null }[]
+): number | null {
+  let u = 0;
+  let v = 0;
+  let uUnit = 0;
+  let vUnit = 0;
+  let count = 0;
+
+  for (const { wdir, wspd } of samples) {
+    if (wdir === null || wspd === 0) continue;
+    const rad = (wdir * Math.PI) / 180;
+    const weight = wspd ?? 0;
+    u += weight * Math.sin(rad);
+    v += weight * Math.cos(rad);
+    uUnit += Math.sin(rad);
+    vUnit += Math.cos(rad);
+    count++;
+  }
+
+  if (count === 0) return null;
+  const [x, y] = u !== 0 || v !== 0 ? [u, v] : [uUnit, vUnit];
+  if (Math.abs(x) < 1e-9 && Math.abs(y) < 1e-9) return null;
+
+  const deg = Math.round((Math.atan2(x, y) * 180) / Math.PI);
+  return deg <= 0 ? deg + 360 : deg;
+}
+
+// Mean (or, for visibility and ceiling, the lowest) value of the station variables
+// present in a bucket; variables no point reported are left off
+function aggregateWeather(points: WindDataPoint[]): Partial<WindDataPoint> {
+  const values = (key: 'temp' | 'dewpoint' | 'altimeter' | 'pressureTendency' | 'visibility' | 'ceiling') =>
+    points.map((p) => p[key]).filter((v): v is number => v !== null && v !== undefined);
+  const mean = (v: number[], scale: number) =>
+    v.length ? Math.round((v.reduce((sum, x) => sum + x, 0) / v.length) * scale) / scale : null;
+  const min = (v: number[]) => (v.length ? Math.min(...v) : null);
+
+  const aggregated: Partial<WindDataPoint> = {};
+  if (points.some((p) => p.temp !== undefined)) aggregated.temp = mean(values('temp'), 10);
+  if (points.some((p) => p.dewpoint !== undefined)) aggregated.dewpoint = mean(values('dewpoint'), 10);
+  if (points.some((p) => p.altimeter !== undefined)) aggregated.altimeter = mean(values('altimeter'), 100);
+  if (points.some((p) => p.pressureTendency !== undefined)) {
+    aggregated.pressureTendency = mean(values('pressureTendency'), 10);
+  }
+  if (points.some((p) => p.visibility !== undefined)) aggregated.visibility = min(values('visibility'));
+  if (points.some((p) => p.ceiling !== undefined)) aggregated.ceiling = min(values('ceiling'));
+  return aggregated;
+}
+
+// Aggregate observations into buckets aligned to the bucket width.
+// Each bucket holds the mean wind, max gust, vector-mean direction and the
+// min/max sustained wind for envelope charts. Empty buckets are omitted.
+export function bucketObservations(
+  observations: WindDataPoint[],
+  bucketMinutes: number,
+  formatLabel: (bucketStart: number) => string
+): WindDataPoint[] {
+  if (bucketMinutes <= 0) return observations;
+  const bucketSeconds = bucketMinutes * 60;
+
+  const buckets = new Map<number, WindDataPoint[]>();
+  for (const obs of observations) {
+    const start = Math.floor(obs.timestamp / bucketSeconds) * bucketSeconds;
+    const bucket = buckets.get(start);
+    if (bucket) {
+      bucket.push(obs);
+    } else {
+      buckets.set(start, [obs]);
+    }
+  }
+
+  return [...buckets.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([start, points]) => {
+      const speeds = points.map((p) => p.wspd).filter((s): s is number => s !== null);
+      const gusts = points.map((p) => p.wgst).filter((g): g is number => g !== null);
+      const meanSpeed = speeds.length
+        ? Math.round((speeds.reduce((sum, s) => sum + s, 0) / speeds.length) * 10) / 10
+        : null;
+
+      return {
+        time: formatLabel(start),
+        timestamp: start,
+        wspd: meanSpeed,
+        wgst: gusts.length ? Math.max(...gusts) : null,
+        wdir: vectorMeanDirection(points),
+        wspdMin: speeds.length ? Math.min(...speeds) : null,
+        wspdMax: speeds.length ? Math.max(...speeds) : null,
+        count: points.length,
+        ...aggregateWeather(points),
+      };
+    });
+}
+
+// Thin dense raw series (1-minute data) to at most maxPoints for charting. Each run of
+// consecutive observations keeps its strongest one (by gust, then wind) so peaks survive,
+// preferring observations that passed QC; a data gap inside a run is carried over to the
+// kept observation.
+export function decimateObservations(observations: WindDataPoint[], maxPoints: number): WindDataPoint[] {
+  if (maxPoints <= 0 || observations.length <= maxPoints) return observations;
+  const runLength = Math.ceil(observations.length / maxPoints);
+  const strength = (o: WindDataPoint) => o.wgst ?? o.wspd ?? -Infinity;
+
+  const decimated: WindDataPoint[] = [];
+  for (let start = 0; start < observations.length; start += runLength) {
+    const run = observations.slice(start, start + runLength);
+    const passed = run.filter((o) => !isSuspect(o));
+    const candidates = passed.length > 0 ? passed : run;
+    const kept = candidates.reduce((best, o) => (strength(o) > strength(best) ? o : best));
+    const hasGap = run.some((o) => o.qc?.includes('gap'));
+    decimated.push(
+      hasGap && !kept.qc?.includes('gap') ? { ...kept, qc: [...(kept.qc ?? []), 'gap'] } : kept
+    );
+  }
+  return decimated;
+}
+
+// Format a bucket width for display: "15-min", "1h", "3h"
+export function formatBucketSize(bucketMinutes: number): string {
+  if (bucketMinutes < 60) return `${bucketMinutes}-min`;
+  return `${bucketMinutes / 60}h`;
+}
@@ -0,0 +1,38 @@
+// Scheduled ingestion into the observation store: pulls recent observations and the
+// latest METARs for the airports in OBSERVATION_INGEST_AIRPORTS (comma-separated)
+
+import { loadObservations, loadMetars } from './data-access';
+import { saveMetars, saveObservations } from './observation-store';
+
+// Window fetched on each run; overlapping runs are de-duplicated by timestamp
+export const INGEST_HOURS = 3;
+
+export interface IngestResult {
+  icao: string;
+  observations: number | null; // New rows stored, null when the fetch failed
+  metars: number;
+}
+
+export function getIngestAirports(): string[] {
+  const configured = process.env.OBSERVATION_INGEST_AIRPORTS ?? '';
+  return [...new Set(configured.split(',').map((s) => s.trim().toUpperCase()).filter(Boolean))];
+}
+
+export async function ingestObservations(
+  icaos: string[],
+  hours: number = INGEST_HOURS
+): Promise<IngestResult[]> {
+  const [seriesList, reports] = await Promise.all([
+    Promise.all(icaos.map((icao) => loadObservations(icao, hours, { forceRefresh: true }))),
+    loadMetars(icaos),
+  ]);
+
+  return icaos.map((icao, i) => {
+    const series = seriesList[i];
+    return {
+      icao,
+      observations: series ? saveObservations(icao, series.observations) : null,
+      metars: saveMetars(reports.filter((r) => r.station === icao)),
+    };
+  });
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { formatQcFlags, isSuspect, qcObservations } from './observation-qc';
+import { WindDataPoint } from './types';
+
+const BASE = 1700000000;
+
+function obs(offsetMinutes: number, wspd: number | null, wgst: number | null, wdir: number | null): WindDataPoint {
+  return { time: '00:00', timestamp: BASE + offsetMinutes * 60, wspd, wgst, wdir };
+}
+
+describe('qcObservations', () => {
+  it('leaves clean observations untouched', () => {
+    const points = [obs(0, 8, null, 200), obs(5, 10, 16, 210), obs(10, 9, null, 220)];
+    const checked = qcObservations(points);
+    checked.forEach((o, i) => expect(o).toBe(points[i]));
+  });
+
+  it('flags spikes above or below both neighbours', () => {
+    const speeds = [8, 30, 9, 10, 22, 24, 6, 23];
+    const checked = qcObservations(speeds.map((wspd, i) => obs(i * 5, wspd, null, 200)));
+    expect(checked.map((o) => o.qc?.includes('spike') ?? false)).toEqual([
+      false, true, false, false, false, false, true, false,
+    ]);
+  });
+
+  it('flags gusts below the sustained wind and duplicated timestamps', () => {
+    const checked = qcObservations([obs(0, 12, 10, 200), obs(5, 8, null, 200), obs(5, 8, null, 200)]);
+    expect(checked[0].qc).toEqual(['gust-below-speed']);
+    expect(checked[1].qc).toBeUndefined();
+    expect(checked[2].qc).toEqual(['duplicate']);
+  });
+
+  it('flags a direction that holds for hours while the speed swings widely', () => {
+    const frozen = Array.from({ length: 37 }, (_, i) => obs(i * 5, 5 + (i % 3) * 7, null, 270));
+    expect(qcObservations(frozen).every((o) => o.qc?.includes('stuck-direction'))).toBe(true);
+
+    const steady = Array.from({ length: 37 }, (_, i) => obs(i * 5, 10 + (i % 2), null, 270));
+    expect(qcObservations(steady).some((o) => o.qc)).toBe(false);
+
+    const brief = frozen.slice(0, 13);
+    expect(qcObservations(brief).some((o) => o.qc)).toBe(false);
+  });
+
+  it('does not flag a steady gusty wind', () => {
+    const gusty = Array.from({ length: 19 }, (_, i) => obs(i * 5, 12 + (i % 3) * 4, 26, 270));
+    expect(qcObservations(gusty).some((o) => o.qc)).toBe(false);
+  });
+
+  it('marks the observation after a long gap without making it suspect', () => {
+    const checked = qcObservations([obs(0, 8, null, 200), obs(45, 9, null, 210)]);
+    expect(checked[1].qc).toEqual(['gap']);
+    expect(isSuspect(checked[1])).toBe(false);
+  });
+
+  it('keeps provider flags', () => {
+    const [checked] = qcObservations([{ ...obs(0, 8, 6, 200), qc: ['provider'] }]);
+    expect(checked.qc).toEqual(['provider', 'gust-below-speed']);
+    expect(isSuspect(checked)).toBe(true);
+  });
+});
+
+describe('formatQcFlags', () => {
+  it('describes each flag', () => {
+    expect(formatQcFlags(['spike', 'gap'])).toBe('Speed spike, After a data gap');
+  });
+});
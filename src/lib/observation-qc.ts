@@ -0,0 +1,99 @@
+// Observation quality control
+// Flags suspect wind observations (spikes, gusts below the sustained wind, a frozen
+// direction vane, duplicated timestamps) and marks long gaps, on top of any flags the
+// provider's own QC attached
+
+import { QcFlag, WindDataPoint } from './types';
+
+export const QC_SPIKE_KT = 15;              // Jump away from both neighbours that counts as a spike
+// A gusty wind can report one 10° direction for an hour or more, so a vane only counts
+// as stuck after holding much longer through a large speed change
+export const QC_STUCK_MINUTES = 180;        // Identical direction for this long...
+export const QC_STUCK_SPEED_RANGE_KT = 12;  // ...while the speed varies this much
+export const QC_STUCK_MIN_SPEED_KT = 3;     // Calm winds are expected to hold a direction
+export const QC_GAP_MINUTES = 30;           // Silence longer than this is a gap
+
+const QC_LABELS: Record<QcFlag, string> = {
+  provider: 'Flagged by provider QC',
+  spike: 'Speed spike',
+  'gust-below-speed': 'Gust below sustained wind',
+  'stuck-direction': 'Direction stuck while speed changes',
+  duplicate: 'Duplicate timestamp',
+  gap: 'After a data gap',
+};
+
+// A gap says nothing about the observation after it; every other flag does
+export function isSuspect(observation: WindDataPoint): boolean {
+  return observation.qc?.some((flag) => flag !== 'gap') ?? false;
+}
+
+export function formatQcFlags(flags: QcFlag[]): string {
+  return flags.map((flag) => QC_LABELS[flag]).join(', ');
+}
+
+// Indices of observations whose wind jumps well away from both neighbours in the same direction
+function findSpikes(observations: WindDataPoint[]): Set<number> {
+  const spikes = new Set<number>();
+  for (let i = 1; i < observations.length - 1; i++) {
+    const [prev, cur, next] = [observations[i - 1].wspd, observations[i].wspd, observations[i + 1].wspd];
+    if (prev === null || cur === null || next === null) continue;
+    const up = cur - prev > QC_SPIKE_KT && cur - next > QC_SPIKE_KT;
+    const down = prev - cur > QC_SPIKE_KT && next - cur > QC_SPIKE_KT;
+    if (up || down) spikes.add(i);
+  }
+  return spikes;
+}
+
+export interface QcOptions {
+  gapMinutes?: number;    // Defaults to QC_GAP_MINUTES
+  stuckMinutes?: number;  // Defaults to QC_STUCK_MINUTES
+}
+
+// Indices inside runs of one unchanged direction lasting stuckMinutes while the
+// (non-calm) speed ranged over at least QC_STUCK_SPEED_RANGE_KT
+function findStuckDirections(observations: WindDataPoint[], stuckMinutes: number): Set<number> {
+  const stuck = new Set<number>();
+  let start = 0;
+  for (let i = 1; i <= observations.length; i++) {
+    const runDir = observations[start].wdir;
+    if (i < observations.length && runDir !== null && observations[i].wdir === runDir) continue;
+
+    const run = observations.slice(start, i);
+    const speeds = run.map((o) => o.wspd).filter((s): s is number => s !== null);
+    const duration = (run[run.length - 1].timestamp - run[0].timestamp) / 60;
+    if (
+      runDir !== null &&
+      duration >= stuckMinutes &&
+      speeds.length > 0 &&
+      Math.min(...speeds) >= QC_STUCK_MIN_SPEED_KT &&
+      Math.max(...speeds) - Math.min(...speeds) >= QC_STUCK_SPEED_RANGE_KT
+    ) {
+      for (let j = start; j < i; j++) stuck.add(j);
+    }
+    start = i;
+  }
+  return stuck;
+}
+
+// Run QC over observations sorted oldest first. Returns the same observations with
+// `qc` set on flagged points (provider flags are kept); unflagged points are unchanged.
+// Sparser sources pass longer gap and stuck-direction thresholds.
+export function qcObservations(
+  observations: WindDataPoint[],
+  { gapMinutes = QC_GAP_MINUTES, stuckMinutes = QC_STUCK_MINUTES }: QcOptions = {}
+): WindDataPoint[] {
+  if (observations.length === 0) return observations;
+  const spikes = findSpikes(observations);
+  const stuck = findStuckDirections(observations, stuckMinutes);
+
+  return observations.map((o, i) => {
+    const flags = new Set<QcFlag>(o.qc ?? []);
+    const prev = i > 0 ? observations[i - 1] : null;
+    if (spikes.has(i)) flags.add('spike');
+    if (o.wgst !== null && o.wspd !== null && o.wgst < o.wspd) flags.add('gust-below-speed');
+    if (stuck.has(i)) flags.add('stuck-direction');
+    if (prev && Math.round(prev.timestamp) === Math.round(o.timestamp)) flags.add('duplicate');
+    if (prev && o.timestamp - prev.timestamp > gapMinutes * 60) flags.add('gap');
+    return flags.size > 0 ? { ...o, qc: [...flags] } : o;
+  });
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { describeStationOffset, rankObservationStations } from './observation-stations';
+
+const airport = { icao: 'KFRG', lat: 40.7288, lon: -73.4134 };
+
+const station = (id: string, lat: number, lon: number, elevation: number | null) => ({
+  id,
+  name: `${id} station`,
+  lat,
+  lon,
+  elevation,
+  network: id.startsWith('K') ? 'ASOS/AWOS' : 'Mesonet',
+});
+
+describe('rankObservationStations', () => {
+  it('puts the airport sensor first, then nearest first within the radius', () => {
+    const ranked = rankObservationStations(
+      [
+        station('FAR', 40.9, -73.4, 120),
+        station('NEAR', 40.74, -73.41, 60),
+        station('KFRG', 40.7288, -73.4134, 80),
+        station('DISTANT', 41.5, -73.4, 300),
+      ],
+      airport
+    );
+
+    expect(ranked.map((s) => s.id)).toEqual(['KFRG', 'NEAR', 'FAR']);
+    expect(ranked[0]).toMatchObject({ onField: true, distance: 0, elevationDiff: 0 });
+    expect(ranked[1]).toMatchObject({ onField: false, elevationDiff: -20, network: 'Mesonet' });
+    expect(ranked[1].distance).toBeCloseTo(0.7, 1);
+  });
+
+  it('prefers the field elevation and leaves the difference unknown without one', () => {
+    const stations = [station('NEAR', 40.74, -73.41, 60)];
+    expect(rankObservationStations(stations, { ...airport, elevation: 82 })[0].elevationDiff).toBe(-22);
+    expect(rankObservationStations(stations, airport)[0].elevationDiff).toBeNull();
+  });
+});
+
+describe('describeStationOffset', () => {
+  it('describes distance and elevation difference', () => {
+    const base = { id: 'NEAR', name: 'Near', network: null, distance: 3.2, onField: false };
+    expect(describeStationOffset({ ...base, elevationDiff: 45 })).toBe('3.2nm away · 45 ft higher');
+    expect(describeStationOffset({ ...base, elevationDiff: -12 })).toBe('3.2nm away · 12 ft lower');
+    expect(describeStationOffset({ ...base, elevationDiff: null })).toBe('3.2nm away');
+  });
+});
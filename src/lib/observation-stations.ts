@@ -0,0 +1,67 @@
+// Observing stations around an airport: the airport's own ASOS/AWOS plus nearby
+// mesonet sensors, ranked for the station picker and the automatic fallback
+
+import distance from '@turf/distance';
+import { point } from '@turf/helpers';
+import { ObservationStationInfo } from './providers/types';
+import { ObservationStation } from './types';
+
+export const OBSERVATION_STATION_RADIUS_NM = 15;
+// Stations tried, nearest first, when the airport has no reporting sensor of its own
+export const AUTO_STATION_CANDIDATES = 4;
+
+const KM_TO_NM = 0.539957;
+const NM_TO_MILES = 1.15078;
+
+// Search radius in statute miles, as station searches expect
+export const OBSERVATION_STATION_RADIUS_MILES = Math.ceil(OBSERVATION_STATION_RADIUS_NM * NM_TO_MILES);
+
+interface AirportLocation {
+  icao: string;
+  lat: number;
+  lon: number;
+  elevation?: number; // Feet MSL, when known
+}
+
+// Stations with distance (nm) and elevation difference from the airport, nearest first.
+// The airport's own station comes first; elevation is measured against the airport's
+// field elevation, or its own station's when the field elevation is unknown.
+export function rankObservationStations(
+  stations: ObservationStationInfo[],
+  airport: AirportLocation
+): ObservationStation[] {
+  const upperIcao = airport.icao.toUpperCase();
+  const origin = point([airport.lon, airport.lat]);
+  const ownStation = stations.find((s) => s.id.toUpperCase() === upperIcao);
+  const referenceElevation = airport.elevation ?? ownStation?.elevation ?? null;
+
+  return stations
+    .map((station) => {
+      const onField = station.id.toUpperCase() === upperIcao;
+      const distanceNm = onField
+        ? 0
+        : distance(origin, point([station.lon, station.lat]), { units: 'kilometers' }) * KM_TO_NM;
+      return {
+        id: station.id,
+        name: station.name,
+        network: station.network,
+        distance: Math.round(distanceNm * 10) / 10,
+        elevationDiff:
+          station.elevation !== null && referenceElevation !== null
+            ? Math.round(station.elevation - referenceElevation)
+            : null,
+        onField,
+      };
+    })
+    .filter((station) => station.distance <= OBSERVATION_STATION_RADIUS_NM)
+    .sort((a, b) => Number(b.onField) - Number(a.onField) || a.distance - b.distance);
+}
+
+// "3.2nm away · 45 ft higher"
+export function describeStationOffset(station: ObservationStation): string {
+  const parts = [`${station.distance}nm away`];
+  if (station.elevationDiff !== null && station.elevationDiff !== 0) {
+    parts.push(`${Math.abs(station.elevationDiff)} ft ${station.elevationDiff > 0 ? 'higher' : 'lower'}`);
+  }
+  return parts.join(' · ');
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  closeObservationStore,
+  isObservationStoreEnabled,
+  mergeObservations,
+  readMetars,
+  readObservations,
+  saveMetars,
+  saveObservations,
+} from './observation-store';
+
+const obs = (timestamp: number, wspd: number) => ({
+  time: new Date(timestamp * 1000).toISOString().substring(11, 16),
+  timestamp,
+  wspd,
+  wgst: null,
+  wdir: 210,
+});
+
+beforeEach(() => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'windplot-store-'));
+  vi.stubEnv('OBSERVATION_STORE_PATH', path.join(dir, 'observations.db'));
+});
+
+afterEach(() => {
+  closeObservationStore();
+  vi.unstubAllEnvs();
+});
+
+describe('observation store', () => {
+  it('is disabled without a configured path', () => {
+    vi.stubEnv('OBSERVATION_STORE_PATH', '');
+    expect(isObservationStoreEnabled()).toBe(false);
+    expect(saveObservations('KFRG', [obs(600, 8)])).toBe(0);
+    expect(readObservations('KFRG', 0)).toEqual([]);
+  });
+
+  it('stores each station timestamp once and reads a window oldest first', () => {
+    expect(saveObservations('kfrg', [obs(900, 9), obs(600, 8)])).toBe(2);
+    expect(saveObservations('KFRG', [obs(900, 12), obs(1200, 10)])).toBe(1);
+    saveObservations('KJFK', [obs(900, 20)]);
+
+    expect(readObservations('KFRG', 700)).toEqual([obs(900, 9), obs(1200, 10)]);
+    expect(readObservations('KFRG', 0).map((o) => o.timestamp)).toEqual([600, 900, 1200]);
+  });
+
+  it('round-trips station variables that were reported', () => {
+    const withWeather = { ...obs(600, 8), temp: 54, dewpoint: 45.1, altimeter: 30.12, pressureTendency: -0.9, ceiling: null };
+    saveObservations('KFRG', [withWeather]);
+    expect(readObservations('KFRG', 0)).toEqual([{ ...obs(600, 8), temp: 54, dewpoint: 45.1, altimeter: 30.12, pressureTendency: -0.9 }]);
+  });
+
+  it('keeps provider QC flags', () => {
+    saveObservations('KFRG', [{ ...obs(600, 8), qc: ['provider'] }, obs(900, 9)]);
+    expect(readObservations('KFRG', 0)).toEqual([{ ...obs(600, 8), qc: ['provider'] }, obs(900, 9)]);
+  });
+
+  it('stores METARs by observation time', () => {
+    const metar = { station: 'KFRG', wdir: 'VRB' as const, wspd: 4, wgst: null, obsTime: 3600, rawOb: 'KFRG 010100Z VRB04KT' };
+    expect(saveMetars([metar, metar, { ...metar, obsTime: undefined }])).toBe(1);
+    expect(readMetars('kfrg', 0)).toEqual([metar]);
+  });
+});
+
+describe('mergeObservations', () => {
+  it('keeps one observation per timestamp, preferring fetched values', () => {
+    expect(mergeObservations([obs(600, 8), obs(900, 9)], [obs(900, 11), obs(1200, 10)])).toEqual([
+      obs(600, 8),
+      obs(900, 11),
+      obs(1200, 10),
+    ]);
+  });
+});
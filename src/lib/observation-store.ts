@@ -0,0 +1,216 @@
+// Local SQLite store of station observations and METARs, so history outlives the
+// provider's rolling window and page loads only fetch what is new upstream.
+// Enabled by setting OBSERVATION_STORE_PATH (e.g. data/observations.db).
+
+import * as fs from 'fs';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import { QcFlag, WindDataPoint } from './types';
+import { MetarReport } from './providers';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS observations (
+    station TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    time TEXT NOT NULL,
+    wspd REAL,
+    wgst REAL,
+    wdir REAL,
+    temp REAL,
+    dewpoint REAL,
+    altimeter REAL,
+    pressure_tendency REAL,
+    visibility REAL,
+    ceiling REAL,
+    qc TEXT,
+    PRIMARY KEY (station, timestamp)
+  );
+  CREATE TABLE IF NOT EXISTS metars (
+    station TEXT NOT NULL,
+    obs_time INTEGER NOT NULL,
+    wdir TEXT,
+    wspd REAL,
+    wgst REAL,
+    raw_ob TEXT,
+    PRIMARY KEY (station, obs_time)
+  );
+`;
+
+// Station variables added after the first release of the schema; older stores get
+// the columns on open
+const WEATHER_COLUMNS = [
+  ['temp', 'temp'],
+  ['dewpoint', 'dewpoint'],
+  ['altimeter', 'altimeter'],
+  ['pressure_tendency', 'pressureTendency'],
+  ['visibility', 'visibility'],
+  ['ceiling', 'ceiling'],
+] as const;
+
+type ObservationRow = Pick<WindDataPoint, 'timestamp' | 'time' | 'wspd' | 'wgst' | 'wdir'> &
+  Record<(typeof WEATHER_COLUMNS)[number][0], number | null> & { qc: string | null };
+
+function migrate(db: Database.Database): void {
+  const columns = new Set(
+    (db.pragma('table_info(observations)') as { name: string }[]).map((c) => c.name)
+  );
+  for (const [column] of WEATHER_COLUMNS) {
+    if (!columns.has(column)) db.exec(`ALTER TABLE observations ADD COLUMN ${column} REAL`);
+  }
+  // Provider QC flags, comma-separated
+  if (!columns.has('qc')) db.exec('ALTER TABLE observations ADD COLUMN qc TEXT');
+}
+
+interface MetarRow {
+  station: string;
+  obs_time: number;
+  wdir: string | null;
+  wspd: number | null;
+  wgst: number | null;
+  raw_ob: string | null;
+}
+
+// Absolute path of the store, or null when the store is disabled
+export function getObservationStorePath(): string | null {
+  const configured = process.env.OBSERVATION_STORE_PATH?.trim();
+  return configured ? path.resolve(process.cwd(), configured) : null;
+}
+
+let store: { path: string; db: Database.Database | null } | null = null;
+
+// Open (and create) the database on first use; null when disabled or unavailable
+function openStore(): Database.Database | null {
+  const storePath = getObservationStorePath();
+  if (!storePath) return null;
+  if (store?.path === storePath) return store.db;
+
+  closeObservationStore();
+  try {
+    fs.mkdirSync(path.dirname(storePath), { recursive: true });
+    const db = new Database(storePath);
+    db.pragma('journal_mode = WAL');
+    db.exec(SCHEMA);
+    migrate(db);
+    store = { path: storePath, db };
+  } catch (error) {
+    // Read-only deployments keep working from upstream alone
+    console.error('Observation store open error:', error);
+    store = { path: storePath, db: null };
+  }
+  return store.db;
+}
+
+export function isObservationStoreEnabled(): boolean {
+  return openStore() !== null;
+}
+
+// Save observations for a station; rows already stored for a timestamp are kept.
+// Returns the number of new rows.
+export function saveObservations(icao: string, observations: WindDataPoint[]): number {
+  const db = openStore();
+  if (!db || observations.length === 0) return 0;
+  const insert = db.prepare(
+    `INSERT OR IGNORE INTO observations
+       (station, timestamp, time, wspd, wgst, wdir, qc, ${WEATHER_COLUMNS.map(([column]) => column).join(', ')})
+     VALUES (?, ?, ?, ?, ?, ?, ?${', ?'.repeat(WEATHER_COLUMNS.length)})`
+  );
+  const station = icao.toUpperCase();
+  const insertAll = db.transaction((rows: WindDataPoint[]) =>
+    rows.reduce(
+      (added, o) =>
+        added +
+        insert.run(
+          station,
+          Math.round(o.timestamp),
+          o.time,
+          o.wspd,
+          o.wgst,
+          o.wdir,
+          o.qc?.length ? o.qc.join(',') : null,
+          ...WEATHER_COLUMNS.map(([, key]) => o[key] ?? null)
+        ).changes,
+      0
+    )
+  );
+  return insertAll(observations);
+}
+
+// Stored observations for a station since a Unix timestamp (seconds), oldest first.
+// Station variables and QC flags are only set where one was stored.
+export function readObservations(icao: string, since: number): WindDataPoint[] {
+  const db = openStore();
+  if (!db) return [];
+  const rows = db
+    .prepare(
+      `SELECT * FROM observations
+       WHERE station = ? AND timestamp >= ? ORDER BY timestamp`
+    )
+    .all(icao.toUpperCase(), since) as ObservationRow[];
+  return rows.map((row) => {
+    const observation: WindDataPoint = {
+      time: row.time,
+      timestamp: row.timestamp,
+      wspd: row.wspd,
+      wgst: row.wgst,
+      wdir: row.wdir,
+    };
+    for (const [column, key] of WEATHER_COLUMNS) {
+      if (row[column] !== null) observation[key] = row[column];
+    }
+    if (row.qc) observation.qc = row.qc.split(',') as QcFlag[];
+    return observation;
+  });
+}
+
+// Save METAR reports; reports without an observation time can't be de-duplicated and are skipped
+export function saveMetars(reports: MetarReport[]): number {
+  const db = openStore();
+  if (!db) return 0;
+  const insert = db.prepare(
+    `INSERT OR IGNORE INTO metars (station, obs_time, wdir, wspd, wgst, raw_ob)
+     VALUES (?, ?, ?, ?, ?, ?)`
+  );
+  const insertAll = db.transaction((rows: MetarReport[]) =>
+    rows.reduce((added, r) => {
+      if (r.obsTime === undefined) return added;
+      const wdir = r.wdir === null ? null : String(r.wdir);
+      return added + insert.run(r.station.toUpperCase(), r.obsTime, wdir, r.wspd, r.wgst, r.rawOb ?? null).changes;
+    }, 0)
+  );
+  return insertAll(reports);
+}
+
+// Stored METARs for a station since a Unix timestamp (seconds), oldest first
+export function readMetars(icao: string, since: number): MetarReport[] {
+  const db = openStore();
+  if (!db) return [];
+  const rows = db
+    .prepare(
+      `SELECT station, obs_time, wdir, wspd, wgst, raw_ob FROM metars
+       WHERE station = ? AND obs_time >= ? ORDER BY obs_time`
+    )
+    .all(icao.toUpperCase(), since) as MetarRow[];
+  return rows.map((row) => ({
+    station: row.station,
+    wdir: row.wdir === null ? null : row.wdir === 'VRB' ? 'VRB' : Number(row.wdir),
+    wspd: row.wspd,
+    wgst: row.wgst,
+    obsTime: row.obs_time,
+    ...(row.raw_ob !== null && { rawOb: row.raw_ob }),
+  }));
+}
+
+// Combine stored and freshly fetched observations, one per timestamp, oldest first.
+// Fetched values win where both have the same timestamp.
+export function mergeObservations(stored: WindDataPoint[], fetched: WindDataPoint[]): WindDataPoint[] {
+  const byTimestamp = new Map<number, WindDataPoint>();
+  for (const o of stored) byTimestamp.set(Math.round(o.timestamp), o);
+  for (const o of fetched) byTimestamp.set(Math.round(o.timestamp), o);
+  return [...byTimestamp.values()].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+// Close the database (tests, or when the configured path changes)
+export function closeObservationStore(): void {
+  store?.db?.close();
+  store = null;
+}
@@ -0,0 +1,107 @@
+// aviationweather.gov data API: METARs and TAFs
+
+import { fetchWithTimeoutAndRetry } from '../http';
+import { getUpstreamBaseUrl } from '../upstream';
+import { MetarReport, WeatherProvider } from './types';
+
+// aviationweather.gov METAR JSON entry (only the fields we use)
+interface AviationWeatherMetar {
+  icaoId?: string;
+  stationId?: string;
+  wdir?: number | string | null;
+  wspd?: number | null;
+  wgst?: number | null;
+  rawOb?: string;
+  obsTime?: number;
+}
+
+function toMetarReport(entry: AviationWeatherMetar): MetarReport | null {
+  const station = (entry.icaoId ?? entry.stationId ?? '').toUpperCase();
+  if (!station) return null;
+  return {
+    station,
+    wdir: typeof entry.wdir === 'number' || entry.wdir === 'VRB' ? entry.wdir : null,
+    wspd: entry.wspd ?? null,
+    wgst: entry.wgst ?? null,
+    rawOb: entry.rawOb,
+    obsTime: entry.obsTime,
+  };
+}
+
+// METAR JSON query; null on any failure
+async function fetchMetars(params: URLSearchParams): Promise<MetarReport[] | null> {
+  const url = `${getUpstreamBaseUrl('aviationweather')}/api/data/metar?${params}`;
+
+  try {
+    const response = await fetchWithTimeoutAndRetry(url, {
+      headers: {
+        'User-Agent': 'WindPlot/1.0',
+      },
+      cache: 'no-store',
+    });
+
+    if (!response.ok) return null;
+
+    const data = await response.json();
+    if (!Array.isArray(data)) return null;
+
+    return (data as AviationWeatherMetar[])
+      .map(toMetarReport)
+      .filter((r): r is MetarReport => r !== null);
+  } catch (error) {
+    console.error('METAR fetch error:', error);
+    return null;
+  }
+}
+
+// The data API serves up to 15 days of METAR history
+const MAX_HISTORY_HOURS = 360;
+
+export const aviationWeatherProvider: WeatherProvider = {
+  id: 'aviationweather',
+  name: 'aviationweather.gov',
+  metar: {
+    async getMetars(icaos) {
+      if (icaos.length === 0) return [];
+      const ids = icaos.map((s) => s.toUpperCase()).join(',');
+      return fetchMetars(new URLSearchParams({ ids, format: 'json' }));
+    },
+
+    async getMetarHistory(icao, hours) {
+      const reports = await fetchMetars(
+        new URLSearchParams({
+          ids: icao.toUpperCase(),
+          format: 'json',
+          hours: String(Math.min(Math.max(1, Math.ceil(hours)), MAX_HISTORY_HOURS)),
+        })
+      );
+      // Newest first upstream
+      return reports?.sort((a, b) => (a.obsTime ?? 0) - (b.obsTime ?? 0)) ?? null;
+    },
+
+    async getTaf(icao) {
+      const upperIcao = icao.toUpperCase();
+      const url = `${getUpstreamBaseUrl('aviationweather')}/api/data/taf?ids=${upperIcao}&format=json`;
+
+      try {
+        const response = await fetchWithTimeoutAndRetry(url, {
+          headers: {
+            'User-Agent': 'WindPlot/1.0',
+          },
+          next: { revalidate: 300 }, // TAFs are issued every 6 hours, amended as needed
+        });
+
+        if (!response.ok) return null;
+
+        const data = await response.json();
+        if (!Array.isArray(data) || data.length === 0) return null;
+
+        const rawTaf: string | undefined = data[0].rawTAF;
+        return rawTaf || null;
+      } catch (error) {
+        console.error('TAF fetch error:', error);
+        return null;
+      }
+    },
+  },
+};
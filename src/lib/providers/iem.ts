@@ -0,0 +1,88 @@
+// Iowa Environmental Mesonet 1-minute ASOS winds, read from a local directory of
+// IEM CSV downloads (IEM_1MIN_DIR) or fetched from IEM or a mirror (IEM_BASE_URL)
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fetchWithTimeoutAndRetry } from '../http';
+import { getUpstreamBaseUrl } from '../upstream';
+import { parseIem1MinCsv, toIemStationId, Iem1MinSeries } from '../iem-1min';
+import { WindDataPoint } from '../types';
+import { ObservationSeries, WeatherProvider } from './types';
+
+// Directory of CSV downloads; files are matched by station ID prefix ("FRG_2026-10.csv")
+function getIem1MinDir(): string | null {
+  const configured = process.env.IEM_1MIN_DIR?.trim();
+  return configured ? path.resolve(process.cwd(), configured) : null;
+}
+
+// Observations in the last `hours`; downloads that end before the window have none,
+// so an old archive is never shown as current
+function lastHours(observations: WindDataPoint[], hours: number): WindDataPoint[] {
+  const end = Date.now() / 1000;
+  return observations.filter((o) => o.timestamp > end - hours * 3600 && o.timestamp <= end);
+}
+
+function readDirectory(dir: string, icao: string): Iem1MinSeries | null {
+  const prefixes = [icao.toUpperCase(), toIemStationId(icao)];
+  const files = fs
+    .readdirSync(dir)
+    .filter((file) => file.toLowerCase().endsWith('.csv'))
+    .filter((file) => prefixes.some((prefix) => file.toUpperCase().startsWith(prefix)));
+  if (files.length === 0) return null;
+
+  // One observation per minute across overlapping files
+  const byTimestamp = new Map<number, WindDataPoint>();
+  let stationName: string | null = null;
+  for (const file of files) {
+    const series = parseIem1MinCsv(fs.readFileSync(path.join(dir, file), 'utf8'), icao);
+    stationName ??= series.stationName;
+    for (const o of series.observations) byTimestamp.set(o.timestamp, o);
+  }
+  return {
+    stationName,
+    observations: [...byTimestamp.values()].sort((a, b) => a.timestamp - b.timestamp),
+  };
+}
+
+async function fetchRemote(icao: string, hours: number): Promise<Iem1MinSeries | null> {
+  const end = new Date();
+  const start = new Date(end.getTime() - hours * 3600 * 1000);
+  const params = new URLSearchParams({
+    station: toIemStationId(icao),
+    sts: start.toISOString().substring(0, 16) + 'Z',
+    ets: end.toISOString().substring(0, 16) + 'Z',
+    tz: 'UTC',
+    sample: '1min',
+    what: 'download',
+    delim: 'comma',
+  });
+  for (const variable of ['sknt', 'drct', 'gust_sknt']) params.append('vars', variable);
+  const url = `${getUpstreamBaseUrl('iem')}/cgi-bin/request/asos1min.py?${params.toString()}`;
+
+  const response = await fetchWithTimeoutAndRetry(url, {
+    headers: { 'User-Agent': 'WindPlot/1.0' },
+    next: { revalidate: 300 },
+  });
+  if (!response.ok) return null;
+  return parseIem1MinCsv(await response.text(), icao);
+}
+
+export const iemProvider: WeatherProvider = {
+  id: 'iem1min',
+  name: 'IEM 1-minute ASOS',
+  observations: {
+    async getObservations(icao, hours): Promise<ObservationSeries | null> {
+      try {
+        const dir = getIem1MinDir();
+        const series = dir ? readDirectory(dir, icao) : await fetchRemote(icao, hours);
+        if (!series) return null;
+        const observations = lastHours(series.observations, hours);
+        if (observations.length === 0) return null;
+        return { stationName: series.stationName, observations };
+      } catch (error) {
+        console.error('IEM 1-minute fetch error:', error);
+        return null;
+      }
+    },
+  },
+};
@@ -0,0 +1,23 @@
+// Weather providers: built-in registrations plus the registry API
+// Additional providers call registerProvider() and are selected with the
+// WEATHER_*_PROVIDER env vars (see .env.example)
+
+import { registerProvider } from './registry';
+import { synopticProvider } from './synoptic';
+import { aviationWeatherProvider } from './aviationweather';
+import { nomadsProvider } from './nomads';
+import { iemProvider } from './iem';
+
+registerProvider(synopticProvider);
+registerProvider(aviationWeatherProvider);
+registerProvider(nomadsProvider);
+registerProvider(iemProvider);
+
+export {
+  registerProvider,
+  unregisterProvider,
+  getRegisteredProviders,
+  getSelectedProviderId,
+  getCapability,
+} from './registry';
+export type * from './types';
@@ -0,0 +1,68 @@
+// NOMADS (NOAA) National Blend of Models text bulletins
+
+import { fetchWithTimeoutAndRetry } from '../http';
+import { getNbmBulletinUrl, getNbmCycleBulletinUrl } from '../nbm-parser';
+import { WeatherProvider } from './types';
+
+const NOMADS_HEADERS = {
+  'User-Agent': 'WindPlot/1.0 (aviation weather visualization)',
+};
+
+export const nomadsProvider: WeatherProvider = {
+  id: 'nomads',
+  name: 'NOAA NOMADS',
+  forecast: {
+    // productType: 'nbh' for hourly (24h), 'nbs' for 3-hourly (72h) or 'nbe' for 12-hourly (~8 days)
+    async getNbmBulletin(productType) {
+      const url = getNbmBulletinUrl(productType);
+
+      try {
+        const response = await fetchWithTimeoutAndRetry(url, {
+          headers: NOMADS_HEADERS,
+          next: { revalidate: 900 }, // Cache for 15 minutes
+        });
+
+        if (!response.ok) {
+          // Try the previous cycle if the latest is not available yet
+          const fallbackUrl = getNbmBulletinUrl(productType, 1);
+
+          const fallbackResponse = await fetchWithTimeoutAndRetry(fallbackUrl, {
+            headers: NOMADS_HEADERS,
+            next: { revalidate: 900 },
+          });
+
+          if (!fallbackResponse.ok) {
+            console.error('NBM bulletin fetch error:', fallbackResponse.status);
+            return null;
+          }
+
+          return await fallbackResponse.text();
+        }
+
+        return await response.text();
+      } catch (error) {
+        console.error('NBM bulletin fetch error:', error);
+        return null;
+      }
+    },
+
+    async getNbmCycleBulletin(productType, cycle) {
+      try {
+        const response = await fetchWithTimeoutAndRetry(getNbmCycleBulletinUrl(productType, cycle), {
+          headers: NOMADS_HEADERS,
+          next: { revalidate: 3600 }, // Past cycles never change
+        });
+
+        if (!response.ok) {
+          console.error('NBM cycle bulletin fetch error:', response.status);
+          return null;
+        }
+
+        return await response.text();
+      } catch (error) {
+        console.error('NBM cycle bulletin fetch error:', error);
+        return null;
+      }
+    },
+  },
+};
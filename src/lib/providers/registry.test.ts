@@ -0,0 +1,60 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  registerProvider,
+  unregisterProvider,
+  getRegisteredProviders,
+  getSelectedProviderId,
+  getCapability,
+} from './index';
+import { WeatherProvider } from './types';
+
+const testProvider: WeatherProvider = {
+  id: 'test-obs',
+  name: 'Test observations',
+  observations: {
+    getObservations: async () => ({ stationName: 'Test', observations: [] }),
+  },
+};
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  unregisterProvider(testProvider.id);
+});
+
+describe('provider registry', () => {
+  it('registers the built-in providers', () => {
+    const ids = getRegisteredProviders().map((p) => p.id);
+    expect(ids).toEqual(expect.arrayContaining(['synoptic', 'aviationweather', 'nomads']));
+  });
+
+  it('selects the default provider for each capability', () => {
+    vi.stubEnv('WEATHER_OBSERVATION_PROVIDER', '');
+    vi.stubEnv('WEATHER_METAR_PROVIDER', '');
+    vi.stubEnv('WEATHER_FORECAST_PROVIDER', '');
+    expect(getSelectedProviderId('observations')).toBe('synoptic');
+    expect(getSelectedProviderId('metar')).toBe('aviationweather');
+    expect(getSelectedProviderId('forecast')).toBe('nomads');
+    expect(getCapability('metar')).not.toBeNull();
+  });
+
+  it('selects a registered provider through env config', () => {
+    registerProvider(testProvider);
+    vi.stubEnv('WEATHER_OBSERVATION_PROVIDER', 'test-obs');
+    expect(getCapability('observations')).toBe(testProvider.observations);
+  });
+
+  it('returns null for unknown providers', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubEnv('WEATHER_FORECAST_PROVIDER', 'nope');
+    expect(getCapability('forecast')).toBeNull();
+    expect(error).toHaveBeenCalled();
+  });
+
+  it('returns null when the provider lacks the capability', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    registerProvider(testProvider);
+    vi.stubEnv('WEATHER_METAR_PROVIDER', 'test-obs');
+    expect(getCapability('metar')).toBeNull();
+  });
+});
@@ -0,0 +1,55 @@
+// Weather provider registry and per-deployment selection
+// Providers register by ID; each capability resolves to the provider named in
+// its env var, falling back to the built-in default
+
+import { WeatherCapability, WeatherProvider } from './types';
+
+// Env var and default provider ID for each capability
+const CAPABILITY_CONFIG: Record<WeatherCapability, { envVar: string; defaultId: string }> = {
+  observations: { envVar: 'WEATHER_OBSERVATION_PROVIDER', defaultId: 'synoptic' },
+  metar: { envVar: 'WEATHER_METAR_PROVIDER', defaultId: 'aviationweather' },
+  forecast: { envVar: 'WEATHER_FORECAST_PROVIDER', defaultId: 'nomads' },
+};
+
+const providers = new Map<string, WeatherProvider>();
+
+// Register a provider, replacing any existing provider with the same ID
+export function registerProvider(provider: WeatherProvider): void {
+  providers.set(provider.id, provider);
+}
+
+export function unregisterProvider(id: string): void {
+  providers.delete(id);
+}
+
+export function getRegisteredProviders(): WeatherProvider[] {
+  return [...providers.values()];
+}
+
+// Provider ID configured for a capability
+export function getSelectedProviderId(capability: WeatherCapability): string {
+  const { envVar, defaultId } = CAPABILITY_CONFIG[capability];
+  return process.env[envVar]?.trim() || defaultId;
+}
+
+// Resolve the configured provider's implementation of a capability
+export function getCapability<K extends WeatherCapability>(
+  capability: K
+): NonNullable<WeatherProvider[K]> | null {
+  const id = getSelectedProviderId(capability);
+  const provider = providers.get(id);
+  if (!provider) {
+    console.error(
+      `Unknown weather provider "${id}" for ${capability} (${CAPABILITY_CONFIG[capability].envVar})`
+    );
+    return null;
+  }
+
+  const implementation = provider[capability];
+  if (!implementation) {
+    console.error(`Weather provider "${id}" does not support ${capability}`);
+    return null;
+  }
+
+  return implementation as NonNullable<WeatherProvider[K]>;
+}
@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { parsePressureTendency } from './synoptic';
+
+describe('parsePressureTendency', () => {
+  it('passes numeric changes through', () => {
+    expect(parsePressureTendency(-1.2)).toBe(-1.2);
+    expect(parsePressureTendency(Number.NaN)).toBeNull();
+  });
+
+  it('decodes the 5appp group, falling for characteristics 5-8', () => {
+    expect(parsePressureTendency('2 012')).toBe(1.2);
+    expect(parsePressureTendency('6 009')).toBe(-0.9);
+    expect(parsePressureTendency('58015')).toBe(-1.5);
+    expect(parsePressureTendency('4 000')).toBe(0);
+  });
+
+  it('returns null for missing or unreadable values', () => {
+    expect(parsePressureTendency(null)).toBeNull();
+    expect(parsePressureTendency(undefined)).toBeNull();
+    expect(parsePressureTendency('9 123')).toBeNull();
+    expect(parsePressureTendency('')).toBeNull();
+  });
+});
@@ -0,0 +1,242 @@
+// Synoptic Data API: 5-minute ASOS/AWOS and mesonet observations, and station search
+
+import { fetchWithTimeoutAndRetry } from '../http';
+import { getUpstreamBaseUrl } from '../upstream';
+import { getFixtureMode } from '../upstream-fixtures';
+import { WindDataPoint } from '../types';
+import { ObservationStationInfo, WeatherProvider } from './types';
+
+// Synoptic API config
+function getSynopticConfig(): { token: string; origin: string } | null {
+  const token = process.env.SYNOPTIC_API_TOKEN;
+  const origin = process.env.SYNOPTIC_ORIGIN;
+
+  // Replayed responses are recorded without credentials
+  if (getFixtureMode() === 'replay') {
+    return { token: token || 'replay', origin: origin || 'http://localhost' };
+  }
+
+  if (!token || !origin) {
+    console.error(
+      'Missing Synoptic env vars: SYNOPTIC_API_TOKEN and SYNOPTIC_ORIGIN are required'
+    );
+    return null;
+  }
+
+  return { token, origin };
+}
+
+// Variables requested from the timeseries API
+const SYNOPTIC_VARS = [
+  'wind_speed',
+  'wind_gust',
+  'wind_direction',
+  'air_temp',
+  'dew_point_temperature',
+  'altimeter',
+  'pressure_tendency',
+  'visibility',
+  'ceiling',
+];
+
+// Each variable arrives as <var>_set_1 (measured) or <var>_set_1d (derived)
+interface SynopticObservations {
+  date_time: string[];
+  [set: string]: (number | string | null)[] | undefined;
+}
+
+// Values of a variable, preferring the measured set over a derived one
+function getSet(obs: SynopticObservations, variable: string): (number | string | null)[] {
+  return obs[`${variable}_set_1`] ?? obs[`${variable}_set_1d`] ?? [];
+}
+
+const toNumber = (value: number | string | null | undefined): number | null =>
+  typeof value === 'number' && Number.isFinite(value) ? value : null;
+
+// 3-hour pressure change in hPa. Synoptic reports either a number or the METAR
+// 5appp group as "a ppp": characteristic a (5-8 = falling) and change in tenths of hPa.
+export function parsePressureTendency(value: number | string | null | undefined): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  const match = value?.trim().match(/^5?([0-8])\s*(\d{3})$/);
+  if (!match) return null;
+  const change = parseInt(match[2], 10) / 10;
+  return parseInt(match[1], 10) >= 5 ? -change : change;
+}
+
+// QC flag IDs per observation of a variable set, null where the value passed
+type SynopticQcFlags = Record<string, (number[] | null)[] | undefined>;
+
+interface SynopticStation {
+  STID: string;
+  NAME: string;
+  OBSERVATIONS: SynopticObservations;
+  QC?: SynopticQcFlags;
+}
+
+// Wind sets whose Synoptic QC flags mark an observation as suspect
+const QC_WIND_SETS = ['wind_speed_set_1', 'wind_gust_set_1', 'wind_direction_set_1'];
+
+// Whether Synoptic's QC flagged any wind value of observation i
+function isProviderFlagged(qc: SynopticQcFlags | undefined, i: number): boolean {
+  return QC_WIND_SETS.some((set) => {
+    const flags = qc?.[set]?.[i];
+    return Array.isArray(flags) && flags.length > 0;
+  });
+}
+
+// Station search (metadata) entry; coordinates and elevation arrive as strings
+interface SynopticStationMetadata {
+  STID: string;
+  NAME: string;
+  LATITUDE: string;
+  LONGITUDE: string;
+  ELEVATION: string | null;
+  MNET_ID: string | null;
+}
+
+interface SynopticMetadataResponse {
+  SUMMARY: { RESPONSE_CODE: number; RESPONSE_MESSAGE: string };
+  STATION?: SynopticStationMetadata[];
+}
+
+// Synoptic network 1 is the NWS/FAA ASOS/AWOS network; everything else is a mesonet
+const ASOS_NETWORK_ID = '1';
+
+// Most stations returned by a station search
+const STATION_SEARCH_LIMIT = 25;
+
+interface SynopticResponse {
+  SUMMARY: { RESPONSE_CODE: number; RESPONSE_MESSAGE: string };
+  STATION?: SynopticStation[];
+}
+
+export const synopticProvider: WeatherProvider = {
+  id: 'synoptic',
+  name: 'Synoptic Data',
+  observations: {
+    async getObservations(icao, hours, { forceRefresh = false } = {}) {
+      const upperIcao = icao.toUpperCase();
+      const minutes = Math.min(Math.max(1, hours), 720) * 60;
+      const synopticConfig = getSynopticConfig();
+      if (!synopticConfig) return null;
+
+      const params = new URLSearchParams({
+        STID: upperIcao,
+        showemptystations: '1',
+        units: 'temp|F,speed|kts,english',
+        recent: String(minutes),
+        vars: SYNOPTIC_VARS.join(','),
+        complete: '1',
+        // Keep flagged values but report Synoptic's QC flags for them
+        qc: 'on',
+        qc_flags: 'on',
+        qc_remove_data: 'off',
+        token: synopticConfig.token,
+        obtimezone: 'local',
+      });
+      const url = `${getUpstreamBaseUrl('synoptic')}/v2/stations/timeseries?${params.toString()}`;
+
+      try {
+        const response = await fetchWithTimeoutAndRetry(url, {
+          headers: {
+            'Origin': synopticConfig.origin,
+            'User-Agent': 'WindPlot/1.0',
+          },
+          // Bypass cache when forceRefresh is true (for manual/auto refresh)
+          ...(forceRefresh
+            ? { cache: 'no-store' as const }
+            : { next: { revalidate: 60, tags: [`wind-${upperIcao}`] } }),
+        });
+
+        if (!response.ok) return null;
+
+        const data: SynopticResponse = await response.json();
+        if (data.SUMMARY?.RESPONSE_CODE !== 1 || !data.STATION?.length) return null;
+
+        const station = data.STATION[0];
+        const obs = station.OBSERVATIONS;
+        if (!obs.date_time?.length) return null;
+
+        const wspd = getSet(obs, 'wind_speed');
+        const wgst = getSet(obs, 'wind_gust');
+        const wdir = getSet(obs, 'wind_direction');
+        const temp = getSet(obs, 'air_temp');
+        const dewpoint = getSet(obs, 'dew_point_temperature');
+        const altimeter = getSet(obs, 'altimeter');
+        const tendency = getSet(obs, 'pressure_tendency');
+        const visibility = getSet(obs, 'visibility');
+        const ceiling = getSet(obs, 'ceiling');
+
+        const observations: WindDataPoint[] = obs.date_time.map((dt, i) => ({
+          time: dt.split('T')[1]?.split(/[-+]/)[0]?.substring(0, 5) || '',
+          timestamp: new Date(dt).getTime() / 1000,
+          wspd: toNumber(wspd[i]),
+          wgst: toNumber(wgst[i]),
+          wdir: toNumber(wdir[i]),
+          temp: toNumber(temp[i]),
+          dewpoint: toNumber(dewpoint[i]),
+          altimeter: toNumber(altimeter[i]),
+          pressureTendency: parsePressureTendency(tendency[i]),
+          visibility: toNumber(visibility[i]),
+          ceiling: toNumber(ceiling[i]),
+          ...(isProviderFlagged(station.QC, i) && { qc: ['provider' as const] }),
+        }));
+
+        return { stationName: station.NAME || null, observations };
+      } catch (error) {
+        console.error('Synoptic fetch error:', error);
+        return null;
+      }
+    },
+
+    async findStations(lat, lon, radiusMiles) {
+      const synopticConfig = getSynopticConfig();
+      if (!synopticConfig) return null;
+
+      const params = new URLSearchParams({
+        radius: `${lat.toFixed(4)},${lon.toFixed(4)},${radiusMiles}`,
+        status: 'active',
+        vars: 'wind_speed',
+        limit: String(STATION_SEARCH_LIMIT),
+        complete: '1',
+        token: synopticConfig.token,
+      });
+      const url = `${getUpstreamBaseUrl('synoptic')}/v2/stations/metadata?${params.toString()}`;
+
+      try {
+        const response = await fetchWithTimeoutAndRetry(url, {
+          headers: {
+            'Origin': synopticConfig.origin,
+            'User-Agent': 'WindPlot/1.0',
+          },
+          // Station lists change rarely
+          next: { revalidate: 24 * 60 * 60 },
+        });
+
+        if (!response.ok) return null;
+
+        const data: SynopticMetadataResponse = await response.json();
+        // Code 2 means no stations matched, which is a valid (empty) answer
+        if (data.SUMMARY?.RESPONSE_CODE === 2) return [];
+        if (data.SUMMARY?.RESPONSE_CODE !== 1) return null;
+
+        return (data.STATION ?? [])
+          .map((station): ObservationStationInfo => {
+            const elevation = parseFloat(station.ELEVATION ?? '');
+            return {
+              id: station.STID,
+              name: station.NAME,
+              lat: parseFloat(station.LATITUDE),
+              lon: parseFloat(station.LONGITUDE),
+              elevation: Number.isFinite(elevation) ? elevation : null,
+              network: station.MNET_ID === ASOS_NETWORK_ID ? 'ASOS/AWOS' : 'Mesonet',
+            };
+          })
+          .filter((station) => Number.isFinite(station.lat) && Number.isFinite(station.lon));
+      } catch (error) {
+        console.error('Synoptic station search error:', error);
+        return null;
+      }
+    },
+  },
+};
@@ -0,0 +1,75 @@
+// Weather provider contracts
+// Each upstream source implements one or more capabilities; the server actions
+// pick a provider per capability and never touch URLs or response shapes directly
+
+import { WindDataPoint } from '../types';
+import { NbmProductType } from '../nbm-parser';
+
+export type WeatherCapability = 'observations' | 'metar' | 'forecast';
+
+export interface FetchOptions {
+  forceRefresh?: boolean; // Bypass upstream caches (manual/auto refresh)
+}
+
+// Station time series for the requested window, oldest first
+export interface ObservationSeries {
+  stationName: string | null;
+  observations: WindDataPoint[];
+}
+
+// Observing station listed by a provider's station search
+export interface ObservationStationInfo {
+  id: string;                // Provider station ID (ICAO for airport sensors)
+  name: string;
+  lat: number;
+  lon: number;
+  elevation: number | null;  // Feet MSL
+  network: string | null;    // e.g. "ASOS/AWOS", "Mesonet"
+}
+
+export interface ObservationCapability {
+  // Station IDs other than airport ICAOs (mesonet sensors) are accepted where
+  // the provider lists them in findStations
+  getObservations(
+    icao: string,
+    hours: number,
+    options?: FetchOptions
+  ): Promise<ObservationSeries | null>;
+  // Active wind-reporting stations within radiusMiles of a point
+  findStations?(lat: number, lon: number, radiusMiles: number): Promise<ObservationStationInfo[] | null>;
+}
+
+// Latest report for a station, normalized across METAR sources.
+// wdir is 'VRB' when the source reports variable wind without a direction.
+export interface MetarReport {
+  station: string;
+  wdir: number | 'VRB' | null;
+  wspd: number | null;
+  wgst: number | null;
+  rawOb?: string;
+  obsTime?: number;
+}
+
+export interface MetarCapability {
+  // Latest report per station, with upper-case station IDs; stations without a report are omitted
+  getMetars(icaos: string[]): Promise<MetarReport[] | null>;
+  // Hourly and special reports for a station over the last `hours`, oldest first
+  getMetarHistory?(icao: string, hours: number): Promise<MetarReport[] | null>;
+  // Raw TAF text for a station
+  getTaf(icao: string): Promise<string | null>;
+}
+
+export interface ForecastCapability {
+  // Raw NBM text bulletin for the latest available cycle
+  getNbmBulletin(productType: NbmProductType): Promise<string | null>;
+  // Raw NBM text bulletin for an earlier cycle (for run-to-run comparison)
+  getNbmCycleBulletin(productType: NbmProductType, cycle: Date): Promise<string | null>;
+}
+
+export interface WeatherProvider {
+  id: string;
+  name: string;
+  observations?: ObservationCapability;
+  metar?: MetarCapability;
+  forecast?: ForecastCapability;
+}
@@ -0,0 +1,72 @@
+// Runway grouping shared by the polar charts: parallel runways are drawn as one line
+// with combined labels
+
+// Runway ends and true heading (a subset of the airport runway record)
+export interface RunwayEnds {
+  trueHdg: number;
+  low: string;   // e.g., "04L"
+  high: string;  // e.g., "22R"
+}
+
+export const RUNWAY_COLORS = ['#ffcc00', '#00ff88', '#ff6b6b', '#a78bfa'];
+
+// Represents a group of parallel runways (or a single runway)
+export interface RunwayGroup {
+  trueHdg: number;
+  highLabel: string; // e.g., "22L/R" or "22"
+  lowLabel: string;  // e.g., "04L/R" or "04"
+  legendLabel: string; // e.g., "04L/R/22L/R" or "04/22"
+}
+
+// Group parallel runways and create combined labels
+export function groupRunways(runways: RunwayEnds[]): RunwayGroup[] {
+  // Group runways by heading (within 1 degree tolerance)
+  const groups: { hdg: number; runways: RunwayEnds[] }[] = [];
+
+  runways.forEach((rw) => {
+    const normalizedHdg = Math.round(rw.trueHdg);
+    const existingGroup = groups.find((g) => Math.abs(g.hdg - normalizedHdg) <= 1);
+    if (existingGroup) {
+      existingGroup.runways.push(rw);
+    } else {
+      groups.push({ hdg: normalizedHdg, runways: [rw] });
+    }
+  });
+
+  // Convert groups to RunwayGroup with combined labels
+  return groups.map((group) => {
+    const rwList = group.runways;
+    // Use the average heading for the group
+    const avgHdg = rwList.reduce((sum, rw) => sum + rw.trueHdg, 0) / rwList.length;
+
+    if (rwList.length === 1) {
+      // Single runway - use original labels
+      const rw = rwList[0];
+      return {
+        trueHdg: avgHdg,
+        highLabel: rw.high,
+        lowLabel: rw.low,
+        legendLabel: `${rw.low}/${rw.high}`,
+      };
+    }
+
+    // Multiple parallel runways - extract numbers and unique suffixes
+    const highNum = rwList[0].high.replace(/[LRC]$/, '');
+    const lowNum = rwList[0].low.replace(/[LRC]$/, '');
+
+    // Get unique suffixes, sorted L/C/R
+    const suffixes = [...new Set(rwList.map((rw) => rw.high.replace(/^\d+/, '')))]
+      .sort((a, b) => {
+        const order: Record<string, number> = { L: 0, C: 1, R: 2 };
+        return (order[a] ?? 3) - (order[b] ?? 3);
+      });
+    const suffixStr = suffixes.join('/');
+
+    return {
+      trueHdg: avgHdg,
+      highLabel: `${highNum}${suffixStr}`,
+      lowLabel: `${lowNum}${suffixStr}`,
+      legendLabel: `${lowNum}/${highNum} ${suffixStr}`,
+    };
+  });
+}
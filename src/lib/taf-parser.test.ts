@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import { parseTaf, tafToHourlySeries, parseWindShearGroup } from './taf-parser';
+
+// Reference time close to the fixture issue times (Feb 5, 2026 18:00 UTC)
+const REFERENCE = new Date(Date.UTC(2026, 1, 5, 18, 0));
+
+const FM_TAF = `TAF KJFK 051730Z 0518/0624 21012KT P6SM SCT050
+  FM052200 24015G25KT P6SM BKN040
+  FM060600 30010KT P6SM SKC`;
+
+const TEMPO_TAF = `TAF KFRG 051720Z 0518/0618 22010KT P6SM BKN050
+  TEMPO 0520/0524 25020G35KT 3SM -SHRA BKN025
+  PROB30 0602/0606 2SM TSRA BKN015CB
+  PROB40 TEMPO 0608/0612 27015G30KT`;
+
+const BECMG_TAF = `TAF KTEB 051730Z 0518/0618 18008KT P6SM FEW250
+  BECMG 0521/0523 27015G22KT`;
+
+const WS_TAF = `TAF AMD KEWR 051745Z 0518/0624 19010KT P6SM BKN030 WS020/24045KT
+  FM060000 VRB03KT 1 1/2SM BR OVC008`;
+
+describe('parseTaf', () => {
+  describe('header', () => {
+    it('returns null for empty input', () => {
+      expect(parseTaf('', REFERENCE)).toBeNull();
+    });
+
+    it('returns null without a validity group', () => {
+      expect(parseTaf('TAF KJFK 051730Z 21012KT', REFERENCE)).toBeNull();
+    });
+
+    it('parses station, issue time and validity', () => {
+      const taf = parseTaf(FM_TAF, REFERENCE)!;
+      expect(taf.station).toBe('KJFK');
+      expect(taf.issueTime!.toISOString()).toBe('2026-02-05T17:30:00.000Z');
+      expect(taf.validFrom.toISOString()).toBe('2026-02-05T18:00:00.000Z');
+      expect(taf.validTo.toISOString()).toBe('2026-02-07T00:00:00.000Z');
+    });
+
+    it('flags amended TAFs', () => {
+      expect(parseTaf(WS_TAF, REFERENCE)!.amended).toBe(true);
+      expect(parseTaf(FM_TAF, REFERENCE)!.amended).toBe(false);
+    });
+
+    it('resolves validity across a month boundary', () => {
+      const taf = parseTaf('TAF KJFK 312330Z 0100/0206 21012KT P6SM SKC', new Date(Date.UTC(2026, 0, 31, 23, 0)))!;
+      expect(taf.validFrom.toISOString()).toBe('2026-02-01T00:00:00.000Z');
+      expect(taf.validTo.toISOString()).toBe('2026-02-02T06:00:00.000Z');
+    });
+  });
+
+  describe('change groups', () => {
+    it('splits FM groups and chains their end times', () => {
+      const taf = parseTaf(FM_TAF, REFERENCE)!;
+      expect(taf.periods.map((p) => p.type)).toEqual(['BASE', 'FM', 'FM']);
+      expect(taf.periods[0].end.toISOString()).toBe('2026-02-05T22:00:00.000Z');
+      expect(taf.periods[1].start.toISOString()).toBe('2026-02-05T22:00:00.000Z');
+      expect(taf.periods[1].end.toISOString()).toBe('2026-02-06T06:00:00.000Z');
+      expect(taf.periods[2].end.toISOString()).toBe('2026-02-07T00:00:00.000Z');
+    });
+
+    it('parses wind, visibility and clouds per group', () => {
+      const fm = parseTaf(FM_TAF, REFERENCE)!.periods[1];
+      expect(fm.wind).toMatchObject({ direction: 240, speed: 15, gust: 25 });
+      expect(fm.visibility).toMatchObject({ miles: 6, greaterThan: true });
+      expect(fm.clouds).toEqual([{ cover: 'BKN', baseFeet: 4000, type: null }]);
+    });
+
+    it('parses TEMPO groups with their window', () => {
+      const tempo = parseTaf(TEMPO_TAF, REFERENCE)!.periods[1];
+      expect(tempo.type).toBe('TEMPO');
+      expect(tempo.start.toISOString()).toBe('2026-02-05T20:00:00.000Z');
+      expect(tempo.end.toISOString()).toBe('2026-02-06T00:00:00.000Z');
+      expect(tempo.wind).toMatchObject({ direction: 250, speed: 20, gust: 35 });
+      expect(tempo.weather.map((w) => w.raw)).toEqual(['-SHRA']);
+    });
+
+    it('parses PROB30 and PROB40 TEMPO groups', () => {
+      const periods = parseTaf(TEMPO_TAF, REFERENCE)!.periods;
+      expect(periods[2]).toMatchObject({ type: 'PROB', probability: 30 });
+      expect(periods[2].clouds[0].type).toBe('CB');
+      expect(periods[3]).toMatchObject({ type: 'PROB', probability: 40 });
+      expect(periods[3].wind).toMatchObject({ speed: 15, gust: 30 });
+    });
+
+    it('parses BECMG groups', () => {
+      const becmg = parseTaf(BECMG_TAF, REFERENCE)!.periods[1];
+      expect(becmg.type).toBe('BECMG');
+      expect(becmg.end.toISOString()).toBe('2026-02-05T23:00:00.000Z');
+    });
+
+    it('parses wind shear and split visibility', () => {
+      const periods = parseTaf(WS_TAF, REFERENCE)!.periods;
+      expect(periods[0].windShear).toEqual({ heightFeet: 2000, direction: 240, speed: 45 });
+      expect(periods[1].visibility!.miles).toBe(1.5);
+      expect(periods[1].wind!.variable).toBe(true);
+    });
+  });
+});
+
+describe('tafToHourlySeries', () => {
+  it('covers every hour of the validity period', () => {
+    const series = tafToHourlySeries(parseTaf(FM_TAF, REFERENCE)!);
+    expect(series).toHaveLength(30);
+    expect(series[1].timestamp - series[0].timestamp).toBe(3600);
+  });
+
+  it('uses FM groups for prevailing wind', () => {
+    const series = tafToHourlySeries(parseTaf(FM_TAF, REFERENCE)!);
+    expect(series[0]).toMatchObject({ wdir: 210, wspd: 12, wgst: null });
+    // 22Z is the 5th hour
+    expect(series[4]).toMatchObject({ wdir: 240, wspd: 15, wgst: 25 });
+    expect(series[12]).toMatchObject({ wdir: 300, wspd: 10 });
+  });
+
+  it('reports TEMPO wind as conditional without changing prevailing wind', () => {
+    const series = tafToHourlySeries(parseTaf(TEMPO_TAF, REFERENCE)!);
+    expect(series[1].conditional).toBeNull();
+    expect(series[2]).toMatchObject({ wdir: 220, wspd: 10 });
+    expect(series[2].conditional).toEqual({
+      type: 'TEMPO',
+      probability: null,
+      wdir: 250,
+      wspd: 20,
+      wgst: 35,
+    });
+    expect(series[6].conditional).toBeNull();
+  });
+
+  it('reports PROB wind as conditional with its probability', () => {
+    const series = tafToHourlySeries(parseTaf(TEMPO_TAF, REFERENCE)!);
+    // 08Z on the 6th is 14 hours in
+    expect(series[14].conditional).toMatchObject({ type: 'PROB', probability: 40, wgst: 30 });
+  });
+
+  it('applies BECMG wind after its window and marks the window conditional', () => {
+    const series = tafToHourlySeries(parseTaf(BECMG_TAF, REFERENCE)!);
+    expect(series[3]).toMatchObject({ wdir: 180, wspd: 8 });
+    expect(series[3].conditional).toMatchObject({ type: 'BECMG', wspd: 15 });
+    expect(series[5]).toMatchObject({ wdir: 270, wspd: 15, wgst: 22 });
+    expect(series[5].conditional).toBeNull();
+  });
+
+  it('carries wind shear and VRB wind', () => {
+    const series = tafToHourlySeries(parseTaf(WS_TAF, REFERENCE)!);
+    expect(series[0].windShear).toEqual({ heightFeet: 2000, direction: 240, speed: 45 });
+    expect(series[6]).toMatchObject({ wdir: null, wspd: 3 });
+    expect(series[6].windShear).toBeNull();
+  });
+});
+
+describe('parseWindShearGroup', () => {
+  it('rejects non wind shear groups', () => {
+    expect(parseWindShearGroup('WSCONDS')).toBeNull();
+  });
+});
@@ -0,0 +1,381 @@
+// TAF Parser
+// Decodes raw Terminal Aerodrome Forecasts into change periods (FM, BECMG, TEMPO, PROB30/40)
+// and expands them into an hourly wind series for the forecast view
+
+import {
+  MetarWind,
+  MetarVisibility,
+  MetarWeather,
+  MetarCloudLayer,
+  parseWindGroup,
+  parseVisibilityGroup,
+  parseWeatherGroup,
+  parseCloudGroup,
+} from './metar-parser';
+
+export type TafChangeType = 'BASE' | 'FM' | 'BECMG' | 'TEMPO' | 'PROB';
+
+export interface TafWindShear {
+  heightFeet: number;           // AGL
+  direction: number;            // Degrees true
+  speed: number;                // Knots
+}
+
+export interface TafPeriod {
+  type: TafChangeType;
+  probability: number | null;   // 30 or 40 for PROB groups
+  start: Date;
+  end: Date;
+  wind: MetarWind | null;
+  visibility: MetarVisibility | null;
+  weather: MetarWeather[];
+  clouds: MetarCloudLayer[];
+  skyClear: boolean;
+  windShear: TafWindShear | null;
+  raw: string;
+}
+
+export interface DecodedTaf {
+  station: string;
+  issueTime: Date | null;
+  validFrom: Date;
+  validTo: Date;
+  amended: boolean;
+  corrected: boolean;
+  periods: TafPeriod[];
+  raw: string;
+}
+
+// Conditional (TEMPO/PROB/BECMG-in-progress) wind for a forecast hour
+export interface TafConditionalWind {
+  type: 'TEMPO' | 'PROB' | 'BECMG';
+  probability: number | null;
+  wdir: number | null;
+  wspd: number | null;
+  wgst: number | null;
+}
+
+// One hour of the expanded TAF
+export interface TafHourlyPoint {
+  timestamp: number;            // Unix timestamp in seconds (top of the hour)
+  wdir: number | null;          // Prevailing wind direction (null when VRB)
+  wspd: number | null;          // Prevailing wind speed in knots
+  wgst: number | null;          // Prevailing gust in knots
+  conditional: TafConditionalWind | null;
+  windShear: TafWindShear | null;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Resolve a TAF day/hour/minute to a UTC date close to the reference time
+// TAFs only carry the day of month, so pick the nearest month that contains that day
+function resolveTafTime(day: number, hour: number, minute: number, reference: Date): Date {
+  const candidates: Date[] = [];
+  for (const monthOffset of [-1, 0, 1]) {
+    const year = reference.getUTCFullYear();
+    const month = reference.getUTCMonth() + monthOffset;
+    // Hour 24 is valid in TAFs and means midnight at the end of the day
+    const date = new Date(Date.UTC(year, month, day, hour, minute));
+    // Skip invalid days (e.g. Feb 30 rolls into March)
+    if (date.getUTCDate() !== day && !(hour === 24 && date.getUTCHours() === 0)) continue;
+    candidates.push(date);
+  }
+  if (candidates.length === 0) {
+    return new Date(Date.UTC(reference.getUTCFullYear(), reference.getUTCMonth(), day, hour, minute));
+  }
+  return candidates.reduce((best, curr) =>
+    Math.abs(curr.getTime() - reference.getTime()) < Math.abs(best.getTime() - reference.getTime())
+      ? curr
+      : best
+  );
+}
+
+// Parse a "ddhh/ddhh" validity group
+function parseValidityGroup(token: string, reference: Date): { start: Date; end: Date } | null {
+  const match = token.match(/^(\d{2})(\d{2})\/(\d{2})(\d{2})$/);
+  if (!match) return null;
+  const start = resolveTafTime(parseInt(match[1], 10), parseInt(match[2], 10), 0, reference);
+  let end = resolveTafTime(parseInt(match[3], 10), parseInt(match[4], 10), 0, reference);
+  // Periods never run backwards; an earlier end means the month rolled over
+  if (end.getTime() <= start.getTime()) {
+    end = resolveTafTime(parseInt(match[3], 10), parseInt(match[4], 10), 0, new Date(start.getTime() + 15 * 24 * HOUR_MS));
+  }
+  return { start, end };
+}
+
+// Parse a wind shear group: "WS020/24045KT"
+export function parseWindShearGroup(token: string): TafWindShear | null {
+  const match = token.match(/^WS(\d{3})\/(\d{3})(\d{2,3})KT$/);
+  if (!match) return null;
+  return {
+    heightFeet: parseInt(match[1], 10) * 100,
+    direction: parseInt(match[2], 10),
+    speed: parseInt(match[3], 10),
+  };
+}
+
+// Apply forecast element tokens (wind, visibility, weather, clouds, wind shear) to a period
+function applyElements(period: TafPeriod, tokens: string[]): void {
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (!period.wind) {
+      const wind = parseWindGroup(token);
+      if (wind) {
+        period.wind = wind;
+        continue;
+      }
+    }
+
+    const windShear = parseWindShearGroup(token);
+    if (windShear) {
+      period.windShear = windShear;
+      continue;
+    }
+
+    if (token === 'CAVOK') {
+      period.visibility = { miles: 6, lessThan: false, greaterThan: true };
+      period.skyClear = true;
+      continue;
+    }
+
+    if (!period.visibility) {
+      if (/^\d$/.test(token) && /^\d\/\d{1,2}SM$/.test(tokens[i + 1] ?? '')) {
+        period.visibility = parseVisibilityGroup(tokens[i + 1], token);
+        i++;
+        continue;
+      }
+      const visibility = parseVisibilityGroup(token);
+      if (visibility) {
+        period.visibility = visibility;
+        continue;
+      }
+    }
+
+    if (token === 'SKC' || token === 'CLR' || token === 'NSC') {
+      period.skyClear = true;
+      continue;
+    }
+
+    const cloud = parseCloudGroup(token);
+    if (cloud) {
+      period.clouds.push(cloud);
+      continue;
+    }
+
+    const weather = parseWeatherGroup(token);
+    if (weather) {
+      period.weather.push(weather);
+    }
+    // NSW, QNH groups and anything unrecognized are ignored
+  }
+}
+
+function createPeriod(
+  type: TafChangeType,
+  start: Date,
+  end: Date,
+  probability: number | null,
+  raw: string
+): TafPeriod {
+  return {
+    type,
+    probability,
+    start,
+    end,
+    wind: null,
+    visibility: null,
+    weather: [],
+    clouds: [],
+    skyClear: false,
+    windShear: null,
+    raw,
+  };
+}
+
+// Decode a raw TAF
+// referenceTime is used to resolve day-of-month groups to full dates (defaults to now)
+export function parseTaf(rawTaf: string, referenceTime: Date = new Date()): DecodedTaf | null {
+  const text = rawTaf.trim().replace(/=$/, '');
+  // Remarks are free text and never carry forecast elements
+  const body = text.split(/\sRMK\s/)[0];
+  const tokens = body.split(/\s+/).filter(Boolean);
+  let i = 0;
+
+  if (tokens[i] === 'TAF') i++;
+
+  let amended = false;
+  let corrected = false;
+  while (tokens[i] === 'AMD' || tokens[i] === 'COR') {
+    if (tokens[i] === 'AMD') amended = true;
+    if (tokens[i] === 'COR') corrected = true;
+    i++;
+  }
+
+  const station = tokens[i];
+  if (!station || !/^[A-Z][A-Z0-9]{3}$/.test(station)) return null;
+  i++;
+
+  let issueTime: Date | null = null;
+  const issueMatch = tokens[i]?.match(/^(\d{2})(\d{2})(\d{2})Z$/);
+  if (issueMatch) {
+    issueTime = resolveTafTime(
+      parseInt(issueMatch[1], 10),
+      parseInt(issueMatch[2], 10),
+      parseInt(issueMatch[3], 10),
+      referenceTime
+    );
+    i++;
+  }
+
+  const validity = parseValidityGroup(tokens[i] ?? '', issueTime ?? referenceTime);
+  if (!validity) return null;
+  i++;
+
+  const periodReference = issueTime ?? referenceTime;
+
+  // Split remaining tokens into change groups
+  const periods: TafPeriod[] = [];
+  let current = createPeriod('BASE', validity.start, validity.end, null, '');
+  let currentTokens: string[] = [];
+
+  const flush = () => {
+    current.raw = currentTokens.join(' ');
+    applyElements(current, currentTokens);
+    periods.push(current);
+  };
+
+  while (i < tokens.length) {
+    const token = tokens[i];
+
+    const fmMatch = token.match(/^FM(\d{2})(\d{2})(\d{2})$/);
+    if (fmMatch) {
+      flush();
+      const start = resolveTafTime(
+        parseInt(fmMatch[1], 10),
+        parseInt(fmMatch[2], 10),
+        parseInt(fmMatch[3], 10),
+        periodReference
+      );
+      current = createPeriod('FM', start, validity.end, null, '');
+      currentTokens = [token];
+      i++;
+      continue;
+    }
+
+    const probMatch = token.match(/^PROB(\d{2})$/);
+    if (token === 'TEMPO' || token === 'BECMG' || probMatch) {
+      flush();
+      let type: TafChangeType = token === 'BECMG' ? 'BECMG' : token === 'TEMPO' ? 'TEMPO' : 'PROB';
+      const probability = probMatch ? parseInt(probMatch[1], 10) : null;
+      const groupTokens = [token];
+      i++;
+      // "PROB30 TEMPO" is a probabilistic temporary group; keep it as PROB
+      if (probMatch && tokens[i] === 'TEMPO') {
+        groupTokens.push(tokens[i]);
+        type = 'PROB';
+        i++;
+      }
+      const window = parseValidityGroup(tokens[i] ?? '', periodReference);
+      if (window) {
+        groupTokens.push(tokens[i]);
+        i++;
+      }
+      current = createPeriod(
+        type,
+        window?.start ?? validity.start,
+        window?.end ?? validity.end,
+        probability,
+        ''
+      );
+      currentTokens = groupTokens;
+      continue;
+    }
+
+    currentTokens.push(token);
+    i++;
+  }
+  flush();
+
+  // FM groups run until the next FM group (or the end of the TAF)
+  const prevailing = periods.filter((p) => p.type === 'BASE' || p.type === 'FM');
+  for (let p = 0; p < prevailing.length - 1; p++) {
+    prevailing[p].end = prevailing[p + 1].start;
+  }
+
+  return {
+    station,
+    issueTime,
+    validFrom: validity.start,
+    validTo: validity.end,
+    amended,
+    corrected,
+    periods,
+    raw: text,
+  };
+}
+
+function windFields(wind: MetarWind | null): { wdir: number | null; wspd: number | null; wgst: number | null } {
+  return {
+    wdir: wind?.direction ?? null,
+    wspd: wind?.speed ?? null,
+    wgst: wind?.gust ?? null,
+  };
+}
+
+// Expand a decoded TAF into an hourly wind series covering its validity period
+// Prevailing wind comes from BASE/FM groups and completed BECMG groups; TEMPO, PROB and
+// in-progress BECMG groups are reported as conditional wind for the hours they cover
+export function tafToHourlySeries(taf: DecodedTaf): TafHourlyPoint[] {
+  const points: TafHourlyPoint[] = [];
+  const startMs = Math.floor(taf.validFrom.getTime() / HOUR_MS) * HOUR_MS;
+
+  for (let t = startMs; t < taf.validTo.getTime(); t += HOUR_MS) {
+    // Prevailing: latest BASE/FM group that has started
+    let prevailing: TafPeriod | null = null;
+    for (const period of taf.periods) {
+      if ((period.type === 'BASE' || period.type === 'FM') && period.start.getTime() <= t) {
+        prevailing = period;
+      }
+    }
+    let wind = prevailing?.wind ?? null;
+    let windShear = prevailing?.windShear ?? null;
+
+    // Completed BECMG groups replace the elements they specify
+    for (const period of taf.periods) {
+      if (period.type !== 'BECMG') continue;
+      if (prevailing && period.start.getTime() < prevailing.start.getTime()) continue;
+      if (period.end.getTime() <= t) {
+        if (period.wind) wind = period.wind;
+        if (period.windShear) windShear = period.windShear;
+      }
+    }
+
+    // Conditional groups covering this hour; keep the one with the strongest gust/wind
+    let conditional: TafConditionalWind | null = null;
+    for (const period of taf.periods) {
+      if (period.type !== 'TEMPO' && period.type !== 'PROB' && period.type !== 'BECMG') continue;
+      if (t < period.start.getTime() || t >= period.end.getTime()) continue;
+      if (period.windShear && !windShear) windShear = period.windShear;
+      if (!period.wind) continue;
+      const candidate: TafConditionalWind = {
+        type: period.type,
+        probability: period.probability,
+        ...windFields(period.wind),
+      };
+      const strength = (c: TafConditionalWind) => Math.max(c.wgst ?? 0, c.wspd ?? 0);
+      if (!conditional || strength(candidate) > strength(conditional)) {
+        conditional = candidate;
+      }
+    }
+
+    points.push({
+      timestamp: Math.floor(t / 1000),
+      ...windFields(wind),
+      conditional,
+      windShear,
+    });
+  }
+
+  return points;
+}
@@ -1,3 +1,6 @@
+import { FlightCategory } from './flight-category';
+import { TafConditionalWind, TafWindShear } from './taf-parser';
+
 export interface MetarObservation {
   icaoId: string;
   reportTime: string;
@@ -16,15 +19,51 @@ export interface MetarObservation {
 export interface WindDataPoint {
   time: string;
   timestamp: number;
-  wspd: number | null;
-  wgst: number | null;
-  wdir: number | null;
+  wspd: number | null;    // Mean wind for aggregated buckets
+  wgst: number | null;    // Max gust for aggregated buckets
+  wdir: number | null;    // Vector-mean direction for aggregated buckets
+  wspdMin?: number | null; // Aggregated buckets only: lowest sustained wind
+  wspdMax?: number | null; // Aggregated buckets only: highest sustained wind
+  count?: number;         // Aggregated buckets only: observations in the bucket
+  // Other station variables (means, or lowest visibility/ceiling, for aggregated buckets)
+  temp?: number | null;             // °F
+  dewpoint?: number | null;         // °F
+  altimeter?: number | null;        // inHg
+  pressureTendency?: number | null; // 3-hour pressure change, hPa
+  visibility?: number | null;       // Statute miles
+  ceiling?: number | null;          // Feet AGL, null when none reported
+  qc?: QcFlag[];                    // Quality-control flags, unset when the observation passed
+}
+
+// Why an observation was flagged by quality control (see observation-qc.ts)
+export type QcFlag = 'provider' | 'spike' | 'gust-below-speed' | 'stuck-direction' | 'duplicate' | 'gap';
+
+// Variable wind direction: VRB (no prevailing direction) and/or a dddVddd sector
+export interface WindVariability {
+  vrb: boolean;
+  from: number | null;   // Sector start, clockwise, degrees
+  to: number | null;     // Sector end, degrees
 }
 
 export interface WindData {
   icao: string;
   name: string;
   observations: WindDataPoint[];
+  bucketMinutes?: number;                    // Set when observations are aggregated buckets
+  latestObservation?: WindDataPoint | null;  // Latest raw observation when aggregated
+  recentObservations?: WindDataPoint[];      // Raw observations of the longest averaging window when aggregated
+  station?: ObservationStation;              // Set when observations come from another station
+  source?: 'metar';                          // Set when observations fall back to METAR history
+}
+
+// Observing station near an airport, for the station picker and disclosure
+export interface ObservationStation {
+  id: string;
+  name: string;
+  network: string | null;        // e.g. "ASOS/AWOS", "Mesonet"
+  distance: number;              // Nautical miles from the airport
+  elevationDiff: number | null;  // Station minus airport elevation, feet
+  onField: boolean;              // The airport's own sensor
 }
 
 // NBM Forecast data point (hourly forecast)
@@ -37,6 +76,10 @@ export interface ForecastDataPoint {
   temp?: number | null;   // Temperature in Fahrenheit
   sky?: number | null;    // Sky cover percentage
   pop?: number | null;    // Probability of precipitation
+  dpt?: number | null;    // Dew point in Fahrenheit
+  cig?: number | null;    // Ceiling in feet (null = no ceiling; unset when missing)
+  vis?: number | null;    // Visibility in statute miles
+  flightCategory?: FlightCategory | null; // From ceiling and visibility, when the product has both (null = unknown)
 }
 
 // NBM Forecast data container
@@ -46,4 +89,42 @@ export interface ForecastData {
   forecasts: ForecastDataPoint[];
   generatedAt?: number;   // When the forecast was generated (Unix timestamp)
   validUntil?: number;    // Forecast valid until (Unix timestamp)
+  timezone?: string;      // Airport IANA time zone, for labelling times on the client
+  forecastStation?: ForecastStation; // Set when the forecast comes from a nearby station
+}
+
+// Nearby NBM station standing in for an airport that has no guidance of its own
+export interface ForecastStation {
+  icao: string;
+  name: string;
+  distance: number;       // Nautical miles from the requested airport
+}
+
+// Wind from an earlier NBM run at one forecast hour
+export interface ForecastRunPoint {
+  timestamp: number;      // Unix timestamp in seconds
+  wspd: number | null;
+  wgst: number | null;
+}
+
+// Earlier NBM run, for run-to-run comparison
+export interface ForecastRun {
+  generatedAt: number;    // Cycle time (Unix timestamp)
+  forecasts: ForecastRunPoint[];
+}
+
+// TAF hourly forecast point (prevailing wind plus any TEMPO/PROB/BECMG conditional wind)
+export interface TafForecastPoint extends ForecastDataPoint {
+  conditional: TafConditionalWind | null;
+  windShear: TafWindShear | null;
+}
+
+// TAF data container
+export interface TafData {
+  icao: string;
+  rawTaf: string;
+  issueTime: number | null;  // Unix timestamp in seconds
+  validFrom: number;         // Unix timestamp in seconds
+  validTo: number;           // Unix timestamp in seconds
+  forecasts: TafForecastPoint[];
 }
@@ -0,0 +1,63 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { sanitizeUrl, getFixturePath, recordResponse, replayResponse } from './upstream-fixtures';
+import { getUpstreamBaseUrl } from './upstream';
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('sanitizeUrl', () => {
+  it('drops tokens and sorts query parameters', () => {
+    expect(sanitizeUrl('https://api.example.com/v2/x?token=secret&b=2&a=1')).toBe(
+      'https://api.example.com/v2/x?a=1&b=2'
+    );
+  });
+
+  it('maps equivalent requests to the same fixture', () => {
+    expect(getFixturePath('https://h.test/p?b=2&a=1&token=x')).toBe(
+      getFixturePath('https://h.test/p?a=1&b=2')
+    );
+    expect(getFixturePath('https://h.test/p?a=1')).not.toBe(getFixturePath('https://h.test/p?a=2'));
+  });
+});
+
+describe('record and replay', () => {
+  it('replays a recorded response from disk', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'windplot-fixtures-'));
+    vi.stubEnv('WEATHER_FIXTURES_DIR', dir);
+    const url = 'https://aviationweather.gov/api/data/metar?ids=KFRG&format=json';
+
+    const live = new Response('[{"icaoId":"KFRG"}]', {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+    const returned = await recordResponse(url, live);
+    expect(await returned.json()).toEqual([{ icaoId: 'KFRG' }]);
+
+    const replayed = replayResponse(url);
+    expect(replayed.status).toBe(200);
+    expect(replayed.headers.get('content-type')).toBe('application/json');
+    expect(await replayed.json()).toEqual([{ icaoId: 'KFRG' }]);
+
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('returns a 404 for requests that were never recorded', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubEnv('WEATHER_FIXTURES_DIR', path.join(os.tmpdir(), 'windplot-missing-fixtures'));
+    expect(replayResponse('https://h.test/none').status).toBe(404);
+  });
+});
+
+describe('getUpstreamBaseUrl', () => {
+  it('uses the default host unless overridden', () => {
+    vi.stubEnv('NOMADS_BASE_URL', '');
+    expect(getUpstreamBaseUrl('nomads')).toBe('https://nomads.ncep.noaa.gov');
+    vi.stubEnv('NOMADS_BASE_URL', 'http://localhost:4000/');
+    expect(getUpstreamBaseUrl('nomads')).toBe('http://localhost:4000');
+  });
+});
@@ -0,0 +1,86 @@
+// Record/replay of upstream API responses
+// WEATHER_FIXTURES=record saves every upstream response to WEATHER_FIXTURES_DIR;
+// WEATHER_FIXTURES=replay serves them from disk without touching the network
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+
+export type FixtureMode = 'record' | 'replay' | 'off';
+
+// Query parameters that carry credentials and never go to disk
+const SECRET_PARAMS = ['token'];
+
+export interface RecordedResponse {
+  url: string;          // Request URL with secrets removed
+  status: number;
+  contentType: string | null;
+  body: string;
+}
+
+export function getFixtureMode(): FixtureMode {
+  const mode = process.env.WEATHER_FIXTURES?.trim().toLowerCase();
+  return mode === 'record' || mode === 'replay' ? mode : 'off';
+}
+
+export function getFixturesDir(): string {
+  return path.resolve(process.cwd(), process.env.WEATHER_FIXTURES_DIR?.trim() || 'fixtures/upstream');
+}
+
+// Drop credentials and sort query parameters so equivalent requests share a fixture
+export function sanitizeUrl(url: string): string {
+  const parsed = new URL(url);
+  for (const param of SECRET_PARAMS) parsed.searchParams.delete(param);
+  parsed.searchParams.sort();
+  return parsed.toString();
+}
+
+// Fixture path: <dir>/<host>/<path>__<hash>.json, readable but unique per request
+export function getFixturePath(url: string): string {
+  const sanitized = sanitizeUrl(url);
+  const parsed = new URL(sanitized);
+  const slug = parsed.pathname.replace(/^\/+/, '').replace(/[^A-Za-z0-9._-]+/g, '_') || 'root';
+  const hash = createHash('sha1').update(parsed.pathname + parsed.search).digest('hex').slice(0, 10);
+  return path.join(getFixturesDir(), parsed.host.replace(/:/g, '_'), `${slug}__${hash}.json`);
+}
+
+export function readFixture(url: string): RecordedResponse | null {
+  const fixturePath = getFixturePath(url);
+  if (!fs.existsSync(fixturePath)) return null;
+  return JSON.parse(fs.readFileSync(fixturePath, 'utf8')) as RecordedResponse;
+}
+
+export function writeFixture(url: string, recorded: Omit<RecordedResponse, 'url'>): void {
+  const fixturePath = getFixturePath(url);
+  fs.mkdirSync(path.dirname(fixturePath), { recursive: true });
+  const data: RecordedResponse = { url: sanitizeUrl(url), ...recorded };
+  fs.writeFileSync(fixturePath, JSON.stringify(data, null, 2) + '\n');
+}
+
+// Serve a recorded response; a missing fixture is a 404 so callers take their
+// normal not-found path
+export function replayResponse(url: string): Response {
+  const recorded = readFixture(url);
+  if (!recorded) {
+    console.error('No recorded fixture for', sanitizeUrl(url), '->', getFixturePath(url));
+    return new Response('Fixture not found', { status: 404 });
+  }
+  return new Response(recorded.body, {
+    status: recorded.status,
+    headers: recorded.contentType ? { 'Content-Type': recorded.contentType } : undefined,
+  });
+}
+
+// Save a live response and hand back an unread copy to the caller
+export async function recordResponse(url: string, response: Response): Promise<Response> {
+  try {
+    writeFixture(url, {
+      status: response.status,
+      contentType: response.headers.get('content-type'),
+      body: await response.clone().text(),
+    });
+  } catch (error) {
+    console.error('Fixture write error:', error);
+  }
+  return response;
+}
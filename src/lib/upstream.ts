@@ -0,0 +1,19 @@
+// Upstream weather API hosts
+// Each base URL can be overridden per deployment to point at a mirror or a
+// local stand-in server
+
+export type UpstreamHost = 'synoptic' | 'aviationweather' | 'nomads' | 'iem';
+
+const UPSTREAM_HOSTS: Record<UpstreamHost, { envVar: string; defaultUrl: string }> = {
+  synoptic: { envVar: 'SYNOPTIC_BASE_URL', defaultUrl: 'https://api.synopticdata.com' },
+  aviationweather: { envVar: 'AVIATIONWEATHER_BASE_URL', defaultUrl: 'https://aviationweather.gov' },
+  nomads: { envVar: 'NOMADS_BASE_URL', defaultUrl: 'https://nomads.ncep.noaa.gov' },
+  iem: { envVar: 'IEM_BASE_URL', defaultUrl: 'https://mesonet.agron.iastate.edu' },
+};
+
+// Base URL for an upstream host, without a trailing slash
+export function getUpstreamBaseUrl(host: UpstreamHost): string {
+  const { envVar, defaultUrl } = UPSTREAM_HOSTS[host];
+  const override = process.env[envVar]?.trim();
+  return (override || defaultUrl).replace(/\/+$/, '');
+}
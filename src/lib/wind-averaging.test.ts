@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { averageWind, averagedTrace, circularMean, circularStdDev } from './wind-averaging';
+import { WindDataPoint } from './types';
+
+const BASE = 1700000000;
+
+function obs(offsetMinutes: number, wspd: number | null, wgst: number | null, wdir: number | null): WindDataPoint {
+  return { time: '00:00', timestamp: BASE + offsetMinutes * 60, wspd, wgst, wdir };
+}
+
+describe('circularMean', () => {
+  it('averages across north', () => {
+    expect(circularMean([350, 10])).toBe(360);
+    expect(circularMean([340, 350, 20])).toBe(357);
+  });
+
+  it('returns null for no or opposing directions', () => {
+    expect(circularMean([])).toBeNull();
+    expect(circularMean([90, 270])).toBeNull();
+  });
+});
+
+describe('circularStdDev', () => {
+  it('is zero for a steady direction and grows with scatter', () => {
+    expect(circularStdDev([270, 270, 270])).toBe(0);
+    const narrow = circularStdDev([260, 270, 280])!;
+    const wide = circularStdDev([230, 270, 310])!;
+    expect(narrow).toBeGreaterThan(5);
+    expect(wide).toBeGreaterThan(narrow);
+    expect(circularStdDev([350, 0, 10])).toBe(narrow);
+  });
+});
+
+describe('averageWind', () => {
+  const points = [
+    obs(0, 20, 30, 180),
+    obs(5, 8, null, 350),
+    obs(10, 12, 20, 10),
+    obs(15, 10, null, 0),
+  ];
+
+  it('uses the newest observation for a window shorter than the reporting interval', () => {
+    expect(averageWind(points, 2)).toMatchObject({ wdir: 360, wspd: 10, count: 1, wgst: 20 });
+  });
+
+  it('vector-averages direction and takes the 10-minute peak gust', () => {
+    const averaged = averageWind(points, 10)!;
+    expect(averaged).toMatchObject({ wdir: 5, wspd: 11, wgst: 20, count: 2 });
+    expect(averaged.from).toBe(BASE + 10 * 60);
+    expect(averaged.to).toBe(BASE + 15 * 60);
+  });
+
+  it('skips suspect observations and ignores calm directions', () => {
+    const averaged = averageWind(
+      [obs(0, 0, null, 90), obs(5, 10, null, 270), { ...obs(10, 40, null, 180), qc: ['spike'] }],
+      30
+    )!;
+    expect(averaged).toMatchObject({ wdir: 270, wspd: 5, count: 2, to: BASE + 5 * 60 });
+  });
+
+  it('returns null without usable wind', () => {
+    expect(averageWind([], 10)).toBeNull();
+    expect(averageWind([obs(0, null, null, null)], 10)).toBeNull();
+  });
+});
+
+describe('averagedTrace', () => {
+  it('averages up to each observation', () => {
+    const trace = averagedTrace([obs(0, 10, null, 350), obs(5, 20, null, 10), obs(10, 30, null, 10)], 10);
+    expect(trace.map((t) => t.wspd)).toEqual([10, 15, 25]);
+    expect(trace.map((t) => t.wdir)).toEqual([350, 360, 10]);
+  });
+
+  it('matches averageWind ending at each usable observation', () => {
+    const series = Array.from({ length: 60 }, (_, i) =>
+      obs(i * 5, i % 7 === 0 ? 0 : 8 + ((i * 5) % 11), i % 4 === 0 ? 20 + (i % 9) : null, (i * 37) % 360)
+    );
+    series[20] = { ...series[20], qc: ['spike'] };
+    series[31] = { ...series[31], wspd: null };
+    const usable = series.filter((o) => o.wspd !== null && !o.qc);
+
+    const trace = averagedTrace(series, 30);
+    expect(trace).toHaveLength(usable.length);
+    trace.forEach((t, i) => {
+      const expected = averageWind(series, 30, usable[i].timestamp);
+      expect(t).toMatchObject({ timestamp: usable[i].timestamp, wspd: expected?.wspd, wgst: expected?.wgst, wdir: expected?.wdir });
+    });
+  });
+});
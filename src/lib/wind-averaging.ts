@@ -0,0 +1,144 @@
+// Time-averaged winds in the style of FAA ATIS/tower reports: unit-vector mean
+// direction and scalar mean speed over a window, with the peak gust of the last
+// 10 minutes. Synoptic's 5-minute ASOS observations are themselves 2-minute
+// averages, so a 2-minute window is the latest observation.
+
+import { WindDataPoint } from './types';
+import { isSuspect } from './observation-qc';
+
+export const AVERAGING_WINDOWS_MIN = [2, 10, 30];
+export const GUST_WINDOW_MIN = 10;
+
+export interface AveragedWind {
+  wdir: number | null;              // Unit-vector mean direction, 1-360
+  wspd: number | null;              // Mean speed
+  wgst: number | null;              // Peak gust over the gust window, when above the mean speed
+  directionSpread: number | null;   // Circular standard deviation of direction, degrees
+  count: number;                    // Observations averaged
+  from: number;                     // Unix timestamps of the oldest and newest observation used
+  to: number;
+}
+
+// Direction of a summed unit vector (x east, y north), 1-360, or null when it cancels out
+function vectorDirection(x: number, y: number): number | null {
+  if (Math.abs(x) < 1e-9 && Math.abs(y) < 1e-9) return null;
+  const deg = Math.round((Math.atan2(x, y) * 180) / Math.PI);
+  return deg <= 0 ? deg + 360 : deg;
+}
+
+// Mean direction of unit vectors, 1-360, or null when the directions cancel out
+export function circularMean(directions: number[]): number | null {
+  if (directions.length === 0) return null;
+  let x = 0;
+  let y = 0;
+  for (const dir of directions) {
+    const rad = (dir * Math.PI) / 180;
+    x += Math.sin(rad);
+    y += Math.cos(rad);
+  }
+  return vectorDirection(x, y);
+}
+
+// Yamartino estimate of the circular standard deviation, degrees
+export function circularStdDev(directions: number[]): number | null {
+  if (directions.length === 0) return null;
+  let sin = 0;
+  let cos = 0;
+  for (const dir of directions) {
+    const rad = (dir * Math.PI) / 180;
+    sin += Math.sin(rad);
+    cos += Math.cos(rad);
+  }
+  sin /= directions.length;
+  cos /= directions.length;
+  const epsilon = Math.sqrt(Math.max(0, 1 - (sin * sin + cos * cos)));
+  const sigma = Math.asin(epsilon) * (1 + (2 / Math.sqrt(3) - 1) * epsilon ** 3);
+  return Math.round((sigma * 180) / Math.PI);
+}
+
+// Average the observations in the window ending at `end` (the newest observation by
+// default). Suspect observations are skipped; calm winds count towards the speed
+// but carry no direction. Returns null when the window holds no usable wind.
+export function averageWind(
+  observations: WindDataPoint[],
+  windowMinutes: number,
+  end: number = observations[observations.length - 1]?.timestamp ?? 0
+): AveragedWind | null {
+  const usable = observations.filter((o) => o.wspd !== null && o.timestamp <= end && !isSuspect(o));
+  if (usable.length === 0) return null;
+  const latest = usable[usable.length - 1].timestamp;
+
+  // At least the newest observation, even when the window is shorter than the reporting interval
+  const inWindow = usable.filter((o) => o.timestamp > latest - windowMinutes * 60);
+  const speeds = inWindow.map((o) => o.wspd as number);
+  const directions = inWindow
+    .filter((o) => o.wdir !== null && (o.wspd as number) > 0)
+    .map((o) => o.wdir as number);
+  const wspd = Math.round((speeds.reduce((sum, s) => sum + s, 0) / speeds.length) * 10) / 10;
+
+  const gusts = usable
+    .filter((o) => o.timestamp > latest - GUST_WINDOW_MIN * 60 && o.wgst !== null)
+    .map((o) => o.wgst as number);
+  const peakGust = gusts.length ? Math.max(...gusts) : null;
+
+  return {
+    wdir: circularMean(directions),
+    wspd,
+    wgst: peakGust !== null && peakGust > wspd ? peakGust : null,
+    directionSpread: circularStdDev(directions),
+    count: inWindow.length,
+    from: inWindow[0].timestamp,
+    to: latest,
+  };
+}
+
+// Running average at every observation, for plotting a smoothed trace. Matches
+// averageWind ending at each observation, with the window sums and gust peak kept as
+// the window slides instead of re-averaging from scratch.
+export function averagedTrace(observations: WindDataPoint[], windowMinutes: number): WindDataPoint[] {
+  const usable = observations.filter((o) => o.wspd !== null && !isSuspect(o));
+  const radians = usable.map((o) =>
+    o.wdir !== null && (o.wspd as number) > 0 ? (o.wdir * Math.PI) / 180 : null
+  );
+  let start = 0;
+  let speedSum = 0;
+  let x = 0;
+  let y = 0;
+  // Indices of gusts in the gust window that no later gust exceeds, highest first
+  const peaks: number[] = [];
+  let peakHead = 0;
+
+  return usable.map((o, i) => {
+    speedSum += o.wspd as number;
+    if (radians[i] !== null) {
+      x += Math.sin(radians[i]);
+      y += Math.cos(radians[i]);
+    }
+    for (; usable[start].timestamp <= o.timestamp - windowMinutes * 60; start++) {
+      speedSum -= usable[start].wspd as number;
+      const rad = radians[start];
+      if (rad !== null) {
+        x -= Math.sin(rad);
+        y -= Math.cos(rad);
+      }
+    }
+
+    if (o.wgst !== null) {
+      while (peaks.length > peakHead && (usable[peaks[peaks.length - 1]].wgst as number) <= o.wgst) peaks.pop();
+      peaks.push(i);
+    }
+    while (peakHead < peaks.length && usable[peaks[peakHead]].timestamp <= o.timestamp - GUST_WINDOW_MIN * 60) {
+      peakHead++;
+    }
+
+    const wspd = Math.round((speedSum / (i - start + 1)) * 10) / 10;
+    const peakGust = peakHead < peaks.length ? (usable[peaks[peakHead]].wgst as number) : null;
+    return {
+      time: o.time,
+      timestamp: o.timestamp,
+      wspd,
+      wgst: peakGust !== null && peakGust > wspd ? peakGust : null,
+      wdir: vectorDirection(x, y),
+    };
+  });
+}
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateWindComponents,
+  getSectorDirections,
+  getPossibleDirections,
+  getWorstCaseComponents,
+  formatWindGroup,
+} from './wind-variability';
+
+describe('calculateWindComponents', () => {
+  it('splits wind into headwind and crosswind', () => {
+    expect(calculateWindComponents(220, 10, 220)).toEqual({ headwind: 10, crosswind: 0, crosswindDir: '' });
+    expect(calculateWindComponents(310, 10, 220)).toEqual({ headwind: 0, crosswind: 10, crosswindDir: 'R' });
+    expect(calculateWindComponents(130, 10, 220)).toMatchObject({ crosswind: 10, crosswindDir: 'L' });
+    expect(calculateWindComponents(40, 10, 220).headwind).toBe(-10);
+  });
+});
+
+describe('getSectorDirections', () => {
+  it('lists each degree clockwise', () => {
+    const dirs = getSectorDirections(180, 240);
+    expect(dirs).toHaveLength(61);
+    expect(dirs[0]).toBe(180);
+    expect(dirs[60]).toBe(240);
+  });
+
+  it('wraps through north', () => {
+    const dirs = getSectorDirections(350, 30);
+    expect(dirs).toHaveLength(41);
+    expect(dirs).toContain(0);
+    expect(dirs).not.toContain(180);
+  });
+});
+
+describe('getPossibleDirections', () => {
+  it('returns the mean direction when the wind is steady', () => {
+    expect(getPossibleDirections(210, null)).toEqual([210]);
+    expect(getPossibleDirections(null, null)).toEqual([]);
+  });
+
+  it('uses the sector when present', () => {
+    expect(getPossibleDirections(210, { vrb: false, from: 180, to: 240 })).toHaveLength(61);
+  });
+
+  it('uses the full circle for VRB without a sector', () => {
+    expect(getPossibleDirections(null, { vrb: true, from: null, to: null })).toHaveLength(360);
+  });
+});
+
+describe('getWorstCaseComponents', () => {
+  it('returns null for no directions', () => {
+    expect(getWorstCaseComponents([], 10, 220)).toBeNull();
+  });
+
+  it('matches the single-direction components for a steady wind', () => {
+    expect(getWorstCaseComponents([250], 10, 220)).toEqual(calculateWindComponents(250, 10, 220));
+  });
+
+  it('takes the largest crosswind and least headwind across a sector', () => {
+    // Runway 22 with 21010KT 180V240: worst crosswind from 180 (40° off), least headwind also from 180
+    const worst = getWorstCaseComponents(getSectorDirections(180, 240), 10, 220)!;
+    expect(worst.crosswind).toBe(6);
+    expect(worst.crosswindDir).toBe('L');
+    expect(worst.headwind).toBe(8);
+  });
+
+  it('reports a full crosswind when the sector spans the beam', () => {
+    const worst = getWorstCaseComponents(getSectorDirections(270, 330), 10, 220)!;
+    expect(worst.crosswind).toBe(10);
+    expect(worst.crosswindDir).toBe('R');
+    expect(worst.headwind).toBe(-3);
+  });
+
+  it('reports full tailwind and crosswind for VRB', () => {
+    const worst = getWorstCaseComponents(getPossibleDirections(null, { vrb: true, from: null, to: null }), 5, 40)!;
+    expect(worst.headwind).toBe(-5);
+    expect(worst.crosswind).toBe(5);
+  });
+});
+
+describe('formatWindGroup', () => {
+  it('formats steady, gusting and VRB winds', () => {
+    expect(formatWindGroup(210, 10, null)).toBe('21010KT');
+    expect(formatWindGroup(90, 8, 18)).toBe('09008G18KT');
+    expect(formatWindGroup(null, 5, null, { vrb: true, from: null, to: null })).toBe('VRB05KT');
+    expect(formatWindGroup(null, null, null)).toBe('—');
+  });
+
+  it('appends the variable sector', () => {
+    expect(formatWindGroup(210, 10, null, { vrb: false, from: 180, to: 240 })).toBe('21010KT 180V240');
+    expect(formatWindGroup(10, 6, null, { vrb: false, from: 340, to: 50 })).toBe('01006KT 340V050');
+    expect(formatWindGroup(359.6, 6, null, { vrb: false, from: 300.2, to: 359.5 })).toBe('36006KT 300V360');
+  });
+
+  it('writes north as 360 and calm as 000', () => {
+    expect(formatWindGroup(360, 10, null)).toBe('36010KT');
+    expect(formatWindGroup(0, 0, null)).toBe('00000KT');
+  });
+
+  it('drops gusts that do not exceed the mean', () => {
+    expect(formatWindGroup(210, 10, 10)).toBe('21010KT');
+  });
+});
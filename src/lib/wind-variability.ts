@@ -0,0 +1,92 @@
+import { WindVariability } from './types';
+
+export interface WindComponents {
+  headwind: number;
+  crosswind: number;
+  crosswindDir: 'L' | 'R' | '';
+}
+
+// Headwind/crosswind for a single wind direction against a runway heading
+export function calculateWindComponents(
+  windDir: number,
+  windSpd: number,
+  runwayHdg: number
+): WindComponents {
+  const relativeAngle = ((windDir - runwayHdg + 360) % 360) * (Math.PI / 180);
+  const headwind = Math.round(windSpd * Math.cos(relativeAngle));
+  const crosswindRaw = windSpd * Math.sin(relativeAngle);
+  const crosswind = Math.round(Math.abs(crosswindRaw));
+  let crosswindDir: 'L' | 'R' | '' = '';
+  if (crosswind > 0) {
+    crosswindDir = crosswindRaw > 0 ? 'R' : 'L';
+  }
+  return { headwind, crosswind, crosswindDir };
+}
+
+// Every whole degree in a clockwise sector, e.g. 350V030 -> 350..359, 0..30
+export function getSectorDirections(from: number, to: number): number[] {
+  const span = (to - from + 360) % 360;
+  const directions: number[] = [];
+  for (let offset = 0; offset <= span; offset++) {
+    directions.push((from + offset) % 360);
+  }
+  return directions;
+}
+
+// Directions the wind may blow from: the dddVddd sector, the full circle for VRB,
+// or just the reported direction when the wind is steady
+export function getPossibleDirections(
+  wdir: number | null,
+  variability: WindVariability | null
+): number[] {
+  if (variability && variability.from !== null && variability.to !== null) {
+    return getSectorDirections(variability.from, variability.to);
+  }
+  if (variability?.vrb) {
+    return getSectorDirections(0, 359);
+  }
+  return wdir === null ? [] : [wdir];
+}
+
+// Worst case over a set of directions: least headwind (most tailwind) and most crosswind
+export function getWorstCaseComponents(
+  directions: number[],
+  windSpd: number,
+  runwayHdg: number
+): WindComponents | null {
+  if (!directions.length) return null;
+
+  let worst: WindComponents | null = null;
+  for (const dir of directions) {
+    const c = calculateWindComponents(dir, windSpd, runwayHdg);
+    if (!worst) {
+      worst = { ...c };
+      continue;
+    }
+    if (c.headwind < worst.headwind) worst.headwind = c.headwind;
+    if (c.crosswind > worst.crosswind) {
+      worst.crosswind = c.crosswind;
+      worst.crosswindDir = c.crosswindDir;
+    }
+  }
+  return worst;
+}
+
+// Format wind in METAR style: "21010KT", "21010G18KT", "VRB05KT", "21010KT 180V240"
+export function formatWindGroup(
+  wdir: number | null,
+  wspd: number | null,
+  wgst: number | null,
+  variability: WindVariability | null = null
+): string {
+  if (wspd === null) return '—';
+  // Headings may be fractional after conversion to magnetic; north is 360 ("000" means calm)
+  const pad3 = (deg: number) => String(Math.round(deg) % 360 || 360).padStart(3, '0');
+  const dir = wdir === null ? 'VRB' : wspd === 0 ? '000' : pad3(wdir);
+  const spd = String(wspd).padStart(2, '0');
+  const gst = wgst !== null && wgst > wspd ? `G${wgst}` : '';
+  const sector = variability && variability.from !== null && variability.to !== null
+    ? ` ${pad3(variability.from)}V${pad3(variability.to)}`
+    : '';
+  return `${dir}${spd}${gst}KT${sector}`;
+}
@@ -1,8 +1,11 @@
 import { describe, expect, it } from 'vitest';
 import {
   buildWindPlotPathForState,
+  formatObservationRange,
+  getForecastRangeForHours,
   normalizeLegacyQueryRoute,
   normalizePathRoute,
+  routeModeToViewMode,
 } from './windplot-route';
 
 describe('windplot route helpers', () => {
@@ -50,4 +53,54 @@ describe('windplot route helpers', () => {
     expect(buildWindPlotPathForState('kteb', 'observations', 12, 24)).toBe('/KTEB/observation/12h');
     expect(buildWindPlotPathForState('kteb', 'forecast', 12, 24)).toBe('/KTEB/forecast/24h');
   });
+
+  it('accepts multi-day observation ranges', () => {
+    expect(normalizePathRoute({ icao: 'KTEB', mode: 'observation', duration: '7d' })).toEqual({
+      icao: 'KTEB',
+      mode: 'observation',
+      durationHours: 168,
+    });
+    expect(buildWindPlotPathForState('kteb', 'observations', 720, 24)).toBe('/KTEB/observation/720h');
+  });
+
+  it('parses and builds combined timeline paths from the observation window', () => {
+    expect(normalizePathRoute({ icao: 'kteb', mode: 'Combined', duration: '6h' })).toEqual({
+      icao: 'KTEB',
+      mode: 'combined',
+      durationHours: 6,
+    });
+    expect(normalizePathRoute({ icao: 'KTEB', mode: 'combined', duration: '5h' }).durationHours).toBe(4);
+    expect(buildWindPlotPathForState('kteb', 'combined', 12, 72)).toBe('/KTEB/combined/12h');
+    expect(routeModeToViewMode('combined')).toBe('combined');
+    expect(routeModeToViewMode('observation')).toBe('observations');
+  });
+
+  it('parses and builds climatology paths', () => {
+    expect(normalizePathRoute({ icao: 'KFRG', mode: 'climatology', duration: '24h' })).toEqual({
+      icao: 'KFRG',
+      mode: 'climatology',
+      durationHours: 24,
+    });
+    expect(normalizePathRoute({ icao: 'KFRG', mode: 'climatology' }).durationHours).toBe(4);
+    expect(buildWindPlotPathForState('KFRG', 'climatology', 6, 24)).toBe('/KFRG/climatology/6h');
+  });
+
+  it('labels observation ranges in days past 24h', () => {
+    expect(formatObservationRange(12)).toBe('12h');
+    expect(formatObservationRange(24)).toBe('24h');
+    expect(formatObservationRange(72)).toBe('3d');
+    expect(formatObservationRange(720)).toBe('30d');
+  });
+
+  it('accepts extended forecast ranges', () => {
+    expect(normalizePathRoute({ icao: 'KTEB', mode: 'forecast', duration: '5d' }).durationHours).toBe(120);
+    expect(normalizePathRoute({ icao: 'KTEB', mode: 'forecast', duration: '7d' }).durationHours).toBe(168);
+    expect(normalizePathRoute({ icao: 'KTEB', mode: 'forecast', duration: '10d' }).durationHours).toBe(24);
+  });
+
+  it('picks the forecast product range covering the requested hours', () => {
+    expect(getForecastRangeForHours(12)).toBe(24);
+    expect(getForecastRangeForHours(48)).toBe(72);
+    expect(getForecastRangeForHours(120)).toBe(168);
+  });
 });
@@ -1,5 +1,9 @@
-export type WindPlotViewMode = 'observations' | 'forecast';
-export type WindPlotRouteMode = 'observation' | 'forecast';
+// 'combined' shows recent observations running into the forecast on one timeline and
+// 'climatology' long-term wind statistics; both keep the observation window as duration
+export type WindPlotViewMode = 'observations' | 'forecast' | 'combined' | 'climatology';
+export type WindPlotRouteMode = 'observation' | 'forecast' | 'combined' | 'climatology';
+
+const PATH_ROUTE_MODES = new Set<string>(['forecast', 'combined', 'climatology']);
 
 export interface WindPlotRouteState {
   icao: string;
@@ -11,8 +15,8 @@ export const DEFAULT_ICAO = 'KCDW';
 export const DEFAULT_OBSERVATION_HOURS = 4;
 export const DEFAULT_FORECAST_HOURS = 24;
 
-const OBSERVATION_HOUR_OPTIONS = new Set([1, 2, 4, 6, 12, 24]);
-const FORECAST_HOUR_OPTIONS = new Set([4, 8, 12, 24, 48, 72]);
+const OBSERVATION_HOUR_OPTIONS = new Set([1, 2, 4, 6, 12, 24, 72, 168, 720]);
+const FORECAST_HOUR_OPTIONS = new Set([4, 8, 12, 24, 48, 72, 120, 168]);
 
 function normalizeIcao(rawIcao?: string): string {
   const normalized = rawIcao?.trim().toUpperCase();
@@ -59,7 +63,8 @@ export function normalizePathRoute(params: {
   mode?: string;
   duration?: string;
 }): WindPlotRouteState {
-  const mode = params.mode?.toLowerCase() === 'forecast' ? 'forecast' : 'observation';
+  const rawMode = params.mode?.toLowerCase();
+  const mode = rawMode && PATH_ROUTE_MODES.has(rawMode) ? (rawMode as WindPlotRouteMode) : 'observation';
   const rawHours = parseDurationHours(params.duration);
 
   return {
@@ -72,7 +77,26 @@ export function normalizePathRoute(params: {
 }
 
 export function routeModeToViewMode(mode: WindPlotRouteMode): WindPlotViewMode {
-  return mode === 'forecast' ? 'forecast' : 'observations';
+  return mode === 'observation' ? 'observations' : mode;
+}
+
+function viewModeToRouteMode(viewMode: WindPlotViewMode): WindPlotRouteMode {
+  return viewMode === 'observations' ? 'observation' : viewMode;
+}
+
+// Forecast product span: 24h hourly (NBH), 72h 3-hourly (NBS), 7d 12-hourly (NBE)
+export type ForecastRange = 24 | 72 | 168;
+
+// Smallest forecast range that covers the requested hours
+export function getForecastRangeForHours(hours: number): ForecastRange {
+  if (hours > 72) return 168;
+  if (hours > 24) return 72;
+  return 24;
+}
+
+// Label an observation range: "12h", "3d", "7d", "30d"
+export function formatObservationRange(hours: number): string {
+  return hours > 24 && hours % 24 === 0 ? `${hours / 24}d` : `${hours}h`;
 }
 
 export function buildWindPlotPath(route: WindPlotRouteState): string {
@@ -87,7 +111,7 @@ export function buildWindPlotPathForState(
 ): string {
   return buildWindPlotPath({
     icao: normalizeIcao(icao),
-    mode: viewMode === 'forecast' ? 'forecast' : 'observation',
+    mode: viewModeToRouteMode(viewMode),
     durationHours: viewMode === 'forecast'
       ? normalizeForecastHours(forecastHours)
       : normalizeObservationHours(observationHours),